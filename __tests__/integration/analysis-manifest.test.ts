@@ -0,0 +1,227 @@
+import { createHash } from "node:crypto";
+import { convexTest } from "convex-test";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import schema from "../../convex/schema";
+import { modules } from "../../convex/test.setup";
+import {
+	fetchRepositoryContent,
+	resolveFileRules,
+} from "../../trigger/repository-content";
+import type { RepositorySource } from "../../trigger/repository-source";
+
+const files: Record<string, string> = {
+	"README.md": "# Fixture\n\nA tiny repository used in tests.\n",
+	"src/index.ts": 'export const greeting = "hello";\n',
+	"src/big.ts": `export const data = "${"x".repeat(2000)}";\n`,
+	"node_modules/left-pad/index.js": "module.exports = () => {};\n",
+	"assets/logo.png": "not really a png",
+	"package-lock.json": '{ "lockfileVersion": 3 }\n',
+};
+
+// In-memory source; "src/index.ts" can't be read
+function createSource(): RepositorySource {
+	return {
+		label: "fixture",
+		async listFiles() {
+			return Object.entries(files).map(([path, content]) => ({
+				path,
+				size: content.length,
+			}));
+		},
+		async readFile(path) {
+			return path === "src/index.ts" ? null : (files[path] ?? null);
+		},
+	};
+}
+
+// An analysis owned by "owner", as the background job would find it
+async function createAnalysis(): Promise<{
+	t: ReturnType<typeof convexTest>;
+	analysisId: Id<"analyses">;
+}> {
+	const t = convexTest(schema, modules);
+	await t.mutation(api.users.syncUser, {
+		clerkId: "owner",
+		email: "owner@example.com",
+		name: "owner",
+	});
+	const asOwner = t.withIdentity({ subject: "owner" });
+	const rubricId = await asOwner.mutation(api.rubrics.createRubric, {
+		name: "Rubric",
+		description: "Rubric for testing",
+	});
+	const analysisId = await asOwner.mutation(api.analyses.createOneOffAnalysis, {
+		repositoryUrl: "https://github.com/owner/repo",
+		repositoryOwner: "owner",
+		repositoryName: "repo",
+		branch: "main",
+		rubricId,
+	});
+	return { t, analysisId };
+}
+
+describe("Integration: Analysis manifests", () => {
+	afterEach(() => {
+		vi.unstubAllEnvs();
+	});
+
+	it("should list included and skipped files with their reasons", async () => {
+		const { manifest } = await fetchRepositoryContent(
+			createSource(),
+			resolveFileRules({ maxFileBytes: 1024 }),
+		);
+
+		expect(manifest.included).toEqual([
+			{
+				path: "README.md",
+				size: files["README.md"].length,
+				language: "markdown",
+				hash: createHash("sha256").update(files["README.md"]).digest("hex"),
+			},
+		]);
+		expect(
+			[...manifest.skipped].sort((a, b) => a.path.localeCompare(b.path)),
+		).toEqual([
+			{ path: "assets/logo.png", reason: "unsupported file type", size: 16 },
+			{
+				path: "node_modules/left-pad/index.js",
+				reason: "skipped directory",
+				size: 27,
+			},
+			{ path: "package-lock.json", reason: "lockfile", size: 25 },
+			{ path: "src/big.ts", reason: "file too large", size: 2024 },
+			{ path: "src/index.ts", reason: "fetch failed", size: 33 },
+		]);
+		expect(manifest.totals).toEqual({
+			listedFiles: 6,
+			includedFiles: 1,
+			includedBytes: files["README.md"].length,
+			skippedFiles: 5,
+			skippedByReason: [
+				{ reason: "fetch failed", count: 1 },
+				{ reason: "file too large", count: 1 },
+				{ reason: "lockfile", count: 1 },
+				{ reason: "skipped directory", count: 1 },
+				{ reason: "unsupported file type", count: 1 },
+			],
+		});
+	});
+
+	it("should store one manifest per analysis, visible only to its owner", async () => {
+		vi.stubEnv("TASK_SECRET", "task-secret");
+		const t = convexTest(schema, modules);
+		for (const clerkId of ["owner", "other"]) {
+			await t.mutation(api.users.syncUser, {
+				clerkId,
+				email: `${clerkId}@example.com`,
+				name: clerkId,
+			});
+		}
+		const asOwner = t.withIdentity({ subject: "owner" });
+		const rubricId = await asOwner.mutation(api.rubrics.createRubric, {
+			name: "Rubric",
+			description: "Rubric for testing",
+		});
+		const analysisId = await asOwner.mutation(
+			api.analyses.createOneOffAnalysis,
+			{
+				repositoryUrl: "https://github.com/owner/repo",
+				repositoryOwner: "owner",
+				repositoryName: "repo",
+				branch: "main",
+				rubricId,
+			},
+		);
+
+		expect(
+			await asOwner.query(api.analyses.getAnalysisManifest, { analysisId }),
+		).toBeNull();
+
+		const { manifest } = await fetchRepositoryContent(createSource());
+		// Recorded twice, as a retried task would
+		await t.mutation(api.analyses.recordAnalysisManifest, {
+			taskSecret: "task-secret",
+			analysisId,
+			manifest: { ...manifest, included: [] },
+		});
+		await t.mutation(api.analyses.recordAnalysisManifest, {
+			taskSecret: "task-secret",
+			analysisId,
+			manifest,
+		});
+		await expect(
+			t.mutation(api.analyses.recordAnalysisManifest, {
+				taskSecret: "wrong",
+				analysisId,
+				manifest: { ...manifest, skipped: [] },
+			}),
+		).rejects.toThrow("Invalid task secret");
+
+		const stored = await asOwner.query(api.analyses.getAnalysisManifest, {
+			analysisId,
+		});
+		expect(stored).toMatchObject(manifest);
+		expect(
+			await t.run((ctx) => ctx.db.query("analysisManifests").collect()),
+		).toHaveLength(1);
+
+		await expect(
+			t
+				.withIdentity({ subject: "other" })
+				.query(api.analyses.getAnalysisManifest, { analysisId }),
+		).rejects.toThrow("Access denied");
+	});
+
+	it("should only let the background job record what was analyzed", async () => {
+		vi.stubEnv("TASK_SECRET", "task-secret");
+		const { t, analysisId } = await createAnalysis();
+
+		await expect(
+			t.mutation(api.analyses.recordAnalyzedRevision, {
+				taskSecret: "wrong",
+				analysisId,
+				commitSha: "abc123",
+				treeTruncated: false,
+				branch: "feature",
+			}),
+		).rejects.toThrow("Invalid task secret");
+		const untouched = await t.run((ctx) => ctx.db.get(analysisId));
+		expect(untouched?.branch).toBe("main");
+		expect(untouched?.commitSha).toBeUndefined();
+
+		await t.mutation(api.analyses.recordAnalyzedRevision, {
+			taskSecret: "task-secret",
+			analysisId,
+			commitSha: "abc123",
+			treeTruncated: false,
+		});
+		expect(await t.run((ctx) => ctx.db.get(analysisId))).toMatchObject({
+			commitSha: "abc123",
+			treeTruncated: false,
+		});
+
+		const fileSelection = {
+			totalCandidates: 1,
+			selectedBytes: 10,
+			selected: [{ path: "README.md", score: 1, reasons: ["readme"] }],
+			excluded: [],
+		};
+		await expect(
+			t.mutation(api.analyses.recordFileSelection, {
+				taskSecret: "wrong",
+				analysisId,
+				fileSelection,
+			}),
+		).rejects.toThrow("Invalid task secret");
+		await t.mutation(api.analyses.recordFileSelection, {
+			taskSecret: "task-secret",
+			analysisId,
+			fileSelection,
+		});
+		expect(
+			(await t.run((ctx) => ctx.db.get(analysisId)))?.fileSelection,
+		).toEqual(fileSelection);
+	});
+});
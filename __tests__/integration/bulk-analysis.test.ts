@@ -94,4 +94,55 @@ describe("Integration: Bulk Analysis Creation", () => {
 			expect(analysis.rubricId).toBe(rubricId);
 		});
 	});
+
+	it("should reject one-off analyses whose ref doesn't fit its type", async () => {
+		const t = convexTest(schema, modules);
+		await t.mutation(api.users.syncUser, {
+			clerkId: "test-user-id",
+			email: "test@example.com",
+			name: "Test User",
+		});
+		const asUser = t.withIdentity({ subject: "test-user-id" });
+		const rubricId = await asUser.mutation(api.rubrics.createRubric, {
+			name: "Test Rubric",
+			description: "Rubric for testing",
+		});
+		const analysis = {
+			repositoryUrl: "https://github.com/owner/repo1",
+			repositoryOwner: "owner",
+			repositoryName: "repo1",
+			rubricId,
+		};
+
+		await expect(
+			asUser.mutation(api.analyses.createOneOffAnalysis, {
+				...analysis,
+				branch: "feature/x",
+				refType: "pull_request",
+			}),
+		).rejects.toThrow("Pull request must be a positive whole number");
+		await expect(
+			asUser.mutation(api.analyses.createOneOffAnalysis, {
+				...analysis,
+				branch: "main",
+				refType: "commit",
+			}),
+		).rejects.toThrow("Commit must be a SHA of 7 to 40 hex characters");
+		// A diff needs a pull request, including when no ref type is given
+		await expect(
+			asUser.mutation(api.analyses.createOneOffAnalysis, {
+				...analysis,
+				branch: "main",
+				scope: "diff",
+			}),
+		).rejects.toThrow("Diff-scoped analysis requires a pull request");
+
+		await asUser.mutation(api.analyses.createOneOffAnalysis, {
+			...analysis,
+			branch: "12",
+			refType: "pull_request",
+			scope: "diff",
+		});
+		expect(await asUser.query(api.analyses.listAnalyses, {})).toHaveLength(1);
+	});
 });
@@ -0,0 +1,161 @@
+import type { ConvexHttpClient } from "convex/browser";
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import schema from "../../convex/schema";
+import { modules } from "../../convex/test.setup";
+import {
+	type EvaluationContent,
+	loadEvaluationContent,
+	storeEvaluationContent,
+} from "../../trigger/evaluation-content";
+
+const content: EvaluationContent = {
+	repositoryContent: {
+		files: [
+			{
+				path: "src/index.ts",
+				content: 'export const greeting = "hello";\n',
+				language: "typescript",
+			},
+		],
+		structure: "└── src/\n    └── index.ts",
+	},
+};
+
+async function setup() {
+	const t = convexTest(schema, modules);
+	await t.mutation(api.users.syncUser, {
+		clerkId: "user_1",
+		email: "user@example.com",
+		name: "User",
+	});
+	const asUser = t.withIdentity({ subject: "user_1" });
+	const rubricId = await asUser.mutation(api.rubrics.createRubric, {
+		name: "Rubric",
+		description: "Rubric for testing",
+	});
+	const analysisId = await asUser.mutation(api.analyses.createOneOffAnalysis, {
+		repositoryUrl: "https://github.com/owner/repo",
+		repositoryOwner: "owner",
+		repositoryName: "repo",
+		branch: "main",
+		rubricId,
+	});
+
+	// Route the task's Convex calls and storage requests to the test backend
+	const convex = {
+		mutation: (ref: never, args: never) => t.mutation(ref, args),
+		query: (ref: never, args: never) => t.query(ref, args),
+	} as unknown as ConvexHttpClient;
+	const stored = new Map<Id<"_storage">, string>();
+	const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+		if (init?.method === "POST") {
+			const storageId = await t.run((ctx) =>
+				ctx.storage.store(new Blob([String(init.body)])),
+			);
+			stored.set(storageId, String(init.body));
+			return Response.json({ storageId });
+		}
+		for (const [storageId, body] of stored) {
+			if ((await t.run((ctx) => ctx.storage.getUrl(storageId))) === url) {
+				return new Response(body);
+			}
+		}
+		return new Response("", { status: 404 });
+	});
+	vi.stubGlobal("fetch", fetchMock);
+
+	return { t, convex, analysisId, fetchMock };
+}
+
+describe("Integration: Evaluation content", () => {
+	beforeEach(() => {
+		vi.stubEnv("TASK_SECRET", "task-secret");
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.unstubAllEnvs();
+	});
+
+	it("should load content by reference, downloading it once", async () => {
+		const { convex, analysisId, fetchMock } = await setup();
+
+		const reference = await storeEvaluationContent(convex, analysisId, content);
+		expect(JSON.stringify(reference).length).toBeLessThan(200);
+
+		const [first, second] = await Promise.all([
+			loadEvaluationContent(convex, analysisId, reference),
+			loadEvaluationContent(convex, analysisId, reference),
+		]);
+		expect(first).toEqual(content);
+		expect(second).toBe(first);
+		// One upload and one download
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it("should only serve content attached to a running analysis", async () => {
+		const { t, convex, analysisId } = await setup();
+
+		const first = await storeEvaluationContent(convex, analysisId, content);
+		const retried = await storeEvaluationContent(convex, analysisId, {
+			...content,
+			diff: undefined,
+		});
+
+		// A retried task replaces the content of the earlier attempt
+		expect(
+			await t.query(api.analyses.getAnalysisContentUrl, {
+				taskSecret: "task-secret",
+				analysisId,
+				storageId: first.storageId as Id<"_storage">,
+			}),
+		).toBeNull();
+		expect(
+			await t.run((ctx) => ctx.storage.get(first.storageId as Id<"_storage">)),
+		).toBeNull();
+
+		await t.mutation(api.analyses.completeAnalysis, { analysisId });
+		expect(
+			await t.query(api.analyses.getAnalysisContentUrl, {
+				taskSecret: "task-secret",
+				analysisId,
+				storageId: retried.storageId as Id<"_storage">,
+			}),
+		).toBeNull();
+		const analysis = await t.run((ctx) => ctx.db.get(analysisId));
+		expect(analysis?.contentStorageId).toBeUndefined();
+	});
+
+	it("should only let the background job upload and read content", async () => {
+		const { t, convex, analysisId } = await setup();
+		const storageId = await t.run((ctx) => ctx.storage.store(new Blob(["{}"])));
+
+		await expect(
+			t.mutation(api.analyses.generateContentUploadUrl, {
+				taskSecret: "wrong",
+			}),
+		).rejects.toThrow("Invalid task secret");
+		await expect(
+			t.mutation(api.analyses.attachAnalysisContent, {
+				taskSecret: "wrong",
+				analysisId,
+				storageId,
+			}),
+		).rejects.toThrow("Invalid task secret");
+
+		const analysis = await t.run((ctx) => ctx.db.get(analysisId));
+		expect(analysis?.contentStorageId).toBeUndefined();
+
+		const reference = await storeEvaluationContent(convex, analysisId, content);
+		await expect(
+			t.query(api.analyses.getAnalysisContentUrl, {
+				taskSecret: "wrong",
+				analysisId,
+				storageId: reference.storageId as Id<"_storage">,
+			}),
+		).rejects.toThrow("Invalid task secret");
+	});
+});
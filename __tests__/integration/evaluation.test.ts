@@ -0,0 +1,433 @@
+import { convexTest } from "convex-test";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { api } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+import { modules } from "../../convex/test.setup";
+import {
+	evaluateWithAI,
+	replaceUnverifiedExamples,
+} from "../../trigger/analyze";
+import { createMockEvaluation } from "../../trigger/mock-model";
+import { estimateTokens } from "../../trigger/prompt-budget";
+import type { RepositoryContent } from "../../trigger/repository-content";
+
+// Keep the mock provider's answers, but let tests script the odd one
+vi.mock("../../trigger/mock-model", async (importOriginal) => {
+	const original =
+		await importOriginal<typeof import("../../trigger/mock-model")>();
+	return { createMockEvaluation: vi.fn(original.createMockEvaluation) };
+});
+
+const MOCK_MODEL_ID = "mock/deterministic";
+
+const repositoryContent: RepositoryContent = {
+	files: [
+		{
+			path: "src/index.ts",
+			content:
+				'export const greeting = "hello";\nexport const farewell = "goodbye";\n',
+			language: "typescript",
+		},
+	],
+	structure: "└── src/\n    └── index.ts",
+};
+
+const prompt = `Evaluate the repository.
+
+--- src/index.ts ---
+${repositoryContent.files[0].content}`;
+
+const farewell = {
+	filePath: "src/index.ts",
+	lineStart: 2,
+	lineEnd: 2,
+	code: 'export const farewell = "goodbye";',
+	explanation: "Exported constant",
+	verified: "exact" as const,
+};
+
+const missing = {
+	filePath: "src/missing.ts",
+	lineStart: 4,
+	lineEnd: 6,
+	code: "function missing() {}",
+	explanation: "Not in the repository",
+	verified: "not_found" as const,
+};
+
+describe("Integration: AI evaluation", () => {
+	afterEach(() => {
+		vi.mocked(createMockEvaluation).mockReset();
+		vi.restoreAllMocks();
+	});
+
+	describe("code example replacements", () => {
+		it("should swap unverified examples for replacements found in the repository", async () => {
+			const { examples, usage } = await replaceUnverifiedExamples(
+				prompt,
+				[missing, farewell],
+				repositoryContent,
+				undefined,
+				MOCK_MODEL_ID,
+			);
+
+			// The retry names the examples that weren't found
+			expect(vi.mocked(createMockEvaluation)).toHaveBeenCalledTimes(1);
+			expect(vi.mocked(createMockEvaluation).mock.calls[0][0]).toContain(
+				"- src/missing.ts lines 4-6",
+			);
+
+			expect(examples).toEqual([
+				farewell,
+				expect.objectContaining({
+					filePath: "src/index.ts",
+					lineStart: 1,
+					lineEnd: 1,
+					code: 'export const greeting = "hello";',
+					verified: "exact",
+				}),
+			]);
+			expect(usage?.modelId).toBe(MOCK_MODEL_ID);
+		});
+
+		it("should keep an unverified example flagged when no new snippet replaces it", async () => {
+			const greeting = {
+				...farewell,
+				lineStart: 1,
+				lineEnd: 1,
+				code: 'export const greeting = "hello";',
+			};
+
+			// The mock answers with the greeting again, which is already shown
+			const { examples } = await replaceUnverifiedExamples(
+				prompt,
+				[greeting, missing],
+				repositoryContent,
+				undefined,
+				MOCK_MODEL_ID,
+			);
+
+			expect(examples).toEqual([greeting, missing]);
+		});
+
+		it("should keep the original examples when the retry fails", async () => {
+			vi.mocked(createMockEvaluation).mockImplementationOnce(() => {
+				throw new Error("Provider unavailable");
+			});
+			vi.spyOn(console, "warn").mockImplementation(() => {});
+
+			const { examples, usage } = await replaceUnverifiedExamples(
+				prompt,
+				[farewell, missing],
+				repositoryContent,
+				undefined,
+				MOCK_MODEL_ID,
+			);
+
+			expect(examples).toEqual([farewell, missing]);
+			expect(usage).toBeUndefined();
+		});
+
+		it("should not retry when every example was found", async () => {
+			const { examples, usage } = await replaceUnverifiedExamples(
+				prompt,
+				[farewell],
+				repositoryContent,
+				undefined,
+				MOCK_MODEL_ID,
+			);
+
+			expect(examples).toEqual([farewell]);
+			expect(usage).toBeUndefined();
+			expect(vi.mocked(createMockEvaluation)).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("justifications", () => {
+		it("should reject a blank justification when the item requires one", async () => {
+			vi.mocked(createMockEvaluation).mockReturnValue({
+				value: true,
+				justification: "  ",
+				citations: [],
+			});
+
+			await expect(
+				evaluateWithAI(
+					prompt,
+					"yes_no",
+					{ requireJustification: true },
+					MOCK_MODEL_ID,
+				),
+			).rejects.toThrow(
+				"justification: A justification is required for this item",
+			);
+
+			const { result } = await evaluateWithAI(
+				prompt,
+				"yes_no",
+				undefined,
+				MOCK_MODEL_ID,
+			);
+			expect(result).toMatchObject({ value: true, justification: "  " });
+		});
+
+		it("should ask for a justification only from items that require one", async () => {
+			const required = await evaluateWithAI(
+				prompt,
+				"comments",
+				{ requireJustification: true },
+				MOCK_MODEL_ID,
+			);
+			expect(required.result).toHaveProperty(
+				"justification",
+				expect.stringMatching(/\S/),
+			);
+
+			vi.mocked(createMockEvaluation).mockReturnValue({
+				feedback: "Well structured",
+				citations: [],
+			});
+			await expect(
+				evaluateWithAI(
+					prompt,
+					"comments",
+					{ requireJustification: true },
+					MOCK_MODEL_ID,
+				),
+			).rejects.toThrow("justification");
+
+			const optional = await evaluateWithAI(
+				prompt,
+				"comments",
+				undefined,
+				MOCK_MODEL_ID,
+			);
+			expect(optional.result).not.toHaveProperty("justification");
+		});
+	});
+
+	describe("example cap", () => {
+		const example = {
+			filePath: "src/index.ts",
+			lineStart: 1,
+			lineEnd: 1,
+			code: 'export const greeting = "hello";',
+			explanation: "Exported constant",
+		};
+
+		it("should reject answers with more examples than the item allows", async () => {
+			vi.mocked(createMockEvaluation).mockReturnValue({
+				examples: [example, example, example],
+			});
+
+			await expect(
+				evaluateWithAI(
+					prompt,
+					"code_examples",
+					{ maxExamples: 2 },
+					MOCK_MODEL_ID,
+				),
+			).rejects.toThrow("examples: Return at most 2 examples");
+
+			const { result } = await evaluateWithAI(
+				prompt,
+				"code_examples",
+				{ maxExamples: 3 },
+				MOCK_MODEL_ID,
+			);
+			expect(result).toEqual({ examples: [example, example, example] });
+		});
+
+		it("should only store caps of 1 to 20 examples", async () => {
+			const t = convexTest(schema, modules);
+			await t.mutation(api.users.syncUser, {
+				clerkId: "user_1",
+				email: "user@example.com",
+				name: "User",
+			});
+			const asUser = t.withIdentity({ subject: "user_1" });
+			const rubricId = await asUser.mutation(api.rubrics.createRubric, {
+				name: "Rubric",
+				description: "Rubric for testing",
+			});
+			const item = {
+				rubricId,
+				name: "Examples",
+				description: "Show error handling",
+				evaluationType: "code_examples" as const,
+			};
+
+			for (const maxExamples of [0, 1.5, 21]) {
+				await expect(
+					asUser.mutation(api.rubrics.addRubricItem, {
+						...item,
+						config: { maxExamples },
+					}),
+				).rejects.toThrow("Max examples must be a whole number from 1 to 20");
+			}
+
+			const itemId = await asUser.mutation(api.rubrics.addRubricItem, {
+				...item,
+				config: { maxExamples: 20 },
+			});
+			await expect(
+				asUser.mutation(api.rubrics.updateRubricItem, {
+					itemId,
+					config: { maxExamples: 0 },
+				}),
+			).rejects.toThrow("Max examples must be a whole number from 1 to 20");
+			expect(
+				(await t.run((ctx) => ctx.db.get(itemId)))?.config?.maxExamples,
+			).toBe(20);
+		});
+	});
+
+	describe("range scores", () => {
+		const config = {
+			minValue: 1,
+			maxValue: 5,
+			rangeStep: 1,
+			rangeGuidance: "1 is poor, 5 is excellent",
+		};
+
+		it("should ask again for a score outside the item's range", async () => {
+			vi.mocked(createMockEvaluation)
+				.mockReturnValueOnce({ value: 7.5, rationale: "Great", citations: [] })
+				.mockReturnValueOnce({ value: 4, rationale: "Good", citations: [] });
+
+			const { result } = await evaluateWithAI(
+				prompt,
+				"range",
+				config,
+				MOCK_MODEL_ID,
+			);
+
+			const prompts = vi
+				.mocked(createMockEvaluation)
+				.mock.calls.map(([attemptPrompt]) => attemptPrompt);
+			expect(prompts).toHaveLength(2);
+			expect(prompts[1]).toContain(
+				"Your previous score of 7.5 is not allowed. The score must be from 1 to 5, in whole numbers.",
+			);
+			expect(result).toMatchObject({ value: 4, min: 1, max: 5 });
+		});
+
+		it("should clamp a score still out of range, with bounds from the config", async () => {
+			// The model also claims a scale of its own, which is ignored
+			vi.mocked(createMockEvaluation).mockReturnValue({
+				value: 150,
+				min: 0,
+				max: 200,
+				rationale: "Outstanding",
+				citations: [],
+			});
+
+			const { result, usage } = await evaluateWithAI(
+				prompt,
+				"range",
+				config,
+				MOCK_MODEL_ID,
+			);
+
+			// The first answer and two repairs
+			expect(vi.mocked(createMockEvaluation)).toHaveBeenCalledTimes(3);
+			expect(result).toMatchObject({ value: 5, min: 1, max: 5 });
+			// Every attempt is counted
+			expect(usage.inputTokens).toBe(
+				vi
+					.mocked(createMockEvaluation)
+					.mock.calls.reduce(
+						(sum, [attemptPrompt]) => sum + estimateTokens(attemptPrompt),
+						0,
+					),
+			);
+		});
+	});
+
+	describe("option selections", () => {
+		const config = {
+			options: ["TypeScript", "Python"],
+			allowMultiple: true,
+			allowOther: true,
+		};
+
+		it("should drop an Other answer unless Other was selected", async () => {
+			vi.mocked(createMockEvaluation).mockReturnValue({
+				selections: ["typescript"],
+				otherValue: "Elixir",
+				rationales: [],
+				citations: [],
+			});
+
+			const { result } = await evaluateWithAI(
+				prompt,
+				"options",
+				config,
+				MOCK_MODEL_ID,
+			);
+			expect(result).toMatchObject({ selections: ["TypeScript"] });
+			expect(result).not.toHaveProperty("otherValue");
+
+			vi.mocked(createMockEvaluation).mockReturnValue({
+				selections: [" other", "Python"],
+				otherValue: " Elixir ",
+				rationales: [],
+				citations: [],
+			});
+			const other = await evaluateWithAI(
+				prompt,
+				"options",
+				config,
+				MOCK_MODEL_ID,
+			);
+			expect(other.result).toMatchObject({
+				selections: ["Other", "Python"],
+				otherValue: "Elixir",
+			});
+		});
+
+		it("should require an answer when Other is selected", async () => {
+			vi.mocked(createMockEvaluation).mockReturnValue({
+				selections: ["Other"],
+				otherValue: " ",
+				rationales: [],
+				citations: [],
+			});
+
+			await expect(
+				evaluateWithAI(prompt, "options", config, MOCK_MODEL_ID),
+			).rejects.toThrow(
+				'otherValue: Give an answer in otherValue when selecting "Other"',
+			);
+		});
+
+		it("should key rationales by the canonical label, once per selection", async () => {
+			vi.mocked(createMockEvaluation).mockReturnValue({
+				selections: ["typescript", "OTHER"],
+				otherValue: "Elixir",
+				rationales: [
+					{ option: "TYPESCRIPT", rationale: "Typed throughout" },
+					{ option: " typescript ", rationale: "Said again" },
+					{ option: "python", rationale: "Not selected" },
+					{ option: "other", rationale: "Uses Elixir for the backend" },
+				],
+				citations: [],
+			});
+
+			const { result } = await evaluateWithAI(
+				prompt,
+				"options",
+				config,
+				MOCK_MODEL_ID,
+			);
+
+			expect(result).toMatchObject({
+				selections: ["TypeScript", "Other"],
+				rationales: [
+					{ option: "TypeScript", rationale: "Typed throughout" },
+					{ option: "Other", rationale: "Uses Elixir for the backend" },
+				],
+			});
+		});
+	});
+});
@@ -0,0 +1,217 @@
+import { createVerify, generateKeyPairSync } from "node:crypto";
+import { convexTest } from "convex-test";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { api } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+import { modules } from "../../convex/test.setup";
+import {
+	createAppJwt,
+	createInstallationToken,
+	type GitHubAppCredentials,
+	verifyInstallationOwnership,
+	verifyRepositoryAccess,
+} from "../../lib/github-app";
+import { createGitHubHeaders } from "../../trigger/repository-source";
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+	modulusLength: 2048,
+	privateKeyEncoding: { type: "pkcs8", format: "pem" },
+	publicKeyEncoding: { type: "spki", format: "pem" },
+});
+
+const credentials: GitHubAppCredentials = {
+	appId: "12345",
+	privateKey,
+	clientId: "client-id",
+	clientSecret: "client-secret",
+};
+
+// Minimal stand-in for the GitHub endpoints the app uses
+function mockGitHubApi(options: { installationRepos: string[] }) {
+	const fetchMock = vi.fn(async (input: string, init?: RequestInit) => {
+		const url = new URL(input);
+
+		if (url.pathname === "/login/oauth/access_token") {
+			return Response.json({ access_token: "user-token" });
+		}
+		if (url.pathname === "/user/installations") {
+			return Response.json({
+				installations: [{ id: 42, account: { login: "acme" } }],
+			});
+		}
+		if (url.pathname === "/app/installations/42/access_tokens") {
+			const body = JSON.parse(String(init?.body)) as {
+				repositories?: string[];
+			};
+			const allowed = (body.repositories ?? []).every((repo) =>
+				options.installationRepos.includes(repo),
+			);
+			return allowed
+				? Response.json(
+						{ token: "installation-token", expires_at: "2030-01-01T00:00:00Z" },
+						{ status: 201 },
+					)
+				: new Response("", { status: 422 });
+		}
+		if (url.pathname === "/repos/acme/secret") {
+			const authorized =
+				new Headers(init?.headers).get("Authorization") ===
+				"Bearer installation-token";
+			return authorized
+				? Response.json({ private: true, default_branch: "main" })
+				: new Response("", { status: 404 });
+		}
+		return new Response("", { status: 404 });
+	});
+	vi.stubGlobal("fetch", fetchMock);
+	return fetchMock;
+}
+
+describe("Integration: GitHub App access", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.unstubAllEnvs();
+	});
+
+	it("should sign app JWTs that verify with the app's public key", () => {
+		const jwt = createAppJwt(credentials, 1_700_000_000_000);
+		const [header, payload, signature] = jwt.split(".");
+
+		const verifier = createVerify("RSA-SHA256");
+		verifier.update(`${header}.${payload}`);
+		expect(verifier.verify(publicKey, signature, "base64url")).toBe(true);
+
+		const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+		expect(claims).toEqual({
+			iat: 1_700_000_000 - 60,
+			exp: 1_700_000_000 + 9 * 60,
+			iss: "12345",
+		});
+	});
+
+	it("should mint a read-only token scoped to one repository", async () => {
+		const fetchMock = mockGitHubApi({ installationRepos: ["secret"] });
+
+		const { token } = await createInstallationToken(credentials, 42, "secret");
+		expect(token).toBe("installation-token");
+
+		const [, init] = fetchMock.mock.calls[0];
+		expect(new Headers(init?.headers).get("Authorization")).toMatch(
+			/^Bearer [\w-]+\.[\w-]+\.[\w-]+$/,
+		);
+		expect(JSON.parse(String(init?.body))).toEqual({
+			repositories: ["secret"],
+			permissions: {
+				contents: "read",
+				metadata: "read",
+				pull_requests: "read",
+			},
+		});
+
+		await expect(
+			createInstallationToken(credentials, 42, "other"),
+		).rejects.toThrow(
+			"The GitHub App installation cannot access this repository",
+		);
+	});
+
+	it("should only see private repositories with an installation token", async () => {
+		mockGitHubApi({ installationRepos: ["secret"] });
+
+		await expect(verifyRepositoryAccess("acme", "secret")).rejects.toThrow(
+			"Link the GitHub App to connect private repositories",
+		);
+		expect(
+			await verifyRepositoryAccess("acme", "secret", "installation-token"),
+		).toEqual({ isPrivate: true, defaultBranch: "main" });
+	});
+
+	it("should confirm installations through the authorizing user", async () => {
+		mockGitHubApi({ installationRepos: [] });
+
+		expect(await verifyInstallationOwnership(credentials, 42, "code")).toEqual({
+			login: "acme",
+		});
+		await expect(
+			verifyInstallationOwnership(credentials, 7, "code"),
+		).rejects.toThrow("GitHub App installation not found for this GitHub user");
+	});
+
+	it("should prefer the installation token over the global token", () => {
+		vi.stubEnv("GITHUB_TOKEN", "global-token");
+		try {
+			expect(createGitHubHeaders().Authorization).toBe("Bearer global-token");
+			expect(createGitHubHeaders("installation-token").Authorization).toBe(
+				"Bearer installation-token",
+			);
+		} finally {
+			vi.unstubAllEnvs();
+		}
+	});
+
+	it("should only connect private repositories through the user's installation", async () => {
+		vi.stubEnv("TASK_SECRET", "task-secret");
+		const t = convexTest(schema, modules);
+		await t.mutation(api.users.syncUser, {
+			clerkId: "user_1",
+			email: "user@example.com",
+			name: "User",
+		});
+		const asUser = t.withIdentity({ subject: "user_1" });
+		const repository = {
+			taskSecret: "task-secret",
+			owner: "acme",
+			name: "secret",
+			fullName: "acme/secret",
+			defaultBranch: "main",
+			isPrivate: true,
+		};
+
+		await expect(
+			asUser.mutation(api.repositories.connectRepository, repository),
+		).rejects.toThrow(
+			"Private repositories require a linked GitHub App installation",
+		);
+		await expect(
+			asUser.mutation(api.repositories.connectRepository, {
+				...repository,
+				installationId: 42,
+			}),
+		).rejects.toThrow("GitHub App installation is not linked to your account");
+
+		// Only the setup callback, after checking ownership, can link one
+		await expect(
+			asUser.mutation(api.users.linkGitHubInstallation, {
+				taskSecret: "wrong",
+				installationId: 42,
+				accountLogin: "acme",
+			}),
+		).rejects.toThrow("Invalid task secret");
+		await asUser.mutation(api.users.linkGitHubInstallation, {
+			taskSecret: "task-secret",
+			installationId: 42,
+			accountLogin: "acme",
+		});
+
+		// Access details come from the server's access check, not the client
+		await expect(
+			asUser.mutation(api.repositories.connectRepository, {
+				...repository,
+				taskSecret: undefined,
+				installationId: 42,
+			}),
+		).rejects.toThrow("Invalid task secret");
+
+		const repositoryId = await asUser.mutation(
+			api.repositories.connectRepository,
+			{ ...repository, installationId: 42 },
+		);
+		const stored = await t.run((ctx) => ctx.db.get(repositoryId));
+		expect(stored).toMatchObject({ isPrivate: true, installationId: 42 });
+
+		await asUser.mutation(api.users.unlinkGitHubInstallation, {});
+		const user = await asUser.query(api.users.getCurrentUser, {});
+		expect(user?.githubInstallationId).toBeUndefined();
+		expect(user?.githubAccountLogin).toBeUndefined();
+	});
+});
@@ -0,0 +1,168 @@
+import { convexTest } from "convex-test";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import * as z from "zod";
+import { api } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+import { modules } from "../../convex/test.setup";
+import {
+	DEFAULT_MODEL_ID,
+	getModel,
+	getSelectableModels,
+	resolveModelId,
+} from "../../lib/models";
+import { createMockEvaluation } from "../../trigger/mock-model";
+
+const prompt = `Evaluate the repository.
+
+--- src/index.ts ---
+export const greeting = "hello";
+`;
+
+async function setup() {
+	const t = convexTest(schema, modules);
+	await t.mutation(api.users.syncUser, {
+		clerkId: "user_1",
+		email: "user@example.com",
+		name: "User",
+	});
+	const asUser = t.withIdentity({ subject: "user_1" });
+	const rubricId = await asUser.mutation(api.rubrics.createRubric, {
+		name: "Rubric",
+		description: "Rubric for testing",
+	});
+	return { t, asUser, rubricId };
+}
+
+describe("Integration: Models", () => {
+	afterEach(() => {
+		vi.unstubAllEnvs();
+	});
+
+	it("should prefer the item model, then the rubric model, then the default", () => {
+		expect(
+			resolveModelId({
+				itemModelId: "openai/gpt-5-mini",
+				rubricModelId: "google/gemini-2.5-pro",
+			}),
+		).toBe("openai/gpt-5-mini");
+		expect(resolveModelId({ rubricModelId: "google/gemini-2.5-pro" })).toBe(
+			"google/gemini-2.5-pro",
+		);
+		expect(resolveModelId({ defaultModelId: "mock/deterministic" })).toBe(
+			"mock/deterministic",
+		);
+		expect(resolveModelId({})).toBe(DEFAULT_MODEL_ID);
+		expect(() => getModel("acme/unknown")).toThrow("Unknown model");
+	});
+
+	it("should answer deterministically with schema-valid results", () => {
+		const yesNo = createMockEvaluation(prompt, "yes_no");
+		expect(createMockEvaluation(prompt, "yes_no")).toEqual(yesNo);
+		z.object({ value: z.boolean(), justification: z.string() }).parse(yesNo);
+
+		const range = z.object({ value: z.number() }).parse(
+			createMockEvaluation(prompt, "range", {
+				minValue: 0,
+				maxValue: 3,
+				rangeStep: 0.5,
+			}),
+		);
+		expect(range.value).toBeGreaterThanOrEqual(0);
+		expect(range.value).toBeLessThanOrEqual(3);
+		expect(range.value % 0.5).toBe(0);
+
+		expect(createMockEvaluation(prompt, "code_examples")).toMatchObject({
+			examples: [
+				{
+					filePath: "src/index.ts",
+					lineStart: 1,
+					code: 'export const greeting = "hello";',
+				},
+			],
+		});
+
+		const options = ["Small", "Large"];
+		const { selections } = z
+			.object({ selections: z.array(z.string()) })
+			.parse(createMockEvaluation(prompt, "options", { options }));
+		expect(options).toContain(selections[0]);
+	});
+
+	it("should store rubric and item models, rejecting unknown ones", async () => {
+		const { t, asUser, rubricId } = await setup();
+
+		await asUser.mutation(api.rubrics.updateRubric, {
+			rubricId,
+			modelId: "mock/deterministic",
+		});
+		expect((await t.run((ctx) => ctx.db.get(rubricId)))?.modelId).toBe(
+			"mock/deterministic",
+		);
+		await asUser.mutation(api.rubrics.updateRubric, {
+			rubricId,
+			modelId: null,
+		});
+		expect(
+			(await t.run((ctx) => ctx.db.get(rubricId)))?.modelId,
+		).toBeUndefined();
+
+		await expect(
+			asUser.mutation(api.rubrics.updateRubric, {
+				rubricId,
+				modelId: "acme/unknown",
+			}),
+		).rejects.toThrow("Unknown model");
+		await expect(
+			asUser.mutation(api.rubrics.addRubricItem, {
+				rubricId,
+				name: "Tests",
+				description: "Has tests",
+				evaluationType: "yes_no",
+				config: { modelId: "acme/unknown" },
+			}),
+		).rejects.toThrow("Unknown model");
+		await expect(
+			asUser.mutation(api.rubrics.addRubricItem, {
+				rubricId,
+				name: "Tests",
+				description: "Has tests",
+				evaluationType: "yes_no",
+				config: { samples: 6 },
+			}),
+		).rejects.toThrow("Samples must be a whole number from 1 to 5");
+	});
+
+	it("should only offer the mock model in development and tests", async () => {
+		const ids = (environment: string) =>
+			getSelectableModels(environment).map((model) => model.id);
+		expect(ids("test")).toContain("mock/deterministic");
+		expect(ids("development")).toContain("mock/deterministic");
+		expect(ids("production")).not.toContain("mock/deterministic");
+		expect(ids("production")).toContain(DEFAULT_MODEL_ID);
+
+		const { asUser, rubricId } = await setup();
+		vi.stubEnv("NODE_ENV", "production");
+
+		await expect(
+			asUser.mutation(api.rubrics.updateRubric, {
+				rubricId,
+				modelId: "mock/deterministic",
+			}),
+		).rejects.toThrow(
+			"Model mock/deterministic is only available in development",
+		);
+		await expect(
+			asUser.mutation(api.rubrics.addRubricItem, {
+				rubricId,
+				name: "Tests",
+				description: "Has tests",
+				evaluationType: "yes_no",
+				config: { modelId: "mock/deterministic" },
+			}),
+		).rejects.toThrow("only available in development");
+		await asUser.mutation(api.rubrics.updateRubric, {
+			rubricId,
+			modelId: DEFAULT_MODEL_ID,
+		});
+	});
+});
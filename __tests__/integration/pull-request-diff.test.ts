@@ -0,0 +1,198 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { verifyCitations } from "../../trigger/citations";
+import {
+	constructPullRequestDiffUrl,
+	fetchPullRequestDiff,
+	findDiffHunk,
+	formatDiffForPrompt,
+	type PullRequestDiff,
+	parseDiffHunks,
+	reconstructPatchedLines,
+	withPatchedFiles,
+} from "../../trigger/pull-request-diff";
+
+const patch = [
+	"@@ -1,3 +1,4 @@",
+	" import { add } from './math';",
+	"+import { log } from './log';",
+	" ",
+	" export const total = add(1, 2);",
+	"@@ -20,2 +21,5 @@ export function run() {",
+	" \trun();",
+	"+\tlog('a');",
+	"+\tlog('b');",
+	"+\tlog('c');",
+	" }",
+].join("\n");
+
+const diff: PullRequestDiff = {
+	owner: "owner",
+	name: "repo",
+	number: 7,
+	truncated: false,
+	files: [
+		{
+			path: "src/index.ts",
+			status: "modified",
+			additions: 4,
+			deletions: 0,
+			patch,
+		},
+		{
+			path: "assets/logo.png",
+			status: "added",
+			additions: 0,
+			deletions: 0,
+		},
+	],
+};
+
+// A page of changed files as the GitHub API returns them
+function page(start: number, count: number) {
+	return Array.from({ length: count }, (_, index) => ({
+		filename: `src/file-${start + index}.ts`,
+		status: "modified",
+		additions: 1,
+		deletions: 1,
+		changes: 2,
+		patch: "@@ -1 +1 @@\n-a\n+b",
+	}));
+}
+
+function nextPageLink(pageNumber: number) {
+	return `<https://api.github.com/repositories/1/pulls/7/files?per_page=100&page=${pageNumber}>; rel="next"`;
+}
+
+describe("Integration: Pull request diffs", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("should parse new-file line ranges from hunk headers", () => {
+		expect(parseDiffHunks(patch)).toEqual([
+			{ lineStart: 1, lineEnd: 4 },
+			{ lineStart: 21, lineEnd: 25 },
+		]);
+		expect(parseDiffHunks("@@ -5,2 +4,0 @@\n-gone\n-too")).toEqual([]);
+		expect(parseDiffHunks("@@ -1 +1 @@\n-a\n+b")).toEqual([
+			{ lineStart: 1, lineEnd: 1 },
+		]);
+	});
+
+	it("should only match examples that overlap a changed hunk", () => {
+		expect(findDiffHunk(diff, "src/index.ts", 22, 23)).toEqual({
+			lineStart: 21,
+			lineEnd: 25,
+		});
+		expect(findDiffHunk(diff, "src/index.ts", 10, 15)).toBeNull();
+		expect(findDiffHunk(diff, "src/other.ts", 1, 2)).toBeNull();
+		expect(findDiffHunk(diff, "assets/logo.png", 1, 1)).toBeNull();
+	});
+
+	it("should verify citations of changed files outside the selection against their patches", () => {
+		const lines = reconstructPatchedLines(patch);
+		expect(lines[1]).toBe("import { log } from './log';");
+		expect(lines[22]).toBe("\tlog('b');");
+		expect(lines).toHaveLength(25);
+
+		const selected = {
+			files: [{ path: "README.md", content: "# Repo\n", language: "markdown" }],
+			structure: "",
+		};
+		const content = withPatchedFiles(selected, diff);
+		expect(content.files.map((file) => file.path)).toEqual([
+			"README.md",
+			"src/index.ts",
+		]);
+		// Selected files already hold the whole file
+		expect(withPatchedFiles(content, diff)).toBe(content);
+
+		const [added, hidden] = verifyCitations(
+			[
+				{
+					filePath: "src/index.ts",
+					lineStart: 20,
+					lineEnd: 21,
+					quote: "log('b');\nlog('c');",
+				},
+				{
+					filePath: "src/index.ts",
+					lineStart: 10,
+					lineEnd: 10,
+					quote: "export function run() {",
+				},
+			],
+			content,
+		);
+		expect(added).toMatchObject({ lineStart: 23, lineEnd: 24, verified: true });
+		// Lines the patch doesn't show can't be checked
+		expect(hidden.verified).toBe(false);
+	});
+
+	it("should link to the right-hand lines of the files changed view", () => {
+		expect(constructPullRequestDiffUrl(diff, "src/index.ts", 22, 24)).toBe(
+			"https://github.com/owner/repo/pull/7/files#diff-a2a171449d862fe29692ce031981047d7ab755ae7f84c707aef80701b3ea0c80R22-R24",
+		);
+	});
+
+	it("should keep the diff within its byte budget", () => {
+		const formatted = formatDiffForPrompt(diff, 200);
+		expect(formatted.bytes).toBeLessThanOrEqual(200);
+		expect(formatted.omittedFiles).toContain("src/index.ts");
+		expect(formatted.text).toContain("assets/logo.png (added, +0 -0)");
+		expect(formatted.text).toContain("(diff not available)");
+	});
+
+	it("should page through the changed files of a pull request", async () => {
+		const fetchMock = vi
+			.fn()
+			.mockResolvedValueOnce(
+				new Response(JSON.stringify(page(0, 100)), {
+					headers: { link: nextPageLink(2) },
+				}),
+			)
+			.mockResolvedValueOnce(new Response(JSON.stringify(page(100, 20))));
+		vi.stubGlobal("fetch", fetchMock);
+
+		const fetched = await fetchPullRequestDiff("owner", "repo", 7);
+
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		expect(String(fetchMock.mock.calls[1][0])).toContain(
+			"/repos/owner/repo/pulls/7/files?per_page=100&page=2",
+		);
+		expect(fetched.files).toHaveLength(120);
+		expect(fetched.truncated).toBe(false);
+	});
+
+	it("should only report truncation when more files follow the limit", async () => {
+		const pages = (lastLink?: string) =>
+			vi.fn().mockImplementation(async (url: string) => {
+				const number = Number(new URL(url).searchParams.get("page"));
+				const link = number < 3 ? nextPageLink(number + 1) : lastLink;
+				return new Response(JSON.stringify(page((number - 1) * 100, 100)), {
+					headers: link ? { link } : {},
+				});
+			});
+
+		vi.stubGlobal("fetch", pages());
+		const exact = await fetchPullRequestDiff("owner", "repo", 7);
+		expect(exact.files).toHaveLength(300);
+		expect(exact.truncated).toBe(false);
+
+		vi.stubGlobal("fetch", pages(nextPageLink(4)));
+		const more = await fetchPullRequestDiff("owner", "repo", 7);
+		expect(more.files).toHaveLength(300);
+		expect(more.truncated).toBe(true);
+	});
+
+	it("should report a missing pull request", async () => {
+		vi.stubGlobal(
+			"fetch",
+			vi.fn().mockResolvedValue(new Response("", { status: 404 })),
+		);
+
+		await expect(fetchPullRequestDiff("owner", "repo", 7)).rejects.toThrow(
+			"Pull request not found: owner/repo#7",
+		);
+	});
+});
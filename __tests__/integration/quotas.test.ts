@@ -0,0 +1,106 @@
+import { convexTest } from "convex-test";
+import { describe, expect, it } from "vitest";
+import { api } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+import { modules } from "../../convex/test.setup";
+import { getQuotaPeriod } from "../../lib/quotas";
+
+async function setup() {
+	const t = convexTest(schema, modules);
+	const userId = await t.mutation(api.users.syncUser, {
+		clerkId: "user_1",
+		email: "user@example.com",
+		name: "User",
+	});
+	const adminId = await t.mutation(api.users.syncUser, {
+		clerkId: "admin_1",
+		email: "admin@example.com",
+		name: "Admin",
+	});
+	await t.run((ctx) => ctx.db.patch(adminId, { isAdmin: true }));
+
+	const asUser = t.withIdentity({ subject: "user_1" });
+	const rubricId = await asUser.mutation(api.rubrics.createRubric, {
+		name: "Rubric",
+		description: "Rubric for testing",
+	});
+	for (const name of ["Tests", "Docs", "Types"]) {
+		await asUser.mutation(api.rubrics.addRubricItem, {
+			rubricId,
+			name,
+			description: `Has ${name.toLowerCase()}`,
+			evaluationType: "yes_no",
+		});
+	}
+
+	const createAnalysis = (repositoryName: string) =>
+		asUser.mutation(api.analyses.createOneOffAnalysis, {
+			repositoryUrl: `https://github.com/owner/${repositoryName}`,
+			repositoryOwner: "owner",
+			repositoryName,
+			branch: "main",
+			rubricId,
+		});
+
+	return {
+		t,
+		userId,
+		asUser,
+		asAdmin: t.withIdentity({ subject: "admin_1" }),
+		createAnalysis,
+	};
+}
+
+describe("Integration: Quotas", () => {
+	it("should use calendar months in UTC", () => {
+		expect(getQuotaPeriod(Date.UTC(2026, 11, 31, 23, 59))).toEqual({
+			start: Date.UTC(2026, 11, 1),
+			end: Date.UTC(2027, 0, 1),
+		});
+	});
+
+	it("should refuse analyses beyond the monthly item quota until an admin raises it", async () => {
+		const { t, userId, asUser, asAdmin, createAnalysis } = await setup();
+		await t.run((ctx) => ctx.db.patch(userId, { monthlyItemQuota: 7 }));
+
+		await createAnalysis("first");
+		await createAnalysis("second");
+		await expect(createAnalysis("third")).rejects.toThrow("only 1 of 7 remain");
+
+		await expect(
+			asUser.mutation(api.users.setUserQuota, {
+				email: "user@example.com",
+				monthlyItemQuota: 100,
+			}),
+		).rejects.toThrow("Admin access required");
+
+		await asAdmin.mutation(api.users.setUserQuota, {
+			email: "user@example.com",
+			monthlyItemQuota: 9,
+		});
+		await createAnalysis("third");
+
+		const status = await asUser.query(api.analyses.getQuotaStatus, {});
+		expect(status?.items).toEqual({ used: 9, limit: 9 });
+	});
+
+	it("should refuse analyses once the monthly token quota is spent", async () => {
+		const { t, userId, asUser, createAnalysis } = await setup();
+		await t.run((ctx) => ctx.db.patch(userId, { monthlyTokenQuota: 5000 }));
+
+		const analysisId = await createAnalysis("first");
+		await t.run((ctx) =>
+			ctx.db.patch(analysisId, {
+				status: "completed",
+				completedItems: 3,
+				usage: { inputTokens: 4800, outputTokens: 200, cost: 0.01 },
+			}),
+		);
+
+		await expect(createAnalysis("second")).rejects.toThrow(
+			"Monthly token quota",
+		);
+		const status = await asUser.query(api.analyses.getQuotaStatus, {});
+		expect(status?.tokens).toEqual({ used: 5000, limit: 5000 });
+	});
+});
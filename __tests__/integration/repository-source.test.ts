@@ -0,0 +1,478 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { gzipSync } from "node:zlib";
+import {
+	afterAll,
+	afterEach,
+	beforeAll,
+	describe,
+	expect,
+	it,
+	vi,
+} from "vitest";
+import {
+	fetchRepositoryContent,
+	resolveFileRules,
+} from "../../trigger/repository-content";
+import {
+	createArchiveSource,
+	createGitHubSource,
+	createLocalDirectorySource,
+	resolveTreeRef,
+} from "../../trigger/repository-source";
+
+const fixtureFiles: Record<string, string> = {
+	"README.md": "# Fixture\n\nA tiny repository used in tests.\n",
+	"package.json": '{ "name": "fixture" }\n',
+	"src/index.ts": 'export const greeting = "hello";\n',
+	"src/utils/math.py": "def add(a, b):\n    return a + b\n",
+	"node_modules/left-pad/index.js": "module.exports = () => {};\n",
+	"assets/logo.png": "not really a png",
+};
+
+// Minimal ustar writer - enough for the extractor under test
+function buildTar(files: Record<string, string>): Buffer {
+	const blocks: Buffer[] = [];
+	for (const [path, content] of Object.entries(files)) {
+		const body = Buffer.from(content, "utf-8");
+		const header = Buffer.alloc(512);
+		header.write(path, 0, "utf-8");
+		header.write(`${body.length.toString(8).padStart(11, "0")}\0`, 124);
+		header.write("0", 156);
+		header.write("ustar\0", 257);
+		blocks.push(header, body, Buffer.alloc((512 - (body.length % 512)) % 512));
+	}
+	blocks.push(Buffer.alloc(1024));
+	return Buffer.concat(blocks);
+}
+
+// Minimal zip writer using the "stored" method (no compression, no CRC)
+function buildZip(files: Record<string, string>): Buffer {
+	const locals: Buffer[] = [];
+	const centrals: Buffer[] = [];
+	let offset = 0;
+
+	for (const [path, content] of Object.entries(files)) {
+		const name = Buffer.from(path, "utf-8");
+		const body = Buffer.from(content, "utf-8");
+
+		const local = Buffer.alloc(30);
+		local.writeUInt32LE(0x04034b50, 0);
+		local.writeUInt32LE(body.length, 18);
+		local.writeUInt32LE(body.length, 22);
+		local.writeUInt16LE(name.length, 26);
+		locals.push(local, name, body);
+
+		const central = Buffer.alloc(46);
+		central.writeUInt32LE(0x02014b50, 0);
+		central.writeUInt32LE(body.length, 20);
+		central.writeUInt32LE(body.length, 24);
+		central.writeUInt16LE(name.length, 28);
+		central.writeUInt32LE(offset, 42);
+		centrals.push(central, name);
+
+		offset += local.length + name.length + body.length;
+	}
+
+	const centralDirectory = Buffer.concat(centrals);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0);
+	end.writeUInt16LE(Object.keys(files).length, 8);
+	end.writeUInt16LE(Object.keys(files).length, 10);
+	end.writeUInt32LE(centralDirectory.length, 12);
+	end.writeUInt32LE(offset, 16);
+
+	return Buffer.concat([...locals, centralDirectory, end]);
+}
+
+function withRoot(
+	files: Record<string, string>,
+	root: string,
+): Record<string, string> {
+	return Object.fromEntries(
+		Object.entries(files).map(([path, content]) => [
+			`${root}/${path}`,
+			content,
+		]),
+	);
+}
+
+describe("Integration: Repository sources", () => {
+	let fixtureDir: string;
+
+	beforeAll(async () => {
+		fixtureDir = await mkdtemp(join(tmpdir(), "repository-source-"));
+		for (const [path, content] of Object.entries(fixtureFiles)) {
+			const fullPath = join(fixtureDir, path);
+			await mkdir(dirname(fullPath), { recursive: true });
+			await writeFile(fullPath, content);
+		}
+	});
+
+	afterAll(async () => {
+		await rm(fixtureDir, { recursive: true, force: true });
+	});
+
+	it("should load relevant files from a local directory", async () => {
+		const { content } = await fetchRepositoryContent(
+			createLocalDirectorySource(fixtureDir),
+		);
+
+		const paths = content.files.map((file) => file.path).sort();
+		expect(paths).toEqual([
+			"README.md",
+			"package.json",
+			"src/index.ts",
+			"src/utils/math.py",
+		]);
+
+		const mathFile = content.files.find(
+			(file) => file.path === "src/utils/math.py",
+		);
+		expect(mathFile?.language).toBe("python");
+		expect(mathFile?.content).toBe(fixtureFiles["src/utils/math.py"]);
+
+		expect(content.structure).toContain("src/");
+		expect(content.structure).toContain("math.py");
+		expect(content.structure).not.toContain("node_modules");
+	});
+
+	it("should apply include and exclude rules and budget overrides", async () => {
+		const { content, selection } = await fetchRepositoryContent(
+			createLocalDirectorySource(fixtureDir),
+			resolveFileRules({
+				include: ["*.png"],
+				exclude: ["src/utils/"],
+				// Leaves out the 44 byte README
+				maxFileBytes: 40,
+			}),
+		);
+
+		expect(content.files.map((file) => file.path).sort()).toEqual([
+			"assets/logo.png",
+			"package.json",
+			"src/index.ts",
+		]);
+		expect(selection.totalCandidates).toBe(3);
+		expect(content.structure).not.toContain("math.py");
+	});
+
+	it("should drop generated, vendored and minified files", async () => {
+		const minified = `var a=${"1+".repeat(1500)}1;`;
+		const data = buildZip(
+			withRoot(
+				{
+					...fixtureFiles,
+					".gitattributes":
+						"src/proto/** linguist-generated\nsrc/proto/keep.ts -linguist-generated\nlib/** linguist-vendored=true\n",
+					"pnpm-lock.yaml": "lockfileVersion: '9.0'\n",
+					"src/proto/api.ts": "export type Api = {};\n",
+					"src/proto/keep.ts": "export const keep = true;\n",
+					"lib/jquery.js": "window.$ = {};\n",
+					"src/bundle.js": minified,
+					"src/schema.ts": "// @generated by schema-gen\nexport {};\n",
+					"src/generated.ts": "// @generated\nexport {};\n",
+				},
+				"fixture-main",
+			),
+		);
+
+		const { content, selection } = await fetchRepositoryContent(
+			createArchiveSource({ data, fileName: "fixture.zip" }),
+			// Include globs opt files back in
+			resolveFileRules({ include: ["src/generated.ts"] }),
+		);
+
+		expect(content.files.map((file) => file.path).sort()).toEqual([
+			"README.md",
+			"package.json",
+			"src/generated.ts",
+			"src/index.ts",
+			"src/proto/keep.ts",
+			"src/utils/math.py",
+		]);
+		expect(
+			[...selection.filtered].sort((a, b) => a.path.localeCompare(b.path)),
+		).toEqual([
+			{ path: "lib/jquery.js", reason: "linguist-vendored" },
+			{ path: "pnpm-lock.yaml", reason: "lockfile" },
+			{ path: "src/bundle.js", reason: "minified" },
+			{ path: "src/proto/api.ts", reason: "linguist-generated" },
+			{ path: "src/schema.ts", reason: "generated header" },
+		]);
+	});
+
+	it("should render notebook cells and skip binary files", async () => {
+		const notebook = {
+			nbformat: 4,
+			metadata: { kernelspec: { language: "python" } },
+			cells: [
+				{ cell_type: "markdown", source: ["# Analysis\n", "Load the data."] },
+				{
+					cell_type: "code",
+					source: ["import pandas as pd\n", "df = pd.read_csv('data.csv')"],
+					outputs: [{ data: { "image/png": "iVBOR".repeat(40_000) } }],
+				},
+				{ cell_type: "code", source: [] },
+				{ cell_type: "code", source: "df.describe()" },
+			],
+		};
+		const data = buildZip(
+			withRoot(
+				{
+					...fixtureFiles,
+					"analysis.ipynb": JSON.stringify(notebook),
+					"broken.ipynb": "{ not json",
+					"src/weights.ts": `\u0000\u0001\u0002binary`,
+				},
+				"fixture-main",
+			),
+		);
+
+		const { content, selection } = await fetchRepositoryContent(
+			createArchiveSource({ data, fileName: "fixture.zip" }),
+		);
+
+		const rendered = content.files.find(
+			(file) => file.path === "analysis.ipynb",
+		);
+		expect(rendered?.language).toBe("python");
+		expect(rendered?.content).toBe(
+			[
+				"# %% [markdown] Cell 1",
+				"# Analysis",
+				"Load the data.",
+				"",
+				"# %% [code] Cell 2",
+				"import pandas as pd",
+				"df = pd.read_csv('data.csv')",
+				"",
+				"# %% [code] Cell 4",
+				"df.describe()",
+				"",
+			].join("\n"),
+		);
+		expect(content.files.map((file) => file.path)).not.toContain(
+			"src/weights.ts",
+		);
+		expect(selection.filtered).toEqual(
+			expect.arrayContaining([
+				{ path: "broken.ipynb", reason: "invalid notebook" },
+				{ path: "src/weights.ts", reason: "binary" },
+			]),
+		);
+	});
+
+	it("should not read files outside of the local directory", async () => {
+		const source = createLocalDirectorySource(join(fixtureDir, "src"));
+		await expect(source.readFile("../README.md")).resolves.toBeNull();
+	});
+
+	it("should load the same files from a .tar.gz archive", async () => {
+		const data = gzipSync(buildTar(withRoot(fixtureFiles, "fixture-main")));
+		const { content } = await fetchRepositoryContent(
+			createArchiveSource({ data, fileName: "fixture.tar.gz" }),
+		);
+
+		expect(content.files.map((file) => file.path).sort()).toEqual([
+			"README.md",
+			"package.json",
+			"src/index.ts",
+			"src/utils/math.py",
+		]);
+	});
+
+	it("should load the same files from a .zip archive", async () => {
+		const data = buildZip(withRoot(fixtureFiles, "fixture-main"));
+		const { content } = await fetchRepositoryContent(
+			createArchiveSource({ data, fileName: "fixture.zip" }),
+		);
+
+		const readme = content.files.find((file) => file.path === "README.md");
+		expect(readme?.content).toBe(fixtureFiles["README.md"]);
+		expect(content.files).toHaveLength(4);
+	});
+
+	it("should reject unsupported archive formats", async () => {
+		const source = createArchiveSource({
+			data: Buffer.from("plain text"),
+			fileName: "fixture.rar",
+		});
+		await expect(source.listFiles()).rejects.toThrow(
+			"Unsupported archive format",
+		);
+	});
+});
+
+describe("Integration: GitHub repository source", () => {
+	const repoInfo = {
+		owner: "owner",
+		name: "repo",
+		branch: "main",
+		isOneOff: true,
+	};
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("should fetch all content with a single archive download", async () => {
+		const tarball = gzipSync(
+			buildTar(withRoot(fixtureFiles, "owner-repo-abc123")),
+		);
+		const fetchMock = vi.fn(async (url: string) => {
+			if (url.endsWith("/tarball/main")) {
+				return new Response(tarball);
+			}
+			return new Response("unexpected request", { status: 500 });
+		});
+		vi.stubGlobal("fetch", fetchMock);
+
+		const { content } = await fetchRepositoryContent(
+			createGitHubSource(repoInfo),
+		);
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(content.files.map((file) => file.path).sort()).toEqual([
+			"README.md",
+			"package.json",
+			"src/index.ts",
+			"src/utils/math.py",
+		]);
+		expect(content.structure).toContain("logo.png");
+	});
+
+	it("should fall back to the contents API when the archive fails", async () => {
+		const fetchMock = vi.fn(async (url: string) => {
+			if (url.includes("/git/trees/main")) {
+				return Response.json({
+					sha: "abc123",
+					url,
+					truncated: false,
+					tree: [
+						{ path: "src", type: "tree" },
+						{ path: "src/index.ts", type: "blob", size: 33 },
+					],
+				});
+			}
+			if (url.includes("/contents/src/index.ts")) {
+				return Response.json({
+					content: Buffer.from(fixtureFiles["src/index.ts"]).toString("base64"),
+					encoding: "base64",
+					size: 33,
+				});
+			}
+			return new Response("archive unavailable", { status: 502 });
+		});
+		vi.stubGlobal("fetch", fetchMock);
+
+		const { content } = await fetchRepositoryContent(
+			createGitHubSource(repoInfo),
+		);
+
+		expect(content.files).toEqual([
+			{
+				path: "src/index.ts",
+				content: fixtureFiles["src/index.ts"],
+				language: "typescript",
+			},
+		]);
+	});
+
+	it("should walk subtrees when GitHub truncates the tree", async () => {
+		const trees: Record<string, unknown> = {
+			"main?recursive=1": { truncated: true, tree: [] },
+			main: {
+				truncated: false,
+				tree: [
+					{ path: "README.md", type: "blob", sha: "a", size: 10 },
+					{ path: "src", type: "tree", sha: "src-sha" },
+					{ path: "node_modules", type: "tree", sha: "deps-sha" },
+				],
+			},
+			"src-sha?recursive=1": {
+				truncated: false,
+				tree: [
+					{ path: "index.ts", type: "blob", sha: "b", size: 33 },
+					{ path: "utils", type: "tree", sha: "utils-sha" },
+					{ path: "utils/math.py", type: "blob", sha: "c", size: 36 },
+				],
+			},
+		};
+		const fetchMock = vi.fn(async (url: string) => {
+			const tree = trees[url.split("/git/trees/")[1]];
+			return tree
+				? Response.json(tree)
+				: new Response("archive unavailable", { status: 502 });
+		});
+		vi.stubGlobal("fetch", fetchMock);
+
+		const source = createGitHubSource(repoInfo);
+		const files = await source.listFiles();
+
+		expect(files.map((file) => file.path)).toEqual([
+			"README.md",
+			"src/index.ts",
+			"src/utils/math.py",
+		]);
+		expect(source.isTruncated?.()).toBe(false);
+		expect(fetchMock.mock.calls.some(([url]) => url.includes("deps-sha"))).toBe(
+			false,
+		);
+	});
+
+	it("should only read files under the root path", async () => {
+		const tarball = gzipSync(
+			buildTar(withRoot(fixtureFiles, "owner-repo-abc123")),
+		);
+		vi.stubGlobal(
+			"fetch",
+			vi.fn(async () => new Response(tarball)),
+		);
+
+		const { content } = await fetchRepositoryContent(
+			createGitHubSource({ ...repoInfo, rootPath: "src" }),
+		);
+
+		expect(content.files.map((file) => file.path).sort()).toEqual([
+			"src/index.ts",
+			"src/utils/math.py",
+		]);
+	});
+
+	it("should split a tree ref into the existing branch and a directory", async () => {
+		const fetchMock = vi.fn(async (url: string) =>
+			url.endsWith("/commits/feature/login")
+				? new Response("abc123")
+				: new Response("", { status: 422 }),
+		);
+		vi.stubGlobal("fetch", fetchMock);
+
+		expect(
+			await resolveTreeRef({ ...repoInfo, branch: "feature/login/apps/web" }),
+		).toEqual({ branch: "feature/login", rootPath: "apps/web" });
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+
+		await expect(
+			resolveTreeRef({ ...repoInfo, branch: "missing/apps" }),
+		).rejects.toThrow(
+			"Repository or branch not found: owner/repo@missing/apps",
+		);
+	});
+
+	it("should only report a repository public when GitHub says so", async () => {
+		for (const [response, expected] of [
+			[Response.json({ private: false, visibility: "public" }), true],
+			[Response.json({ private: true, visibility: "private" }), false],
+			[Response.json({ private: true, visibility: "internal" }), false],
+			[new Response("", { status: 404 }), false],
+		] as const) {
+			vi.stubGlobal(
+				"fetch",
+				vi.fn(async () => response),
+			);
+			expect(await createGitHubSource(repoInfo).isPublic?.()).toBe(expected);
+		}
+	});
+});
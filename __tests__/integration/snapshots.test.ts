@@ -0,0 +1,187 @@
+import { convexTest } from "convex-test";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { api, internal } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+import { modules } from "../../convex/test.setup";
+import type { RepositorySource } from "../../trigger/repository-source";
+import {
+	buildSnapshotCacheKey,
+	fetchRepositoryContentCached,
+} from "../../trigger/snapshot-cache";
+
+async function storeSnapshot(
+	t: ReturnType<typeof convexTest>,
+	cacheKey: string,
+	owner = "owner",
+	name = "repo",
+) {
+	const storageId = await t.run((ctx) =>
+		ctx.storage.store(new Blob(['{"content":{"files":[],"structure":""}}'])),
+	);
+	await t.mutation(api.snapshots.saveSnapshot, {
+		taskSecret: "task-secret",
+		cacheKey,
+		owner,
+		name,
+		commitSha: "abc123",
+		storageId,
+		sizeBytes: 40,
+	});
+	return storageId;
+}
+
+describe("Integration: Repository snapshots", () => {
+	beforeEach(() => {
+		vi.stubEnv("TASK_SECRET", "task-secret");
+	});
+
+	it("should build case-insensitive cache keys per commit", () => {
+		expect(buildSnapshotCacheKey("Owner", "Repo", "ABC123")).toBe(
+			buildSnapshotCacheKey("owner", "repo", "abc123"),
+		);
+		expect(buildSnapshotCacheKey("owner", "repo", "abc123")).not.toBe(
+			buildSnapshotCacheKey("owner", "repo", "def456"),
+		);
+	});
+
+	it("should return a saved snapshot until it expires", async () => {
+		const t = convexTest(schema, modules);
+		await storeSnapshot(t, "owner/repo@abc123:v1");
+
+		const snapshot = await t.query(api.snapshots.getSnapshot, {
+			taskSecret: "task-secret",
+			cacheKey: "owner/repo@abc123:v1",
+		});
+		expect(snapshot?.commitSha).toBe("abc123");
+		expect(snapshot?.url).toBeTruthy();
+
+		// Force the snapshot past its TTL
+		await t.run(async (ctx) => {
+			const rows = await ctx.db.query("repositorySnapshots").collect();
+			for (const row of rows) {
+				await ctx.db.patch(row._id, { expiresAt: Date.now() - 1 });
+			}
+		});
+
+		expect(
+			await t.query(api.snapshots.getSnapshot, {
+				taskSecret: "task-secret",
+				cacheKey: "owner/repo@abc123:v1",
+			}),
+		).toBeNull();
+
+		const { purged } = await t.mutation(
+			internal.snapshots.purgeExpiredSnapshots,
+			{},
+		);
+		expect(purged).toBe(1);
+	});
+
+	it("should only let the background job read and write snapshots", async () => {
+		const t = convexTest(schema, modules);
+		const storageId = await t.run((ctx) => ctx.storage.store(new Blob(["{}"])));
+
+		await expect(
+			t.mutation(api.snapshots.generateSnapshotUploadUrl, {
+				taskSecret: "guess",
+			}),
+		).rejects.toThrow("Invalid task secret");
+		await expect(
+			t.mutation(api.snapshots.saveSnapshot, {
+				taskSecret: "guess",
+				cacheKey: "owner/repo@abc123:v1",
+				owner: "owner",
+				name: "repo",
+				commitSha: "abc123",
+				storageId,
+				sizeBytes: 2,
+			}),
+		).rejects.toThrow("Invalid task secret");
+		await expect(
+			t.query(api.snapshots.getSnapshot, {
+				taskSecret: "guess",
+				cacheKey: "owner/repo@abc123:v1",
+			}),
+		).rejects.toThrow("Invalid task secret");
+
+		vi.stubEnv("TASK_SECRET", "");
+		await expect(
+			t.mutation(api.snapshots.generateSnapshotUploadUrl, {
+				taskSecret: "",
+			}),
+		).rejects.toThrow("Invalid task secret");
+	});
+
+	it("should replace an existing snapshot with the same key", async () => {
+		const t = convexTest(schema, modules);
+		const first = await storeSnapshot(t, "owner/repo@abc123:v1");
+		await storeSnapshot(t, "owner/repo@abc123:v1");
+
+		const rows = await t.run((ctx) =>
+			ctx.db.query("repositorySnapshots").collect(),
+		);
+		expect(rows).toHaveLength(1);
+		expect(await t.run((ctx) => ctx.storage.getUrl(first))).toBeNull();
+	});
+
+	it("should only let admins purge snapshots", async () => {
+		const t = convexTest(schema, modules);
+		await storeSnapshot(t, "owner/repo@abc123:v1");
+		await storeSnapshot(t, "other/repo@abc123:v1", "other", "repo");
+
+		const userId = await t.mutation(api.users.syncUser, {
+			clerkId: "user",
+			email: "user@example.com",
+			name: "User",
+		});
+
+		await expect(
+			t
+				.withIdentity({ subject: "user" })
+				.mutation(api.snapshots.purgeSnapshots, {}),
+		).rejects.toThrow("Admin access required");
+
+		await t.run((ctx) => ctx.db.patch(userId, { isAdmin: true }));
+
+		const { purged } = await t
+			.withIdentity({ subject: "user" })
+			.mutation(api.snapshots.purgeSnapshots, { owner: "Owner", name: "repo" });
+		expect(purged).toBe(1);
+
+		const remaining = await t.run((ctx) =>
+			ctx.db.query("repositorySnapshots").collect(),
+		);
+		expect(remaining.map((row) => row.owner)).toEqual(["other"]);
+	});
+
+	it("should report the commit of a repository not known to be public without caching it", async () => {
+		// Private, or a source that can't tell
+		for (const isPublic of [async () => false, undefined]) {
+			const source: RepositorySource = {
+				label: "owner/private",
+				listFiles: async () => [{ path: "src/index.ts", size: 20 }],
+				readFile: async () => "export const a = 1;",
+				resolveRevision: async () => "abc123",
+				isPublic,
+			};
+			// Any cache read or write would fail the test
+			const convex = {
+				query: vi.fn().mockRejectedValue(new Error("unexpected query")),
+				mutation: vi.fn().mockRejectedValue(new Error("unexpected mutation")),
+			} as unknown as Parameters<typeof fetchRepositoryContentCached>[0];
+
+			const fetched = await fetchRepositoryContentCached(convex, source, {
+				owner: "owner",
+				name: "private",
+			});
+
+			expect(fetched.commitSha).toBe("abc123");
+			expect(fetched.cacheHit).toBe(false);
+			expect(fetched.content.files.map((file) => file.path)).toEqual([
+				"src/index.ts",
+			]);
+			expect(convex.query).not.toHaveBeenCalled();
+			expect(convex.mutation).not.toHaveBeenCalled();
+		}
+	});
+});
@@ -0,0 +1,81 @@
+import { convexTest } from "convex-test";
+import { describe, expect, it } from "vitest";
+import { api } from "../../convex/_generated/api";
+import schema from "../../convex/schema";
+import { modules } from "../../convex/test.setup";
+import { computeCost, formatCost } from "../../lib/models";
+
+async function setup() {
+	const t = convexTest(schema, modules);
+	await t.mutation(api.users.syncUser, {
+		clerkId: "user_1",
+		email: "user@example.com",
+		name: "User",
+	});
+	const asUser = t.withIdentity({ subject: "user_1" });
+	const rubricId = await asUser.mutation(api.rubrics.createRubric, {
+		name: "Rubric",
+		description: "Rubric for testing",
+	});
+	const itemIds = [
+		await asUser.mutation(api.rubrics.addRubricItem, {
+			rubricId,
+			name: "Tests",
+			description: "Has tests",
+			evaluationType: "yes_no",
+		}),
+		await asUser.mutation(api.rubrics.addRubricItem, {
+			rubricId,
+			name: "Docs",
+			description: "Has docs",
+			evaluationType: "comments",
+		}),
+	];
+	const analysisId = await asUser.mutation(api.analyses.createOneOffAnalysis, {
+		repositoryUrl: "https://github.com/owner/repo",
+		repositoryOwner: "owner",
+		repositoryName: "repo",
+		branch: "main",
+		rubricId,
+	});
+	return { t, analysisId, itemIds };
+}
+
+describe("Integration: Usage", () => {
+	it("should price calls from the model's per-token costs", () => {
+		expect(computeCost("mock/deterministic", 1000, 1000)).toBe(0);
+		expect(
+			computeCost("google/gemini-2.5-flash", 1_000_000, 1_000_000),
+		).toBeCloseTo(2.8);
+		expect(formatCost(2.8)).toBe("$2.80");
+		expect(formatCost(0.00123)).toBe("$0.0012");
+	});
+
+	it("should roll item usage up on the analysis", async () => {
+		const { t, analysisId, itemIds } = await setup();
+
+		for (const [index, rubricItemId] of itemIds.entries()) {
+			await t.mutation(api.analyses.updateItemResult, {
+				analysisId,
+				rubricItemId,
+				status: "completed",
+				result: { value: true, justification: "Yes" },
+				usage: {
+					modelId: "google/gemini-2.5-flash",
+					inputTokens: 1000 * (index + 1),
+					outputTokens: 100,
+					latencyMs: 1200,
+					cost: 0.001,
+				},
+			});
+		}
+
+		const analysis = await t.run((ctx) => ctx.db.get(analysisId));
+		expect(analysis?.usage).toEqual({
+			inputTokens: 3000,
+			outputTokens: 200,
+			cost: 0.002,
+		});
+		expect(analysis?.completedItems).toBe(2);
+	});
+});
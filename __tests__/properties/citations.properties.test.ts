@@ -0,0 +1,144 @@
+import * as fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { locateSnippet, verifyCitations } from "../../trigger/citations";
+import type { RepositoryContent } from "../../trigger/repository-content";
+
+const wordArbitrary = fc.constantFrom(
+	"const",
+	"return",
+	"user",
+	"session",
+	"await",
+	"fetch",
+);
+
+const fileArbitrary = fc.record({
+	path: fc.constantFrom("src/index.ts", "src/auth.ts", "lib/utils.ts"),
+	lines: fc.array(
+		fc
+			.array(wordArbitrary, { minLength: 1, maxLength: 6 })
+			.map((words) => words.join(" ")),
+		{ minLength: 1, maxLength: 60 },
+	),
+});
+
+function toRepositoryContent(file: {
+	path: string;
+	lines: string[];
+}): RepositoryContent {
+	return {
+		structure: file.path,
+		files: [
+			{ path: file.path, content: file.lines.join("\n"), language: "ts" },
+		],
+	};
+}
+
+/**
+ * **Feature: ai-code-review, Property 34: Citation verification**
+ * *For any* citation whose quote appears in the cited file, verification SHALL
+ * mark it verified and point its line range at lines matching the quote; a
+ * citation quoting code that isn't in the file SHALL be flagged as unverified.
+ */
+describe("Property 34: Citation verification", () => {
+	it("should verify quoted lines and correct their line range", async () => {
+		await fc.assert(
+			fc.property(
+				fileArbitrary.chain((file) =>
+					fc.record({
+						file: fc.constant(file),
+						start: fc.nat({ max: file.lines.length - 1 }),
+						length: fc.integer({ min: 1, max: 5 }),
+						drift: fc.integer({ min: -10, max: 10 }),
+					}),
+				),
+				({ file, start, length, drift }) => {
+					const quoted = file.lines.slice(start, start + length);
+					const [citation] = verifyCitations(
+						[
+							{
+								filePath: file.path,
+								lineStart: Math.max(1, start + 1 + drift),
+								lineEnd: Math.max(1, start + quoted.length + drift),
+								quote: quoted.join("\n"),
+							},
+						],
+						toRepositoryContent(file),
+					);
+
+					expect(citation.verified).toBe(true);
+					expect(citation.lineEnd - citation.lineStart + 1).toBe(quoted.length);
+					expect(
+						file.lines.slice(citation.lineStart - 1, citation.lineEnd),
+					).toEqual(quoted);
+				},
+			),
+			{ numRuns: 100 },
+		);
+	});
+
+	it("should flag citations that can't be found in the fetched files", async () => {
+		await fc.assert(
+			fc.property(fileArbitrary, (file) => {
+				const citations = verifyCitations(
+					[
+						{
+							filePath: file.path,
+							lineStart: 1,
+							lineEnd: 1,
+							quote: "throw new Error()",
+						},
+						{
+							filePath: "missing.ts",
+							lineStart: 1,
+							lineEnd: 1,
+							quote: file.lines[0],
+						},
+					],
+					toRepositoryContent(file),
+				);
+
+				expect(citations.map((citation) => citation.verified)).toEqual([
+					false,
+					false,
+				]);
+				expect(citations[0].lineStart).toBe(1);
+			}),
+			{ numRuns: 100 },
+		);
+	});
+
+	it("should grade how closely a code example matches its file", () => {
+		const fileLines = [
+			"export function getUser(id: string) {",
+			"  const user = users.find((u) => u.id === id);",
+			"  return user ?? null;",
+			"}",
+		];
+
+		expect(locateSnippet(fileLines, fileLines.slice(1, 3))).toEqual({
+			index: 1,
+			match: "exact",
+		});
+		expect(
+			locateSnippet(fileLines, [
+				"const user = users.find((u) => u.id === id);",
+			]),
+		).toEqual({ index: 1, match: "whitespace" });
+
+		const nearMiss = ["  const user = users.find((u) => u.id == id);"];
+		expect(locateSnippet(fileLines, nearMiss)).toEqual({
+			index: -1,
+			match: "not_found",
+		});
+		expect(locateSnippet(fileLines, nearMiss, 1, { fuzzy: true })).toEqual({
+			index: 1,
+			match: "fuzzy",
+		});
+		expect(
+			locateSnippet(fileLines, ["await db.delete(session);"], 1, {
+				fuzzy: true,
+			}),
+		).toEqual({ index: -1, match: "not_found" });
+	});
+});
@@ -0,0 +1,172 @@
+import * as fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { retrieveItemContext, tokenize } from "../../trigger/context-retrieval";
+import type { RepositoryContent } from "../../trigger/repository-content";
+
+const wordArbitrary = fc.constantFrom(
+	"user",
+	"session",
+	"token",
+	"render",
+	"fetch",
+	"cache",
+	"test",
+	"expect",
+	"config",
+	"router",
+);
+
+const lineArbitrary = fc
+	.array(wordArbitrary, { minLength: 0, maxLength: 8 })
+	.map((words) => words.join(" "));
+
+const repositoryContentArbitrary: fc.Arbitrary<RepositoryContent> = fc
+	.uniqueArray(
+		fc.record({
+			path: fc
+				.tuple(wordArbitrary, wordArbitrary)
+				.map(([dir, name]) => `${dir}/${name}.ts`),
+			lines: fc.array(lineArbitrary, { minLength: 1, maxLength: 200 }),
+		}),
+		{ maxLength: 12, selector: (file) => file.path },
+	)
+	.map((files) => ({
+		structure: "",
+		files: files.map((file) => ({
+			path: file.path,
+			content: file.lines.join("\n"),
+			language: "typescript",
+		})),
+	}));
+
+function sectionBytes(sections: Array<{ content: string }>): number {
+	return sections.reduce(
+		(total, section) => total + Buffer.byteLength(section.content, "utf-8"),
+		0,
+	);
+}
+
+/**
+ * **Feature: ai-code-review, Property 27: Item context stays within budget and matches the source**
+ * *For any* repository content, query and budget, the retrieved context SHALL fit
+ * the byte budget, and every section SHALL be exactly the stated line range of
+ * the original file.
+ */
+describe("Property 27: Item context stays within budget and matches the source", () => {
+	it("should never exceed the byte budget", async () => {
+		await fc.assert(
+			fc.property(
+				repositoryContentArbitrary,
+				fc.array(wordArbitrary, { maxLength: 4 }),
+				fc.integer({ min: 0, max: 4000 }),
+				(content, queryWords, maxBytes) => {
+					const context = retrieveItemContext(
+						content,
+						queryWords.join(" "),
+						maxBytes,
+					);
+					expect(sectionBytes(context.sections)).toBeLessThanOrEqual(maxBytes);
+				},
+			),
+			{ numRuns: 100 },
+		);
+	});
+
+	it("should only contain exact line ranges of the original files", async () => {
+		await fc.assert(
+			fc.property(
+				repositoryContentArbitrary,
+				fc.array(wordArbitrary, { maxLength: 4 }),
+				fc.integer({ min: 0, max: 4000 }),
+				(content, queryWords, maxBytes) => {
+					const context = retrieveItemContext(
+						content,
+						queryWords.join(" "),
+						maxBytes,
+					);
+
+					for (const section of context.sections) {
+						const file = content.files.find((f) => f.path === section.path);
+						expect(file).toBeDefined();
+						const lines = file!.content
+							.split("\n")
+							.slice(section.lineStart - 1, section.lineEnd);
+						expect(section.content).toBe(lines.join("\n"));
+					}
+				},
+			),
+			{ numRuns: 100 },
+		);
+	});
+
+	it("should include everything when the budget allows it", async () => {
+		await fc.assert(
+			fc.property(repositoryContentArbitrary, (content) => {
+				const context = retrieveItemContext(content, "anything");
+				expect(context.sections.map((section) => section.path).sort()).toEqual(
+					content.files.map((file) => file.path).sort(),
+				);
+				expect(context.omittedFiles).toEqual([]);
+			}),
+			{ numRuns: 50 },
+		);
+	});
+});
+
+describe("Item context relevance", () => {
+	const content: RepositoryContent = {
+		structure: "",
+		files: [
+			{
+				path: "README.md",
+				content: "# Shop\n\nAn online shop. Run `npm start` to begin.",
+				language: "markdown",
+			},
+			{
+				path: "src/cart.ts",
+				content: "export function addToCart(item: Item) {\n\treturn item;\n}",
+				language: "typescript",
+			},
+			{
+				path: "tests/cart.test.ts",
+				content:
+					'import { addToCart } from "../src/cart";\n\ntest("adds items", () => {\n\texpect(addToCart(item)).toBe(item);\n});',
+				language: "typescript",
+			},
+		],
+	};
+
+	it("should put test files first for testing criteria", () => {
+		const context = retrieveItemContext(
+			content,
+			"Testing Coverage\nDoes the project have meaningful unit tests?",
+		);
+		expect(context.sections[0].path).toBe("tests/cart.test.ts");
+	});
+
+	it("should put the README first for documentation criteria", () => {
+		const context = retrieveItemContext(
+			content,
+			"README\nThe readme explains how to run the shop",
+		);
+		expect(context.sections[0].path).toBe("README.md");
+	});
+
+	it("should drop unrelated files first when the budget is tight", () => {
+		const context = retrieveItemContext(content, "cart items", 200);
+		expect(context.sections.map((section) => section.path)).not.toContain(
+			"README.md",
+		);
+		expect(context.omittedFiles).toContain("README.md");
+	});
+
+	it("should split identifiers into searchable terms", () => {
+		expect(tokenize("getUserSessions fetch_tokens")).toEqual([
+			"get",
+			"user",
+			"session",
+			"fetch",
+			"token",
+		]);
+	});
+});
@@ -443,3 +443,61 @@ describe("Property 16: Export format validity", () => {
 		);
 	});
 });
+
+describe("Exports record the analyzed commit", () => {
+	const analysis: ExportableAnalysis = {
+		_id: "analysis-1",
+		status: "completed",
+		totalItems: 1,
+		completedItems: 1,
+		failedItems: 0,
+		createdAt: 0,
+		commitSha: "0123456789abcdef0123456789abcdef01234567",
+		treeTruncated: true,
+		repository: {
+			fullName: "owner/repo",
+			owner: "owner",
+			name: "repo",
+			branch: "main",
+		},
+		results: [
+			{
+				_id: "result-1",
+				rubricItemId: "item-1",
+				status: "completed",
+				rubricItem: {
+					_id: "item-1",
+					name: "Examples",
+					description: "",
+					evaluationType: "code_examples",
+				},
+				result: {
+					examples: [
+						{
+							filePath: "src/index.ts",
+							lineStart: 1,
+							lineEnd: 2,
+							code: "export {};",
+							explanation: "",
+						},
+					],
+				},
+			},
+		],
+	};
+
+	it("should include the commit and truncation flag in JSON", () => {
+		const parsed = JSON.parse(exportAsJSON(analysis));
+		expect(parsed.commitSha).toBe(analysis.commitSha);
+		expect(parsed.branch).toBe("main");
+		expect(parsed.treeTruncated).toBe(true);
+	});
+
+	it("should link code examples to the commit in Markdown", () => {
+		const markdown = exportAsMarkdown(analysis);
+		expect(markdown).toContain(`**Commit:** ${analysis.commitSha}`);
+		expect(markdown).toContain(
+			`(https://github.com/owner/repo/blob/${analysis.commitSha}/src/index.ts#L1-L2)`,
+		);
+	});
+});
@@ -0,0 +1,123 @@
+import * as fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import {
+	rankFiles,
+	scoreFile,
+	selectFilesWithinBudget,
+} from "../../trigger/file-ranking";
+
+const pathSegmentArbitrary = fc.stringMatching(/^[a-z][a-z0-9_-]{0,11}$/);
+
+const fileArbitrary = fc.record({
+	path: fc
+		.tuple(
+			fc.array(pathSegmentArbitrary, { minLength: 0, maxLength: 5 }),
+			pathSegmentArbitrary,
+			fc.constantFrom("ts", "py", "md", "json", "yml", "css", "go"),
+		)
+		.map(([dirs, name, ext]) => [...dirs, `${name}.${ext}`].join("/")),
+	size: fc.option(fc.integer({ min: 0, max: 100 * 1024 }), { nil: undefined }),
+});
+
+const budgetArbitrary = fc.record({
+	maxFiles: fc.integer({ min: 0, max: 20 }),
+	maxBytes: fc.integer({ min: 0, max: 200 * 1024 }),
+});
+
+/**
+ * **Feature: ai-code-review, Property 26: File selection respects the budget**
+ * *For any* set of candidate files and budget, the selected files SHALL fit within
+ * the file and byte limits, every candidate SHALL be either selected or excluded,
+ * and the selection SHALL follow the ranking order.
+ */
+describe("Property 26: File selection respects the budget", () => {
+	it("should never exceed the file or byte budget", async () => {
+		await fc.assert(
+			fc.property(
+				fc.array(fileArbitrary, { maxLength: 40 }),
+				budgetArbitrary,
+				(files, budget) => {
+					const { selected, excluded } = selectFilesWithinBudget(
+						rankFiles(files),
+						budget,
+					);
+
+					const selectedBytes = selected.reduce(
+						(total, file) => total + (file.size ?? 0),
+						0,
+					);
+					expect(selected.length).toBeLessThanOrEqual(budget.maxFiles);
+					expect(selectedBytes).toBeLessThanOrEqual(budget.maxBytes);
+					expect(selected.length + excluded.length).toBe(files.length);
+				},
+			),
+			{ numRuns: 100 },
+		);
+	});
+
+	it("should rank deterministically regardless of input order", async () => {
+		await fc.assert(
+			fc.property(
+				fc.uniqueArray(fileArbitrary, {
+					maxLength: 30,
+					selector: (file) => file.path,
+				}),
+				(files) => {
+					const forward = rankFiles(files).map((file) => file.path);
+					const backward = rankFiles([...files].reverse()).map(
+						(file) => file.path,
+					);
+					expect(backward).toEqual(forward);
+
+					const scores = rankFiles(files).map((file) => file.score);
+					for (let i = 1; i < scores.length; i += 1) {
+						expect(scores[i]).toBeLessThanOrEqual(scores[i - 1]);
+					}
+				},
+			),
+			{ numRuns: 100 },
+		);
+	});
+});
+
+describe("File ranking heuristics", () => {
+	it("should prefer source code over deeply nested documentation", () => {
+		const ranked = rankFiles([
+			{ path: "docs/guide/getting-started/install.md", size: 4000 },
+			{ path: "docs/guide/api/reference.md", size: 9000 },
+			{ path: "src/index.ts", size: 1200 },
+			{ path: "src/utils/format.ts", size: 800 },
+		]);
+
+		expect(ranked.slice(0, 2).map((file) => file.path)).toEqual([
+			"src/index.ts",
+			"src/utils/format.ts",
+		]);
+	});
+
+	it("should rank the README and entrypoints ahead of tests and lockfiles", () => {
+		const ranked = rankFiles([
+			{ path: "package-lock.json", size: 90_000 },
+			{ path: "tests/test_app.py", size: 2000 },
+			{ path: "app/main.py", size: 3000 },
+			{ path: "README.md", size: 2500 },
+		]).map((file) => file.path);
+
+		expect(ranked).toEqual([
+			"README.md",
+			"app/main.py",
+			"tests/test_app.py",
+			"package-lock.json",
+		]);
+	});
+
+	it("should explain every score adjustment", () => {
+		const file = scoreFile({ path: "src/server/index.ts", size: 2048 });
+
+		expect(file.reasons).toContain("+30 source code");
+		expect(file.reasons).toContain("+25 likely entrypoint");
+		expect(file.reasons).toContain("+5 in a source directory");
+		expect(file.reasons).toContain("-3 nested 2 levels deep");
+		expect(file.score).toBe(57);
+	});
+});
@@ -0,0 +1,96 @@
+import * as fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import {
+	globToRegExp,
+	matchesAnyGlob,
+	mergeFileRules,
+	validateFileRules,
+} from "../../lib/file-rules";
+
+const segmentArbitrary = fc.stringMatching(/^[a-z0-9_-]{1,12}$/);
+const directoryArbitrary = fc.array(segmentArbitrary, {
+	minLength: 0,
+	maxLength: 4,
+});
+const extensionArbitrary = fc.constantFrom("ts", "ex", "dart", "ipynb", "py");
+
+/**
+ * **Feature: ai-code-review, Property 31: File rule glob matching**
+ * *For any* repository path, an extension glob SHALL match files with that
+ * extension at any depth, and a directory glob SHALL match every file below
+ * that directory and nothing outside it.
+ */
+describe("Property 31: File rule glob matching", () => {
+	it("should match extension globs at any depth", async () => {
+		await fc.assert(
+			fc.asyncProperty(
+				directoryArbitrary,
+				segmentArbitrary,
+				extensionArbitrary,
+				async (directories, name, extension) => {
+					const path = [...directories, `${name}.${extension}`].join("/");
+					expect(matchesAnyGlob(path, [`*.${extension}`])).toBe(true);
+					expect(matchesAnyGlob(path, ["*.zig"])).toBe(false);
+				},
+			),
+			{ numRuns: 100 },
+		);
+	});
+
+	it("should match everything below a directory glob", async () => {
+		await fc.assert(
+			fc.asyncProperty(
+				segmentArbitrary,
+				directoryArbitrary,
+				segmentArbitrary,
+				async (directory, rest, name) => {
+					// Unanchored directory globs also match nested directories
+					fc.pre(!rest.includes(directory));
+					const inside = [directory, ...rest, `${name}.ts`].join("/");
+					const outside = [`${directory}x`, ...rest, `${name}.ts`].join("/");
+
+					expect(globToRegExp(`${directory}/`).test(inside)).toBe(true);
+					expect(globToRegExp(`${directory}/`).test(outside)).toBe(false);
+					expect(globToRegExp(`/${directory}/**`).test(inside)).toBe(true);
+					expect(globToRegExp(`/${directory}/**`).test(`src/${inside}`)).toBe(
+						false,
+					);
+				},
+			),
+			{ numRuns: 100 },
+		);
+	});
+
+	it("should support single-segment wildcards and alternatives", () => {
+		expect(matchesAnyGlob("lib/app/user.ex", ["lib/*/*.{ex,exs}"])).toBe(true);
+		expect(matchesAnyGlob("lib/app/deep/user.ex", ["lib/*/*.ex"])).toBe(false);
+		expect(matchesAnyGlob("lib/app/deep/user.ex", ["lib/**/*.ex"])).toBe(true);
+		expect(matchesAnyGlob("src/a.ts", ["src/?.ts"])).toBe(true);
+	});
+
+	it("should combine glob lists and let rubric budgets win", () => {
+		expect(
+			mergeFileRules(
+				{ include: ["*.dart"], exclude: ["third_party/"], maxFiles: 20 },
+				{ include: ["*.dart", "*.ex"], maxFiles: 80, maxFileBytes: 4096 },
+			),
+		).toEqual({
+			include: ["*.dart", "*.ex"],
+			exclude: ["third_party/"],
+			maxFiles: 80,
+			maxTotalBytes: undefined,
+			maxFileBytes: 4096,
+		});
+	});
+
+	it("should reject budgets outside the allowed bounds", () => {
+		expect(validateFileRules({ maxFiles: 100 })).toBeNull();
+		expect(validateFileRules({ maxFiles: 0 })).toContain("Max files");
+		expect(validateFileRules({ maxTotalBytes: 1.5 })).toContain(
+			"Max total bytes",
+		);
+		expect(validateFileRules({ exclude: [" "] })).toBe(
+			"Patterns cannot be empty",
+		);
+	});
+});
@@ -1,10 +1,17 @@
 import * as fc from "fast-check";
 import { describe, expect, it } from "vitest";
 import {
+	constructGitHubFileUrl,
 	constructGitHubUrl,
+	formatGitHubRef,
+	getGitHubRef,
 	isGitHubUrl,
+	normalizeRootPath,
 	type ParsedGitHubUrl,
 	parseGitHubUrl,
+	splitTreeRef,
+	toGitRef,
+	validateGitHubRef,
 } from "../../lib/github-url";
 
 /**
@@ -474,3 +481,232 @@ describe("Property 24: Invalid URL error handling", () => {
 		);
 	});
 });
+
+/**
+ * **Feature: ai-code-review, Property 28: File links pin the analyzed commit**
+ * *For any* repository, branch and commit SHA, a file URL built with the commit
+ * SHA SHALL point at that commit rather than the branch.
+ */
+describe("Property 28: File links pin the analyzed commit", () => {
+	const commitShaArbitrary = fc.stringMatching(/^[0-9a-f]{40}$/);
+
+	it("should use the commit SHA instead of the branch when given", async () => {
+		await fc.assert(
+			fc.asyncProperty(
+				gitHubNameArbitrary,
+				gitHubNameArbitrary,
+				branchArbitrary,
+				commitShaArbitrary,
+				async (owner, repo, branch, commitSha) => {
+					const url = constructGitHubFileUrl({
+						owner,
+						repo,
+						branch,
+						commitSha,
+						filePath: "src/index.ts",
+						lineStart: 3,
+						lineEnd: 7,
+					});
+
+					expect(url).toBe(
+						`https://github.com/${owner}/${repo}/blob/${commitSha}/src/index.ts#L3-L7`,
+					);
+				},
+			),
+			{ numRuns: 100 },
+		);
+	});
+
+	it("should fall back to the branch without a commit SHA", () => {
+		expect(
+			constructGitHubFileUrl({
+				owner: "owner",
+				repo: "repo",
+				branch: "main",
+				filePath: "src/index.ts",
+				lineStart: 3,
+			}),
+		).toBe("https://github.com/owner/repo/blob/main/src/index.ts#L3");
+	});
+
+	it("should not anchor notebook links to lines of the rendered cells", () => {
+		expect(
+			constructGitHubFileUrl({
+				owner: "owner",
+				repo: "repo",
+				branch: "main",
+				commitSha: "abc123",
+				filePath: "notebooks/Analysis.ipynb",
+				lineStart: 3,
+				lineEnd: 7,
+			}),
+		).toBe(
+			"https://github.com/owner/repo/blob/abc123/notebooks/Analysis.ipynb",
+		);
+	});
+});
+
+/**
+ * **Feature: ai-code-review, Property 29: Commit, tag and pull request URLs**
+ * *For any* commit, release tag or pull request URL, parsing SHALL extract the
+ * targeted ref, and constructing a URL from the result SHALL round-trip.
+ */
+describe("Property 29: Commit, tag and pull request URLs", () => {
+	const commitShaArbitrary = fc.stringMatching(/^[0-9a-f]{7,40}$/);
+	const pullRequestArbitrary = fc.integer({ min: 1, max: 100000 });
+
+	it("should parse commit URLs", async () => {
+		await fc.assert(
+			fc.asyncProperty(
+				gitHubNameArbitrary,
+				gitHubNameArbitrary,
+				commitShaArbitrary,
+				async (owner, repo, commit) => {
+					const result = parseGitHubUrl(
+						`https://github.com/${owner}/${repo}/commit/${commit}`,
+					);
+					expect(result.success).toBe(true);
+					if (result.success) {
+						expect(result.data).toEqual({ owner, repo, commit });
+						expect(getGitHubRef(result.data)).toEqual({
+							refType: "commit",
+							ref: commit,
+						});
+						expect(constructGitHubUrl(result.data)).toBe(
+							`https://github.com/${owner}/${repo}/commit/${commit}`,
+						);
+					}
+				},
+			),
+			{ numRuns: 100 },
+		);
+	});
+
+	it("should parse release tag URLs", async () => {
+		await fc.assert(
+			fc.asyncProperty(
+				gitHubNameArbitrary,
+				gitHubNameArbitrary,
+				branchArbitrary,
+				async (owner, repo, tag) => {
+					const result = parseGitHubUrl(
+						`https://github.com/${owner}/${repo}/releases/tag/${tag}`,
+					);
+					expect(result.success).toBe(true);
+					if (result.success) {
+						expect(result.data).toEqual({ owner, repo, tag });
+						expect(getGitHubRef(result.data)?.refType).toBe("tag");
+					}
+				},
+			),
+			{ numRuns: 100 },
+		);
+	});
+
+	it("should parse pull request URLs, including sub-pages", async () => {
+		await fc.assert(
+			fc.asyncProperty(
+				gitHubNameArbitrary,
+				gitHubNameArbitrary,
+				pullRequestArbitrary,
+				fc.constantFrom("", "/files", "/commits"),
+				async (owner, repo, pullRequest, suffix) => {
+					const result = parseGitHubUrl(
+						`https://github.com/${owner}/${repo}/pull/${pullRequest}${suffix}`,
+					);
+					expect(result.success).toBe(true);
+					if (result.success) {
+						expect(result.data).toEqual({ owner, repo, pullRequest });
+						const ref = getGitHubRef(result.data);
+						expect(ref).toEqual({
+							refType: "pull_request",
+							ref: String(pullRequest),
+						});
+						expect(toGitRef(ref!)).toBe(`refs/pull/${pullRequest}/head`);
+					}
+				},
+			),
+			{ numRuns: 100 },
+		);
+	});
+
+	it("should reject malformed commit and pull request URLs", () => {
+		expect(
+			parseGitHubUrl("https://github.com/owner/repo/commit/not-a-sha").success,
+		).toBe(false);
+		expect(
+			parseGitHubUrl("https://github.com/owner/repo/pull/abc").success,
+		).toBe(false);
+	});
+
+	it("should validate refs against their type", () => {
+		expect(validateGitHubRef({ refType: "pull_request", ref: "12" })).toBe(
+			null,
+		);
+		for (const ref of ["feature/x", "0", "-1", "1.5", ""]) {
+			expect(validateGitHubRef({ refType: "pull_request", ref })).toBe(
+				"Pull request must be a positive whole number",
+			);
+		}
+		expect(validateGitHubRef({ refType: "commit", ref: "abc1234" })).toBe(null);
+		expect(validateGitHubRef({ refType: "commit", ref: "not-a-sha" })).toBe(
+			"Commit must be a SHA of 7 to 40 hex characters",
+		);
+		expect(validateGitHubRef({ refType: "branch", ref: "feature/x" })).toBe(
+			null,
+		);
+		expect(validateGitHubRef({ refType: "branch", ref: " " })).toBe(
+			"A branch name is required",
+		);
+	});
+
+	it("should format refs for display", () => {
+		expect(formatGitHubRef({ refType: "branch", ref: "main" })).toBe("main");
+		expect(
+			formatGitHubRef({
+				refType: "commit",
+				ref: "0123456789abcdef0123456789abcdef01234567",
+			}),
+		).toBe("0123456");
+		expect(formatGitHubRef({ refType: "tag", ref: "v1.0" })).toBe("tag v1.0");
+		expect(formatGitHubRef({ refType: "pull_request", ref: "12" })).toBe(
+			"PR #12",
+		);
+	});
+});
+
+/**
+ * **Feature: ai-code-review, Property 30: Tree URL branch and path splitting**
+ * *For any* "/tree/" ref, every candidate split SHALL rebuild the original
+ * ref, starting with the whole ref as the branch and ending with its first
+ * segment.
+ */
+describe("Property 30: Tree URL branch and path splitting", () => {
+	it("should list every branch/path split, longest branch first", async () => {
+		await fc.assert(
+			fc.asyncProperty(branchArbitrary, async (value) => {
+				const candidates = splitTreeRef(value);
+				const segments = value.split("/");
+
+				expect(candidates).toHaveLength(segments.length);
+				expect(candidates[0]).toEqual({ branch: value });
+				expect(candidates.at(-1)?.branch).toBe(segments[0]);
+				for (const candidate of candidates) {
+					expect(
+						[candidate.branch, candidate.rootPath].filter(Boolean).join("/"),
+					).toBe(value);
+				}
+			}),
+			{ numRuns: 100 },
+		);
+	});
+
+	it("should normalize root paths and reject paths leaving the repository", () => {
+		expect(normalizeRootPath("/packages/web/")).toBe("packages/web");
+		expect(normalizeRootPath("")).toBeUndefined();
+		expect(normalizeRootPath(undefined)).toBeUndefined();
+		expect(() => normalizeRootPath("packages/../..")).toThrow(
+			"Invalid root path",
+		);
+	});
+});
@@ -0,0 +1,75 @@
+import * as fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { canonicalizeSelections } from "../../lib/utils";
+
+const optionsArbitrary = fc.uniqueArray(
+	fc.constantFrom(
+		"TypeScript",
+		"JavaScript",
+		"Python",
+		"Go",
+		"Rust",
+		"Other",
+		"Next.js",
+	),
+	{ minLength: 1, maxLength: 7 },
+);
+
+// Re-spell a string the way a model might: different casing, stray spaces
+const respellArbitrary = (value: string) =>
+	fc
+		.tuple(
+			fc.constantFrom(
+				(s: string) => s,
+				(s: string) => s.toLowerCase(),
+				(s: string) => s.toUpperCase(),
+			),
+			fc.constantFrom("", " "),
+		)
+		.map(([recase, padding]) => `${padding}${recase(value)}${padding}`);
+
+/**
+ * **Feature: ai-code-review, Property 36: Canonical option selections**
+ * *For any* selections that match an item's options apart from case and
+ * surrounding spaces, the stored selections SHALL use the options' own
+ * spelling, in the order selected, with no option repeated.
+ */
+describe("Property 36: Canonical option selections", () => {
+	it("should map selections onto the configured option labels", async () => {
+		await fc.assert(
+			fc.property(
+				optionsArbitrary.chain((options) =>
+					fc.record({
+						options: fc.constant(options),
+						selections: fc.array(
+							fc.constantFrom(...options).chain(respellArbitrary),
+							{ minLength: 1, maxLength: 6 },
+						),
+					}),
+				),
+				({ options, selections }) => {
+					const canonical = canonicalizeSelections(selections, options);
+					const expected = [
+						...new Set(
+							selections.map((selection) =>
+								options.find(
+									(option) =>
+										option.toLowerCase() === selection.trim().toLowerCase(),
+								),
+							),
+						),
+					];
+
+					expect(canonical).toEqual(expected);
+				},
+			),
+			{ numRuns: 100 },
+		);
+	});
+
+	it("should keep selections that match no option as given", () => {
+		expect(
+			canonicalizeSelections([" Elixir ", "typescript"], ["TypeScript"]),
+		).toEqual(["Elixir", "TypeScript"]);
+	});
+});
@@ -0,0 +1,140 @@
+import * as fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import {
+	assemblePrompt,
+	estimateTokens,
+	type PromptContext,
+	RESPONSE_TOKEN_RESERVE,
+} from "../../trigger/prompt-budget";
+import type { RepositoryContent } from "../../trigger/repository-content";
+
+const wordArbitrary = fc.constantFrom(
+	"user",
+	"session",
+	"token",
+	"render",
+	"fetch",
+	"cache",
+	"test",
+	"config",
+);
+
+const repositoryContentArbitrary: fc.Arbitrary<RepositoryContent> = fc
+	.uniqueArray(
+		fc.record({
+			path: fc
+				.tuple(wordArbitrary, wordArbitrary)
+				.map(([dir, name]) => `${dir}/${name}.ts`),
+			lines: fc.array(
+				fc
+					.array(wordArbitrary, { maxLength: 8 })
+					.map((words) => words.join(" ")),
+				{ minLength: 1, maxLength: 200 },
+			),
+		}),
+		{ maxLength: 12, selector: (file) => file.path },
+	)
+	.map((files) => ({
+		structure: files.map((file) => `├── ${file.path}`).join("\n"),
+		files: files.map((file) => ({
+			path: file.path,
+			content: file.lines.join("\n"),
+			language: "typescript",
+		})),
+	}));
+
+function render({ structure, sections }: PromptContext): string {
+	const files = sections
+		.map((section) => `--- ${section.path} ---\n${section.content}`)
+		.join("\n\n");
+	return `Structure:\n${structure}\n\nFiles:\n${files}\n\nCriteria: tests`;
+}
+
+/**
+ * **Feature: ai-code-review, Property 32: Assembled prompts fit the context window**
+ * *For any* repository content and context window, the assembled prompt SHALL
+ * leave the response reserve free, and content SHALL only be dropped when it
+ * doesn't fit.
+ */
+describe("Property 32: Assembled prompts fit the context window", () => {
+	it("should never exceed the context window minus the response reserve", async () => {
+		await fc.assert(
+			fc.property(
+				repositoryContentArbitrary,
+				fc.integer({ min: 100, max: 6000 }),
+				(content, promptTokens) => {
+					const contextWindow = RESPONSE_TOKEN_RESERVE + promptTokens;
+					const { prompt, budget } = assemblePrompt({
+						repositoryContent: content,
+						query: "user session",
+						contextWindow,
+						render,
+					});
+
+					expect(budget.tokensSent).toBe(estimateTokens(prompt));
+					expect(budget.tokensSent).toBeLessThanOrEqual(promptTokens);
+				},
+			),
+			{ numRuns: 100 },
+		);
+	});
+
+	it("should send everything when the window is large enough", async () => {
+		await fc.assert(
+			fc.property(repositoryContentArbitrary, (content) => {
+				const { prompt, budget } = assemblePrompt({
+					repositoryContent: content,
+					query: "user session",
+					contextWindow: 1_000_000,
+					render,
+				});
+
+				expect(budget.tokensDropped).toBe(0);
+				expect(budget.droppedFiles).toEqual([]);
+				expect(budget.truncatedFiles).toEqual([]);
+				expect(budget.structureTruncated).toBe(false);
+				for (const file of content.files) {
+					expect(prompt).toContain(`--- ${file.path} ---\n${file.content}`);
+				}
+			}),
+			{ numRuns: 100 },
+		);
+	});
+
+	it("should record what was dropped from a small window", () => {
+		const content: RepositoryContent = {
+			structure: "├── src/user.ts\n└── src/other.ts",
+			files: [
+				{
+					path: "src/user.ts",
+					content: "export const user = 1;\n".repeat(200),
+					language: "typescript",
+				},
+				{
+					path: "src/other.ts",
+					content: "export const other = 1;\n".repeat(200),
+					language: "typescript",
+				},
+			],
+		};
+
+		const { budget } = assemblePrompt({
+			repositoryContent: content,
+			query: "user",
+			contextWindow: RESPONSE_TOKEN_RESERVE + 1000,
+			render,
+		});
+
+		expect(budget.truncatedFiles).toEqual(["src/user.ts"]);
+		expect(budget.droppedFiles).toEqual(["src/other.ts"]);
+		expect(budget.tokensDropped).toBeGreaterThan(1000);
+		expect(() =>
+			assemblePrompt({
+				repositoryContent: content,
+				query: "user",
+				contextWindow: RESPONSE_TOKEN_RESERVE,
+				render,
+			}),
+		).toThrow("context window");
+	});
+});
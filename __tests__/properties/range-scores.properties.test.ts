@@ -0,0 +1,61 @@
+import * as fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import {
+	clampScore,
+	getRangeBounds,
+	isValidScore,
+	type RangeBounds,
+} from "../../lib/range-scores";
+
+const boundsArbitrary: fc.Arbitrary<RangeBounds> = fc
+	.record({
+		min: fc.integer({ min: -10, max: 10 }),
+		span: fc.integer({ min: 1, max: 100 }),
+		step: fc.option(fc.constantFrom(0.25, 0.5, 1, 2, 5), { nil: undefined }),
+	})
+	.filter(({ span, step }) => step === undefined || step <= span)
+	.map(({ min, span, step }) => ({ min, max: min + span, step }));
+
+/**
+ * **Feature: ai-code-review, Property 35: Range score bounds**
+ * *For any* range item and any score a model returns, the stored score SHALL
+ * lie within the item's configured bounds and on one of its steps, and scores
+ * that already do SHALL be kept unchanged.
+ */
+describe("Property 35: Range score bounds", () => {
+	it("should clamp any score onto a valid one", async () => {
+		await fc.assert(
+			fc.property(
+				boundsArbitrary,
+				fc.double({ min: -1000, max: 1000, noNaN: true }),
+				(bounds, value) => {
+					const score = clampScore(value, bounds);
+
+					expect(isValidScore(score, bounds)).toBe(true);
+					if (isValidScore(value, bounds)) {
+						expect(score).toBeCloseTo(value, 9);
+					}
+				},
+			),
+			{ numRuns: 200 },
+		);
+	});
+
+	it("should take bounds from the item's config", () => {
+		expect(getRangeBounds({ minValue: 1, maxValue: 3 })).toEqual({
+			min: 1,
+			max: 3,
+			step: undefined,
+		});
+
+		const wholeNumbers = getRangeBounds({
+			minValue: 1,
+			maxValue: 3,
+			rangeStep: 1,
+		});
+		expect(isValidScore(7, wholeNumbers)).toBe(false);
+		expect(isValidScore(2.5, wholeNumbers)).toBe(false);
+		expect(clampScore(7, wholeNumbers)).toBe(3);
+		expect(clampScore(2.4, wholeNumbers)).toBe(2);
+	});
+});
@@ -0,0 +1,117 @@
+import * as fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import {
+	aggregateSamples,
+	dedupeCodeExamples,
+} from "../../trigger/self-consistency";
+
+const yesNoSampleArbitrary = fc.record({
+	value: fc.boolean(),
+	justification: fc.string(),
+});
+
+const rangeSampleArbitrary = fc.integer({ min: 1, max: 10 }).map((value) => ({
+	value,
+	min: 1,
+	max: 10,
+	rationale: `Scored ${value}`,
+}));
+
+/**
+ * **Feature: ai-code-review, Property 33: Self-consistency aggregation**
+ * *For any* set of samples, the aggregated result SHALL be one of the samples,
+ * chosen by majority vote for yes/no and as the median for ranges, and the
+ * agreement SHALL be the share of samples that agree with it.
+ */
+describe("Property 33: Self-consistency aggregation", () => {
+	it("should take the majority answer for yes/no", async () => {
+		await fc.assert(
+			fc.property(
+				fc.array(yesNoSampleArbitrary, { minLength: 1, maxLength: 5 }),
+				(samples) => {
+					const { result, agreement } = aggregateSamples("yes_no", samples);
+					const votes = samples.filter(
+						(sample) => sample.value === result.value,
+					).length;
+
+					expect(samples).toContain(result);
+					expect(votes * 2).toBeGreaterThanOrEqual(samples.length);
+					expect(agreement).toBe(votes / samples.length);
+				},
+			),
+			{ numRuns: 100 },
+		);
+	});
+
+	it("should take the median score for ranges", async () => {
+		await fc.assert(
+			fc.property(
+				fc.array(rangeSampleArbitrary, { minLength: 1, maxLength: 5 }),
+				(samples) => {
+					const { result, agreement } = aggregateSamples("range", samples);
+					const below = samples.filter((s) => s.value < result.value).length;
+					const above = samples.filter((s) => s.value > result.value).length;
+
+					expect(samples).toContain(result);
+					expect(below).toBeLessThanOrEqual(samples.length / 2);
+					expect(above).toBeLessThanOrEqual(samples.length / 2);
+					expect(agreement).toBeGreaterThan(0);
+					expect(agreement).toBeLessThanOrEqual(1);
+				},
+			),
+			{ numRuns: 100 },
+		);
+	});
+
+	it("should vote on whole option selections and merge code examples", () => {
+		const options = aggregateSamples("options", [
+			{ selections: ["TypeScript", "React"] },
+			{ selections: ["react", "typescript"] },
+			{ selections: ["Vue"] },
+		]);
+		expect(options.result.selections).toEqual(["TypeScript", "React"]);
+		expect(options.agreement).toBeCloseTo(2 / 3);
+
+		const example = {
+			filePath: "src/index.ts",
+			lineStart: 1,
+			lineEnd: 2,
+			code: "a",
+			explanation: "First",
+		};
+		const merged = aggregateSamples("code_examples", [
+			{ examples: [example] },
+			{ examples: [{ ...example, explanation: "Again" }] },
+			{ examples: [{ ...example, lineStart: 5, lineEnd: 6 }] },
+		]);
+		expect(merged.result.examples).toHaveLength(2);
+		expect(merged.agreement).toBeUndefined();
+	});
+
+	it("should keep different code cited at the same lines until examples are aligned", () => {
+		const example = {
+			filePath: "src/index.ts",
+			lineStart: 1,
+			lineEnd: 1,
+			code: "const a = 1;",
+			explanation: "First",
+		};
+		// The second sample has the wrong lines for code elsewhere in the file
+		const misplaced = { ...example, code: "const b = 2;" };
+		const merged = aggregateSamples("code_examples", [
+			{ examples: [example] },
+			{ examples: [misplaced] },
+		]);
+		expect(merged.result.examples).toEqual([example, misplaced]);
+
+		// Once aligned, only the same code at the same lines is a repeat
+		const aligned = { ...misplaced, lineStart: 4, lineEnd: 4 };
+		expect(
+			dedupeCodeExamples([
+				example,
+				aligned,
+				{ ...aligned, code: "  const b  =  2;\n", explanation: "Again" },
+			]),
+		).toEqual([example, aligned]);
+	});
+});
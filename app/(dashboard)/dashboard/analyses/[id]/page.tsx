@@ -6,6 +6,7 @@ import { useConvexAuth, useQuery } from "convex/react";
 import Link from "next/link";
 import { useParams, useRouter } from "next/navigation";
 import { useEffect } from "react";
+import { FilesAnalyzedPanel } from "@/components/results/files-analyzed-panel";
 import { ResultsView } from "@/components/results/results-view";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -23,6 +24,10 @@ export default function AnalysisResultsPage() {
 		api.analyses.getAnalysisWithResults,
 		isAuthenticated ? { analysisId: analysisId as Id<"analyses"> } : "skip",
 	);
+	const manifest = useQuery(
+		api.analyses.getAnalysisManifest,
+		isAuthenticated ? { analysisId: analysisId as Id<"analyses"> } : "skip",
+	);
 
 	// Redirect to progress page if analysis is still running
 	useEffect(() => {
@@ -120,8 +125,14 @@ export default function AnalysisResultsPage() {
 		totalItems: analysis.totalItems,
 		completedItems: analysis.completedItems,
 		failedItems: analysis.failedItems,
+		usage: analysis.usage,
 		createdAt: analysis.createdAt,
 		completedAt: analysis.completedAt,
+		refType: analysis.refType,
+		scope: analysis.scope,
+		commitSha: analysis.commitSha,
+		treeTruncated: analysis.treeTruncated,
+		rootPath: analysis.rootPath,
 		repository:
 			repositoryFullName && repositoryOwner && repositoryName
 				? {
@@ -138,6 +149,7 @@ export default function AnalysisResultsPage() {
 			status: result.status,
 			result: result.result,
 			error: result.error,
+			usage: result.usage,
 			rubricItem: result.rubricItem
 				? {
 						_id: result.rubricItem._id,
@@ -177,6 +189,8 @@ export default function AnalysisResultsPage() {
 			</div>
 
 			<ResultsView analysis={analysisForView} />
+
+			{manifest && <FilesAnalyzedPanel manifest={manifest} />}
 		</div>
 	);
 }
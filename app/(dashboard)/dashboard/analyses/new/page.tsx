@@ -6,6 +6,7 @@ import { useConvexAuth, useMutation, useQuery } from "convex/react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useCallback, useState } from "react";
+import { toast } from "sonner";
 import { OneOffAnalysisForm } from "@/components/repositories/one-off-analysis-form";
 import { RepositorySelector } from "@/components/repositories/repository-selector";
 import { Badge } from "@/components/ui/badge";
@@ -17,6 +18,9 @@ import {
 	CardHeader,
 	CardTitle,
 } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Field, FieldDescription, FieldLabel } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
 import {
 	Select,
 	SelectContent,
@@ -28,10 +32,11 @@ import { Spinner } from "@/components/ui/spinner";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { api } from "@/convex/_generated/api";
 import type { Id } from "@/convex/_generated/dataModel";
-import type { ParsedGitHubUrl } from "@/lib/github-url";
+import type { GitHubRef, ParsedGitHubUrl } from "@/lib/github-url";
+import { getRemainingItems } from "@/lib/quotas";
 
 // One-off analysis data type
-interface OneOffData extends ParsedGitHubUrl {
+interface OneOffData extends ParsedGitHubUrl, GitHubRef {
 	url: string;
 }
 
@@ -46,6 +51,8 @@ export default function NewAnalysisPage() {
 	const [oneOffData, setOneOffData] = useState<OneOffData[]>([]);
 	const [selectedRubric, setSelectedRubric] = useState<string | null>(null);
 	const [isStarting, setIsStarting] = useState(false);
+	const [diffOnly, setDiffOnly] = useState(false);
+	const [rootPath, setRootPath] = useState("");
 	const { isAuthenticated } = useConvexAuth();
 
 	const currentUser = useQuery(
@@ -57,6 +64,15 @@ export default function NewAnalysisPage() {
 		isAuthenticated && currentUser ? { userId: currentUser._id } : "skip",
 	);
 
+	const quota = useQuery(
+		api.analyses.getQuotaStatus,
+		isAuthenticated ? {} : "skip",
+	);
+	const selectedRubricDetails = useQuery(
+		api.rubrics.getRubric,
+		selectedRubric ? { rubricId: selectedRubric as Id<"rubrics"> } : "skip",
+	);
+
 	const createAnalysis = useMutation(api.analyses.createAnalysis);
 	const createOneOffAnalysis = useMutation(api.analyses.createOneOffAnalysis);
 
@@ -78,11 +94,23 @@ export default function NewAnalysisPage() {
 				const analysisId = await createAnalysis({
 					repositoryId: selectedRepository as Id<"repositories">,
 					rubricId: selectedRubric as Id<"rubrics">,
+					rootPath: rootPath.trim() || undefined,
 				});
 				router.push(`/dashboard/analyses/${analysisId}/progress`);
 			} else {
 				if (oneOffData.length === 0) return;
 
+				// Check the whole batch up front so it isn't only partly queued
+				const requiredItems =
+					oneOffData.length * (selectedRubricDetails?.items.length ?? 0);
+				if (quota && requiredItems > getRemainingItems(quota)) {
+					toast.error(
+						`These analyses need ${requiredItems} item evaluations but only ${getRemainingItems(quota)} remain in your monthly quota`,
+					);
+					setIsStarting(false);
+					return;
+				}
+
 				// Create all analyses in parallel
 				await Promise.all(
 					oneOffData.map((data) =>
@@ -90,7 +118,13 @@ export default function NewAnalysisPage() {
 							repositoryUrl: data.url,
 							repositoryOwner: data.owner,
 							repositoryName: data.repo,
-							branch: data.branch || "main",
+							branch: data.ref,
+							refType: data.refType,
+							// Diff scope only applies to pull request URLs
+							scope:
+								diffOnly && data.refType === "pull_request"
+									? "diff"
+									: "repository",
 							rubricId: selectedRubric as Id<"rubrics">,
 						}),
 					),
@@ -101,10 +135,17 @@ export default function NewAnalysisPage() {
 			}
 		} catch (error) {
 			console.error("Failed to start analysis:", error);
+			toast.error(
+				error instanceof Error ? error.message : "Failed to start analysis",
+			);
 			setIsStarting(false);
 		}
 	};
 
+	const hasPullRequests = oneOffData.some(
+		(data) => data.refType === "pull_request",
+	);
+
 	const canStartConnected =
 		analysisMode === "connected" &&
 		selectedRepository &&
@@ -161,12 +202,43 @@ export default function NewAnalysisPage() {
 									value={selectedRepository ?? undefined}
 									onValueChange={setSelectedRepository}
 								/>
+								<Field className="mt-4">
+									<FieldLabel htmlFor="root-path">Root path</FieldLabel>
+									<Input
+										id="root-path"
+										placeholder="e.g., packages/web"
+										value={rootPath}
+										onChange={(e) => setRootPath(e.target.value)}
+									/>
+									<FieldDescription>
+										Optional. Only analyze this directory, e.g. one package of a
+										monorepo
+									</FieldDescription>
+								</Field>
 							</TabsContent>
 							<TabsContent value="one-off" className="mt-4">
 								<OneOffAnalysisForm
 									onValidData={handleValidData}
 									onInvalidData={handleInvalidData}
 								/>
+								{hasPullRequests && (
+									<Field orientation="horizontal" className="mt-4">
+										<Checkbox
+											id="diff-only"
+											checked={diffOnly}
+											onCheckedChange={(checked) =>
+												setDiffOnly(checked === true)
+											}
+										/>
+										<FieldLabel htmlFor="diff-only">
+											Review only the pull request changes
+										</FieldLabel>
+										<FieldDescription>
+											Evaluates the changed files and diff, using the rest of
+											the repository as background
+										</FieldDescription>
+									</Field>
+								)}
 							</TabsContent>
 						</Tabs>
 					</CardContent>
@@ -10,6 +10,7 @@ import { HugeiconsIcon } from "@hugeicons/react";
 import { useConvexAuth, useQuery } from "convex/react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
+import { QuotaMeter } from "@/components/analysis/quota-meter";
 import { AnalysisCard } from "@/components/history/analysis-card";
 import { Button } from "@/components/ui/button";
 import {
@@ -37,6 +38,10 @@ export default function DashboardPage() {
 		api.analyses.listAnalyses,
 		isAuthenticated ? { limit: 6 } : "skip",
 	);
+	const quota = useQuery(
+		api.analyses.getQuotaStatus,
+		isAuthenticated ? {} : "skip",
+	);
 
 	// Treat as "no data" when auth is still loading to avoid showing spinners
 	const isDataLoading =
@@ -59,6 +64,8 @@ export default function DashboardPage() {
 				</p>
 			</div>
 
+			{quota && <QuotaMeter status={quota} />}
+
 			{/* Quick Actions */}
 			<div className="grid gap-4 md:grid-cols-2">
 				<Card
@@ -1,5 +1,6 @@
 "use client";
 
+import { GitHubAppConnection } from "@/components/repositories/github-app-connection";
 import { RepositoryConnectionForm } from "@/components/repositories/repository-connection-form";
 import { RepositoryList } from "@/components/repositories/repository-list";
 
@@ -16,7 +17,10 @@ export default function RepositoriesPage() {
 			<div className="grid gap-6 lg:grid-cols-2">
 				<div>
 					<h2 className="text-lg font-semibold mb-4">Connect Repository</h2>
-					<RepositoryConnectionForm />
+					<div className="space-y-6">
+						<GitHubAppConnection />
+						<RepositoryConnectionForm />
+					</div>
 				</div>
 				<div>
 					<h2 className="text-lg font-semibold mb-4">Connected Repositories</h2>
@@ -5,6 +5,7 @@ import { auth, tasks } from "@trigger.dev/sdk/v3";
 import { ConvexHttpClient } from "convex/browser";
 import { api } from "@/convex/_generated/api";
 import type { Id } from "@/convex/_generated/dataModel";
+import type { RepositorySourceDescriptor } from "@/trigger/repository-source";
 
 const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
 
@@ -127,6 +128,8 @@ export interface TriggerAnalysisPayload {
 	repositoryOwner?: string;
 	repositoryName?: string;
 	branch?: string;
+	// Where to read the code from (defaults to GitHub)
+	source?: RepositorySourceDescriptor;
 }
 
 /**
@@ -146,6 +149,7 @@ export async function triggerAnalysisTask(
 			repositoryOwner: payload.repositoryOwner,
 			repositoryName: payload.repositoryName,
 			branch: payload.branch,
+			source: payload.source,
 			rubricId: payload.rubricId,
 			userId: payload.userId,
 		});
@@ -0,0 +1,98 @@
+"use server";
+
+import { auth as clerkAuth } from "@clerk/nextjs/server";
+import { ConvexHttpClient } from "convex/browser";
+import { api } from "@/convex/_generated/api";
+import {
+	createInstallationToken,
+	getGitHubAppCredentials,
+	verifyRepositoryAccess,
+} from "@/lib/github-app";
+import { getTaskSecret } from "@/lib/task-secret";
+
+export interface ConnectRepositoryInput {
+	owner: string;
+	name: string;
+	defaultBranch: string;
+}
+
+export interface ConnectRepositoryResult {
+	success: boolean;
+	repositoryId?: string;
+	isPrivate?: boolean;
+	error?: string;
+}
+
+/**
+ * Server action to connect a repository after checking it can be read.
+ * Uses the user's linked GitHub App installation when it covers the
+ * repository, and anonymous access for public repositories otherwise.
+ */
+export async function connectRepositoryWithAccessCheck(
+	input: ConnectRepositoryInput,
+): Promise<ConnectRepositoryResult> {
+	try {
+		const { getToken } = await clerkAuth();
+		const token = await getToken({ template: "convex" });
+		if (!token) {
+			return { success: false, error: "Not authenticated" };
+		}
+
+		const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
+		convex.setAuth(token);
+
+		const user = await convex.query(api.users.getCurrentUser, {});
+		if (!user) {
+			return { success: false, error: "User not found" };
+		}
+
+		// Try the installation first; it can only mint a token for repositories
+		// it was granted, so a failure here means "not shared with the app"
+		const credentials = getGitHubAppCredentials();
+		let installationToken: string | undefined;
+		if (credentials && user.githubInstallationId !== undefined) {
+			try {
+				const { token: scopedToken } = await createInstallationToken(
+					credentials,
+					user.githubInstallationId,
+					input.name,
+				);
+				installationToken = scopedToken;
+			} catch (error) {
+				console.warn(
+					`GitHub App installation cannot read ${input.owner}/${input.name}:`,
+					error,
+				);
+			}
+		}
+
+		const access = await verifyRepositoryAccess(
+			input.owner,
+			input.name,
+			installationToken,
+		);
+
+		const repositoryId = await convex.mutation(
+			api.repositories.connectRepository,
+			{
+				taskSecret: getTaskSecret(),
+				owner: input.owner,
+				name: input.name,
+				fullName: `${input.owner}/${input.name}`,
+				defaultBranch: input.defaultBranch,
+				isPrivate: access.isPrivate,
+				installationId: installationToken
+					? user.githubInstallationId
+					: undefined,
+			},
+		);
+
+		return { success: true, repositoryId, isPrivate: access.isPrivate };
+	} catch (error) {
+		console.error("Failed to connect repository:", error);
+		return {
+			success: false,
+			error: error instanceof Error ? error.message : "Unknown error",
+		};
+	}
+}
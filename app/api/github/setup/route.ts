@@ -0,0 +1,62 @@
+import { auth as clerkAuth } from "@clerk/nextjs/server";
+import { ConvexHttpClient } from "convex/browser";
+import { type NextRequest, NextResponse } from "next/server";
+import { api } from "@/convex/_generated/api";
+import {
+	getGitHubAppCredentials,
+	verifyInstallationOwnership,
+} from "@/lib/github-app";
+import { getTaskSecret } from "@/lib/task-secret";
+
+/**
+ * GitHub App setup callback.
+ * GitHub redirects here after the app is installed, with the installation ID
+ * and an OAuth code for the user who installed it.
+ */
+export async function GET(request: NextRequest) {
+	const redirectTo = (status: string) =>
+		NextResponse.redirect(
+			new URL(`/dashboard/repositories?github=${status}`, request.url),
+		);
+
+	const installationId = Number(
+		request.nextUrl.searchParams.get("installation_id"),
+	);
+	const code = request.nextUrl.searchParams.get("code");
+
+	if (!Number.isInteger(installationId) || installationId <= 0 || !code) {
+		return redirectTo("invalid");
+	}
+
+	const credentials = getGitHubAppCredentials();
+	if (!credentials) {
+		return redirectTo("not-configured");
+	}
+
+	try {
+		const { getToken } = await clerkAuth();
+		const token = await getToken({ template: "convex" });
+		if (!token) {
+			return redirectTo("unauthenticated");
+		}
+
+		const account = await verifyInstallationOwnership(
+			credentials,
+			installationId,
+			code,
+		);
+
+		const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
+		convex.setAuth(token);
+		await convex.mutation(api.users.linkGitHubInstallation, {
+			taskSecret: getTaskSecret(),
+			installationId,
+			accountLogin: account.login,
+		});
+
+		return redirectTo("linked");
+	} catch (error) {
+		console.error("Failed to link GitHub App installation:", error);
+		return redirectTo("failed");
+	}
+}
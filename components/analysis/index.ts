@@ -6,3 +6,4 @@ export {
 	ItemStatusList,
 } from "./item-status-list";
 export { ProgressBar } from "./progress-bar";
+export { QuotaMeter } from "./quota-meter";
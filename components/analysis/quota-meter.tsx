@@ -0,0 +1,55 @@
+"use client";
+
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import {
+	Progress,
+	ProgressLabel,
+	ProgressValue,
+} from "@/components/ui/progress";
+import type { QuotaStatus } from "@/lib/quotas";
+
+interface QuotaMeterProps {
+	status: QuotaStatus;
+}
+
+function percentage(used: number, limit: number): number {
+	return limit > 0 ? Math.min(100, (used / limit) * 100) : 100;
+}
+
+export function QuotaMeter({ status }: QuotaMeterProps) {
+	const resetsOn = new Date(status.resetsAt).toLocaleDateString(undefined, {
+		month: "short",
+		day: "numeric",
+	});
+
+	return (
+		<Card size="sm">
+			<CardHeader>
+				<CardTitle>Monthly Usage</CardTitle>
+				<CardDescription>Resets on {resetsOn}</CardDescription>
+			</CardHeader>
+			<CardContent className="grid gap-4 md:grid-cols-2">
+				<Progress value={percentage(status.items.used, status.items.limit)}>
+					<ProgressLabel>
+						{status.items.used.toLocaleString()} /{" "}
+						{status.items.limit.toLocaleString()} items
+					</ProgressLabel>
+					<ProgressValue />
+				</Progress>
+				<Progress value={percentage(status.tokens.used, status.tokens.limit)}>
+					<ProgressLabel>
+						{status.tokens.used.toLocaleString()} /{" "}
+						{status.tokens.limit.toLocaleString()} tokens
+					</ProgressLabel>
+					<ProgressValue />
+				</Progress>
+			</CardContent>
+		</Card>
+	);
+}
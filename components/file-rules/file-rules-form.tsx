@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+	Field,
+	FieldDescription,
+	FieldGroup,
+	FieldLabel,
+} from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { Spinner } from "@/components/ui/spinner";
+import { Textarea } from "@/components/ui/textarea";
+import {
+	FILE_RULE_LIMITS,
+	type FileRules,
+	validateFileRules,
+} from "@/lib/file-rules";
+
+interface FileRulesFormProps {
+	value?: FileRules;
+	onSave: (rules: FileRules) => Promise<void>;
+	onCancel?: () => void;
+}
+
+const BUDGET_FIELDS = [
+	{
+		key: "maxFiles",
+		label: "Max files",
+		placeholder: "50",
+	},
+	{
+		key: "maxTotalBytes",
+		label: "Max total bytes",
+		placeholder: "512000",
+	},
+	{
+		key: "maxFileBytes",
+		label: "Max file bytes",
+		placeholder: "102400",
+	},
+] as const;
+
+type BudgetKey = (typeof BUDGET_FIELDS)[number]["key"];
+
+function toLines(patterns?: string[]): string {
+	return (patterns ?? []).join("\n");
+}
+
+function fromLines(text: string): string[] | undefined {
+	const patterns = text
+		.split("\n")
+		.map((line) => line.trim())
+		.filter(Boolean);
+	return patterns.length > 0 ? patterns : undefined;
+}
+
+export function FileRulesForm({ value, onSave, onCancel }: FileRulesFormProps) {
+	const [include, setInclude] = useState(toLines(value?.include));
+	const [exclude, setExclude] = useState(toLines(value?.exclude));
+	const [budgets, setBudgets] = useState<Record<BudgetKey, string>>({
+		maxFiles: value?.maxFiles?.toString() ?? "",
+		maxTotalBytes: value?.maxTotalBytes?.toString() ?? "",
+		maxFileBytes: value?.maxFileBytes?.toString() ?? "",
+	});
+	const [isSaving, setIsSaving] = useState(false);
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		// Blank budgets fall back to the defaults
+		const toNumber = (text: string) =>
+			text.trim() ? Number(text.trim()) : undefined;
+		const rules: FileRules = {
+			include: fromLines(include),
+			exclude: fromLines(exclude),
+			maxFiles: toNumber(budgets.maxFiles),
+			maxTotalBytes: toNumber(budgets.maxTotalBytes),
+			maxFileBytes: toNumber(budgets.maxFileBytes),
+		};
+
+		const error = validateFileRules(rules);
+		if (error) {
+			toast.error(error);
+			return;
+		}
+
+		setIsSaving(true);
+		try {
+			await onSave(rules);
+			toast.success("File rules saved");
+		} catch (error) {
+			toast.error(`Failed to save file rules: ${error}`);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<form onSubmit={handleSubmit}>
+			<FieldGroup>
+				<Field>
+					<FieldLabel htmlFor="file-rules-include">Include</FieldLabel>
+					<FieldDescription>
+						{
+							"Extra files to consider, one glob per line, e.g. *.proto or lib/**/*.ex"
+						}
+					</FieldDescription>
+					<Textarea
+						id="file-rules-include"
+						value={include}
+						onChange={(e) => setInclude(e.target.value)}
+						placeholder="*.dart"
+						rows={3}
+						className="font-mono"
+					/>
+				</Field>
+
+				<Field>
+					<FieldLabel htmlFor="file-rules-exclude">Exclude</FieldLabel>
+					<FieldDescription>
+						{
+							"Files to ignore, one glob per line, e.g. third_party/ or **/*.generated.ts"
+						}
+					</FieldDescription>
+					<Textarea
+						id="file-rules-exclude"
+						value={exclude}
+						onChange={(e) => setExclude(e.target.value)}
+						placeholder="third_party/"
+						rows={3}
+						className="font-mono"
+					/>
+				</Field>
+
+				<div className="grid gap-4 sm:grid-cols-3">
+					{BUDGET_FIELDS.map(({ key, label, placeholder }) => (
+						<Field key={key}>
+							<FieldLabel htmlFor={`file-rules-${key}`}>{label}</FieldLabel>
+							<Input
+								id={`file-rules-${key}`}
+								type="number"
+								min={FILE_RULE_LIMITS[key].min}
+								max={FILE_RULE_LIMITS[key].max}
+								value={budgets[key]}
+								onChange={(e) =>
+									setBudgets((prev) => ({ ...prev, [key]: e.target.value }))
+								}
+								placeholder={placeholder}
+							/>
+						</Field>
+					))}
+				</div>
+
+				<div className="flex justify-end gap-2">
+					{onCancel && (
+						<Button type="button" variant="outline" onClick={onCancel}>
+							Cancel
+						</Button>
+					)}
+					<Button type="submit" disabled={isSaving}>
+						{isSaving && <Spinner className="size-4" />}
+						Save Rules
+					</Button>
+				</div>
+			</FieldGroup>
+		</form>
+	);
+}
@@ -0,0 +1 @@
+export { FileRulesForm } from "./file-rules-form";
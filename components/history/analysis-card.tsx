@@ -16,6 +16,8 @@ import {
 	CardTitle,
 } from "@/components/ui/card";
 import type { Id } from "@/convex/_generated/dataModel";
+import { formatGitHubRef, type GitHubRefType } from "@/lib/github-url";
+import { formatCost } from "@/lib/models";
 
 type AnalysisStatus = "pending" | "running" | "completed" | "failed";
 
@@ -26,11 +28,19 @@ interface AnalysisCardProps {
 		totalItems: number;
 		completedItems: number;
 		failedItems: number;
+		usage?: {
+			inputTokens: number;
+			outputTokens: number;
+			cost: number;
+		};
 		createdAt: number;
 		completedAt?: number;
 		repositoryUrl?: string; // For one-off analyses
 		repositoryOwner?: string;
 		repositoryName?: string;
+		branch?: string;
+		refType?: GitHubRefType;
+		rootPath?: string;
 		repository?: {
 			fullName: string;
 		} | null;
@@ -123,6 +133,29 @@ export function AnalysisCard({ analysis, onClick }: AnalysisCardProps) {
 							<span>{analysis.failedItems} items</span>
 						</div>
 					)}
+					{analysis.branch && (
+						<div className="flex justify-between">
+							<span>Ref</span>
+							<span className="font-mono">
+								{formatGitHubRef({
+									refType: analysis.refType ?? "branch",
+									ref: analysis.branch,
+								})}
+								{analysis.rootPath && `:${analysis.rootPath}`}
+							</span>
+						</div>
+					)}
+					{analysis.usage && (
+						<div className="flex justify-between">
+							<span>Usage</span>
+							<span>
+								{(
+									analysis.usage.inputTokens + analysis.usage.outputTokens
+								).toLocaleString()}{" "}
+								tokens • {formatCost(analysis.usage.cost)}
+							</span>
+						</div>
+					)}
 					<div className="flex justify-between">
 						<span>Created</span>
 						<span>{formatDate(analysis.createdAt)}</span>
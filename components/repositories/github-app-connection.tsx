@@ -0,0 +1,121 @@
+"use client";
+
+import {
+	GithubIcon,
+	Link01Icon,
+	Unlink01Icon,
+} from "@hugeicons/core-free-icons";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { useConvexAuth, useMutation, useQuery } from "convex/react";
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { api } from "@/convex/_generated/api";
+
+// Outcomes reported by the GitHub App setup callback
+const SETUP_MESSAGES: Record<string, string> = {
+	invalid: "GitHub did not return a valid installation",
+	"not-configured": "The GitHub App is not configured on this server",
+	unauthenticated: "Sign in again to link the GitHub App",
+	failed: "Could not verify the GitHub App installation",
+};
+
+export function GitHubAppConnection() {
+	const { isAuthenticated } = useConvexAuth();
+	const user = useQuery(
+		api.users.getCurrentUser,
+		isAuthenticated ? {} : "skip",
+	);
+	const unlinkInstallation = useMutation(api.users.unlinkGitHubInstallation);
+
+	const appSlug = process.env.NEXT_PUBLIC_GITHUB_APP_SLUG;
+
+	// Report the result of the setup callback redirect once
+	useEffect(() => {
+		const params = new URLSearchParams(window.location.search);
+		const status = params.get("github");
+		if (!status) return;
+
+		if (status === "linked") {
+			toast.success("GitHub App linked");
+		} else {
+			toast.error(SETUP_MESSAGES[status] ?? "Failed to link the GitHub App");
+		}
+
+		params.delete("github");
+		const query = params.toString();
+		window.history.replaceState(
+			null,
+			"",
+			`${window.location.pathname}${query ? `?${query}` : ""}`,
+		);
+	}, []);
+
+	const handleUnlink = async () => {
+		try {
+			await unlinkInstallation({});
+			toast.success("GitHub App unlinked");
+		} catch (error) {
+			toast.error(`Failed to unlink GitHub App: ${error}`);
+		}
+	};
+
+	const isLinked = user?.githubInstallationId !== undefined;
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2">
+					<HugeiconsIcon icon={GithubIcon} className="h-5 w-5" />
+					GitHub App
+				</CardTitle>
+				<CardDescription>
+					Install the GitHub App on your account or organization to analyze
+					private repositories. Only the repositories you share with it can be
+					read.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="flex items-center justify-between gap-4">
+				{user === undefined ? (
+					<div className="h-4 bg-muted rounded w-1/3 animate-pulse"></div>
+				) : isLinked ? (
+					<div className="flex items-center gap-2 text-sm">
+						<span className="text-muted-foreground">Linked to</span>
+						<Badge variant="secondary">{user?.githubAccountLogin}</Badge>
+					</div>
+				) : (
+					<span className="text-sm text-muted-foreground">Not linked</span>
+				)}
+
+				{isLinked ? (
+					<Button variant="outline" size="sm" onClick={handleUnlink}>
+						<HugeiconsIcon icon={Unlink01Icon} className="mr-2 h-4 w-4" />
+						Unlink
+					</Button>
+				) : (
+					appSlug && (
+						<Button
+							size="sm"
+							render={
+								<a
+									href={`https://github.com/apps/${appSlug}/installations/new`}
+								/>
+							}
+						>
+							<HugeiconsIcon icon={Link01Icon} className="mr-2 h-4 w-4" />
+							Link GitHub App
+						</Button>
+					)
+				)}
+			</CardContent>
+		</Card>
+	);
+}
@@ -1,3 +1,4 @@
+export { GitHubAppConnection } from "./github-app-connection";
 export { OneOffAnalysisForm } from "./one-off-analysis-form";
 export { RepositoryConnectionForm } from "./repository-connection-form";
 export { RepositoryList } from "./repository-list";
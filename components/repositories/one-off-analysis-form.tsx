@@ -3,9 +3,14 @@ import { HugeiconsIcon } from "@hugeicons/react";
 import { useCallback, useEffect, useState } from "react";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { type ParsedGitHubUrl, parseGitHubUrl } from "@/lib/github-url";
+import {
+	type GitHubRef,
+	getGitHubRef,
+	type ParsedGitHubUrl,
+	parseGitHubUrl,
+} from "@/lib/github-url";
 
-interface OneOffData extends ParsedGitHubUrl {
+interface OneOffData extends ParsedGitHubUrl, GitHubRef {
 	url: string;
 }
 
@@ -48,7 +53,10 @@ export function OneOffAnalysisForm({
 				if (result.success) {
 					validData.push({
 						...result.data,
-						branch: result.data.branch || "main",
+						...(getGitHubRef(result.data) ?? {
+							refType: "branch",
+							ref: "main",
+						}),
 						url: line,
 					});
 				} else {
@@ -152,7 +160,9 @@ export function OneOffAnalysisForm({
 
 				<p className="text-xs text-muted-foreground">
 					Supported formats: https://github.com/owner/repo,
-					https://github.com/owner/repo/tree/branch
+					https://github.com/owner/repo/tree/branch, .../tree/branch/path
+					(analyzes only that directory), .../commit/sha, .../releases/tag/tag,
+					.../pull/123
 				</p>
 			</div>
 		</div>
@@ -6,9 +6,9 @@ import {
 	Loading03Icon,
 } from "@hugeicons/core-free-icons";
 import { HugeiconsIcon } from "@hugeicons/react";
-import { useMutation } from "convex/react";
 import { useState } from "react";
 import { toast } from "sonner";
+import { connectRepositoryWithAccessCheck } from "@/app/actions/repositories";
 import { Button } from "@/components/ui/button";
 import {
 	Card,
@@ -19,7 +19,6 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { api } from "@/convex/_generated/api";
 
 interface RepositoryConnectionFormProps {
 	onSuccess?: () => void;
@@ -35,8 +34,6 @@ export function RepositoryConnectionForm({
 	});
 	const [isLoading, setIsLoading] = useState(false);
 
-	const connectRepository = useMutation(api.repositories.connectRepository);
-
 	const handleSubmit = async (e: React.FormEvent) => {
 		e.preventDefault();
 
@@ -54,14 +51,22 @@ export function RepositoryConnectionForm({
 		try {
 			const fullName = `${formData.owner}/${formData.name}`;
 
-			await connectRepository({
+			// Access is checked server-side, through the linked GitHub App
+			// installation for private repositories
+			const result = await connectRepositoryWithAccessCheck({
 				owner: formData.owner.trim(),
 				name: formData.name.trim(),
-				fullName,
 				defaultBranch: formData.defaultBranch.trim(),
 			});
 
-			toast.success(`Successfully connected ${fullName}`);
+			if (!result.success) {
+				toast.error(`Failed to connect repository: ${result.error}`);
+				return;
+			}
+
+			toast.success(
+				`Successfully connected ${result.isPrivate ? "private repository " : ""}${fullName}`,
+			);
 
 			// Reset form
 			setFormData({
@@ -98,8 +103,8 @@ export function RepositoryConnectionForm({
 					Connect Repository
 				</CardTitle>
 				<CardDescription>
-					Connect a GitHub repository to analyze with AI rubrics. Make sure you
-					have access to the repository.
+					Connect a GitHub repository to analyze with AI rubrics. Private
+					repositories must be shared with your linked GitHub App installation.
 				</CardDescription>
 			</CardHeader>
 			<CardContent>
@@ -154,7 +159,7 @@ export function RepositoryConnectionForm({
 								https://github.com/{fullName}
 							</p>
 							<p className="text-xs text-muted-foreground mt-1">
-								Make sure you have access to this repository
+								Private repositories must be shared with the GitHub App
 							</p>
 						</div>
 					)}
@@ -3,11 +3,15 @@
 import {
 	Calendar03Icon,
 	Delete02Icon,
+	FilterHorizontalIcon,
 	GitBranchIcon,
+	LockIcon,
 } from "@hugeicons/core-free-icons";
 import { HugeiconsIcon } from "@hugeicons/react";
 import { useConvexAuth, useMutation, useQuery } from "convex/react";
+import { useState } from "react";
 import { toast } from "sonner";
+import { FileRulesForm } from "@/components/file-rules/file-rules-form";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -17,8 +21,15 @@ import {
 	CardHeader,
 	CardTitle,
 } from "@/components/ui/card";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
 import { api } from "@/convex/_generated/api";
-import type { Id } from "@/convex/_generated/dataModel";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
 
 export function RepositoryList() {
 	const { isAuthenticated } = useConvexAuth();
@@ -29,6 +40,12 @@ export function RepositoryList() {
 	const disconnectRepository = useMutation(
 		api.repositories.disconnectRepository,
 	);
+	const updateFileRules = useMutation(
+		api.repositories.updateRepositoryFileRules,
+	);
+	const [editingRules, setEditingRules] = useState<Doc<"repositories"> | null>(
+		null,
+	);
 
 	const handleDisconnect = async (
 		repositoryId: Id<"repositories">,
@@ -102,14 +119,27 @@ export function RepositoryList() {
 								<span>Default branch: {repo.defaultBranch}</span>
 							</CardDescription>
 						</div>
-						<Button
-							variant="ghost"
-							size="sm"
-							onClick={() => handleDisconnect(repo._id, repo.fullName)}
-							className="text-destructive hover:text-destructive hover:bg-destructive/10"
-						>
-							<HugeiconsIcon icon={Delete02Icon} className="h-4 w-4" />
-						</Button>
+						<div className="flex items-center gap-1">
+							<Button
+								variant="ghost"
+								size="sm"
+								onClick={() => setEditingRules(repo)}
+								title="File rules"
+							>
+								<HugeiconsIcon
+									icon={FilterHorizontalIcon}
+									className="h-4 w-4"
+								/>
+							</Button>
+							<Button
+								variant="ghost"
+								size="sm"
+								onClick={() => handleDisconnect(repo._id, repo.fullName)}
+								className="text-destructive hover:text-destructive hover:bg-destructive/10"
+							>
+								<HugeiconsIcon icon={Delete02Icon} className="h-4 w-4" />
+							</Button>
+						</div>
 					</CardHeader>
 					<CardContent>
 						<div className="flex items-center justify-between">
@@ -117,11 +147,48 @@ export function RepositoryList() {
 								<HugeiconsIcon icon={Calendar03Icon} className="h-4 w-4" />
 								<span>Connected {formatDate(repo.connectedAt)}</span>
 							</div>
-							<Badge variant="secondary">{repo.owner}</Badge>
+							<div className="flex items-center gap-2">
+								{repo.isPrivate && (
+									<Badge variant="outline">
+										<HugeiconsIcon icon={LockIcon} className="h-3 w-3" />
+										Private
+									</Badge>
+								)}
+								<Badge variant="secondary">{repo.owner}</Badge>
+							</div>
 						</div>
 					</CardContent>
 				</Card>
 			))}
+
+			<Dialog
+				open={editingRules !== null}
+				onOpenChange={(open) => !open && setEditingRules(null)}
+			>
+				<DialogContent className="max-w-2xl">
+					<DialogHeader>
+						<DialogTitle>File rules for {editingRules?.fullName}</DialogTitle>
+						<DialogDescription>
+							Choose which files are analyzed in this repository. Combined with
+							the rubric's own rules.
+						</DialogDescription>
+					</DialogHeader>
+					{editingRules && (
+						<FileRulesForm
+							key={editingRules._id}
+							value={editingRules.fileRules}
+							onSave={async (fileRules) => {
+								await updateFileRules({
+									repositoryId: editingRules._id,
+									fileRules,
+								});
+								setEditingRules(null);
+							}}
+							onCancel={() => setEditingRules(null)}
+						/>
+					)}
+				</DialogContent>
+			</Dialog>
 		</div>
 	);
 }
@@ -0,0 +1,24 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+
+interface AgreementBadgeProps {
+	agreement: number; // Share of samples that agree, 0 to 1
+	sampleCount: number;
+}
+
+// How consistently repeated evaluations agreed, in self-consistency mode
+export function AgreementBadge({
+	agreement,
+	sampleCount,
+}: AgreementBadgeProps) {
+	const agreeing = Math.round(agreement * sampleCount);
+	return (
+		<Badge
+			variant="outline"
+			title={`${agreeing} of ${sampleCount} samples agree with this result`}
+		>
+			{Math.round(agreement * 100)}% agreement
+		</Badge>
+	);
+}
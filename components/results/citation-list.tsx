@@ -0,0 +1,91 @@
+"use client";
+
+import { File01Icon } from "@hugeicons/core-free-icons";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { Badge } from "@/components/ui/badge";
+import { constructGitHubFileUrl } from "@/lib/github-url";
+
+export interface Citation {
+	filePath: string;
+	lineStart: number;
+	lineEnd: number;
+	quote: string;
+	// False when the quote couldn't be found in the cited file
+	verified: boolean;
+}
+
+export interface CitationRepository {
+	owner: string;
+	name: string;
+	branch: string;
+	commitSha?: string;
+}
+
+interface CitationListProps {
+	citations: Citation[];
+	repository?: CitationRepository;
+}
+
+// The evidence behind a verdict, linked to the analyzed commit on GitHub
+export function CitationList({ citations, repository }: CitationListProps) {
+	if (citations.length === 0) {
+		return null;
+	}
+
+	const hasRepository =
+		!!repository?.owner && !!repository?.name && !!repository?.branch;
+
+	return (
+		<div className="text-sm">
+			<p className="font-medium text-foreground mb-1">Evidence</p>
+			<ul className="space-y-1">
+				{citations.map((citation, index) => (
+					<li
+						key={`${citation.filePath}-${citation.lineStart}-${citation.lineEnd}-${index}`}
+						className="flex items-center gap-2"
+						title={citation.quote}
+					>
+						<HugeiconsIcon
+							icon={File01Icon}
+							className="size-4 shrink-0 text-muted-foreground"
+						/>
+						{hasRepository ? (
+							<a
+								href={constructGitHubFileUrl({
+									owner: repository!.owner,
+									repo: repository!.name,
+									branch: repository!.branch,
+									commitSha: repository!.commitSha,
+									filePath: citation.filePath,
+									lineStart: citation.lineStart,
+									lineEnd: citation.lineEnd,
+								})}
+								target="_blank"
+								rel="noreferrer"
+								className="truncate font-mono text-muted-foreground hover:text-foreground hover:underline"
+							>
+								{citation.filePath}
+							</a>
+						) : (
+							<span className="truncate font-mono text-muted-foreground">
+								{citation.filePath}
+							</span>
+						)}
+						<Badge variant="outline" className="text-xs">
+							L{citation.lineStart}-{citation.lineEnd}
+						</Badge>
+						{!citation.verified && (
+							<Badge
+								variant="destructive"
+								className="text-xs"
+								title="The quoted code wasn't found in this file, so this citation may be inaccurate"
+							>
+								Unverified
+							</Badge>
+						)}
+					</li>
+				))}
+			</ul>
+		</div>
+	);
+}
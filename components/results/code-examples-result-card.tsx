@@ -22,6 +22,10 @@ export interface CodeExample {
 	lineEnd: number;
 	code: string;
 	explanation: string;
+	// How the snippet matched the repository; missing on older results
+	verified?: "exact" | "whitespace" | "fuzzy" | "not_found";
+	// Set for examples inside a pull request's changes
+	diffUrl?: string;
 }
 
 export interface CodeExamplesResult {
@@ -36,9 +40,42 @@ interface CodeExamplesResultCardProps {
 		owner: string;
 		name: string;
 		branch: string;
+		commitSha?: string;
 	};
 }
 
+const verificationBadges: Record<
+	NonNullable<CodeExample["verified"]>,
+	{
+		label: string;
+		variant: "secondary" | "outline" | "destructive";
+		description: string;
+	}
+> = {
+	exact: {
+		label: "Verified",
+		variant: "secondary",
+		description: "This snippet matches the repository exactly",
+	},
+	whitespace: {
+		label: "Verified",
+		variant: "secondary",
+		description: "This snippet matches the repository apart from whitespace",
+	},
+	fuzzy: {
+		label: "Close match",
+		variant: "outline",
+		description:
+			"The suggested snippet was close to these lines, which are shown instead",
+	},
+	not_found: {
+		label: "Not found",
+		variant: "destructive",
+		description:
+			"This snippet couldn't be found in the repository and may be inaccurate",
+	},
+};
+
 function getLanguageFromPath(filePath: string): string {
 	const extension = filePath.split(".").pop()?.toLowerCase() ?? "";
 	const languageMap: Record<string, string> = {
@@ -111,6 +148,7 @@ export function CodeExamplesResultCard({
 										owner: repository!.owner,
 										repo: repository!.name,
 										branch: repository!.branch,
+										commitSha: repository!.commitSha,
 										filePath: example.filePath,
 										lineStart: example.lineStart,
 										lineEnd: example.lineEnd,
@@ -129,6 +167,25 @@ export function CodeExamplesResultCard({
 							<Badge variant="outline" className="text-xs">
 								L{example.lineStart}-{example.lineEnd}
 							</Badge>
+							{example.verified && (
+								<Badge
+									variant={verificationBadges[example.verified].variant}
+									className="text-xs"
+									title={verificationBadges[example.verified].description}
+								>
+									{verificationBadges[example.verified].label}
+								</Badge>
+							)}
+							{example.diffUrl && (
+								<a
+									href={example.diffUrl}
+									target="_blank"
+									rel="noreferrer"
+									className="text-xs text-muted-foreground hover:text-foreground hover:underline"
+								>
+									View in diff
+								</a>
+							)}
 						</div>
 						<div className="rounded-lg overflow-hidden border">
 							<SyntaxHighlighter
@@ -9,21 +9,30 @@ import {
 	CardHeader,
 	CardTitle,
 } from "@/components/ui/card";
+import {
+	type Citation,
+	CitationList,
+	type CitationRepository,
+} from "./citation-list";
 
 export interface CommentsResult {
 	feedback: string;
+	citations?: Citation[];
+	justification?: string; // Set when the item requires one
 }
 
 interface CommentsResultCardProps {
 	itemName: string;
 	itemDescription: string;
 	result: CommentsResult;
+	repository?: CitationRepository;
 }
 
 export function CommentsResultCard({
 	itemName,
 	itemDescription,
 	result,
+	repository,
 }: CommentsResultCardProps) {
 	return (
 		<Card>
@@ -31,12 +40,25 @@ export function CommentsResultCard({
 				<CardTitle>{itemName}</CardTitle>
 				<CardDescription>{itemDescription}</CardDescription>
 			</CardHeader>
-			<CardContent>
+			<CardContent className="space-y-4">
 				<div className="prose prose-sm dark:prose-invert max-w-none">
 					<ReactMarkdown remarkPlugins={[remarkGfm]}>
 						{result.feedback}
 					</ReactMarkdown>
 				</div>
+				{result.justification && (
+					<div className="text-sm">
+						<p className="font-medium text-foreground mb-1">Justification</p>
+						<div className="prose prose-sm dark:prose-invert max-w-none text-muted-foreground">
+							<ReactMarkdown remarkPlugins={[remarkGfm]}>
+								{result.justification}
+							</ReactMarkdown>
+						</div>
+					</div>
+				)}
+				{result.citations && (
+					<CitationList citations={result.citations} repository={repository} />
+				)}
 			</CardContent>
 		</Card>
 	);
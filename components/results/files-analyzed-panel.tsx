@@ -0,0 +1,152 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+export interface FetchManifest {
+	included: Array<{
+		path: string;
+		size: number;
+		language: string;
+		hash: string;
+	}>;
+	skipped: Array<{ path: string; reason: string; size?: number }>;
+	totals: {
+		listedFiles: number;
+		includedFiles: number;
+		includedBytes: number;
+		skippedFiles: number;
+		skippedByReason: Array<{ reason: string; count: number }>;
+	};
+}
+
+interface FilesAnalyzedPanelProps {
+	manifest: FetchManifest;
+}
+
+function formatBytes(bytes: number): string {
+	if (bytes < 1024) {
+		return `${bytes} B`;
+	}
+	if (bytes < 1024 * 1024) {
+		return `${(bytes / 1024).toFixed(1)} KB`;
+	}
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function FilesAnalyzedPanel({ manifest }: FilesAnalyzedPanelProps) {
+	const { included, skipped, totals } = manifest;
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Files Analyzed</CardTitle>
+				<CardDescription>
+					{totals.includedFiles} of {totals.listedFiles} listed files (
+					{formatBytes(totals.includedBytes)}) were sent to the AI model
+				</CardDescription>
+			</CardHeader>
+			<CardContent>
+				<Tabs defaultValue="included">
+					<TabsList>
+						<TabsTrigger value="included">
+							Included ({totals.includedFiles})
+						</TabsTrigger>
+						<TabsTrigger value="skipped">
+							Skipped ({totals.skippedFiles})
+						</TabsTrigger>
+					</TabsList>
+
+					<TabsContent value="included" className="mt-4">
+						<div className="max-h-96 overflow-auto">
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead>Path</TableHead>
+										<TableHead>Language</TableHead>
+										<TableHead className="text-right">Size</TableHead>
+										<TableHead>SHA-256</TableHead>
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{included.map((file) => (
+										<TableRow key={file.path}>
+											<TableCell className="font-mono text-xs">
+												{file.path}
+											</TableCell>
+											<TableCell>{file.language}</TableCell>
+											<TableCell className="text-right">
+												{formatBytes(file.size)}
+											</TableCell>
+											<TableCell
+												className="font-mono text-xs text-muted-foreground"
+												title={file.hash}
+											>
+												{file.hash.slice(0, 12)}
+											</TableCell>
+										</TableRow>
+									))}
+								</TableBody>
+							</Table>
+						</div>
+					</TabsContent>
+
+					<TabsContent value="skipped" className="mt-4 space-y-4">
+						<div className="flex flex-wrap gap-2">
+							{totals.skippedByReason.map(({ reason, count }) => (
+								<Badge key={reason} variant="secondary">
+									{reason}: {count}
+								</Badge>
+							))}
+						</div>
+						{skipped.length < totals.skippedFiles && (
+							<p className="text-sm text-muted-foreground">
+								Showing the first {skipped.length} of {totals.skippedFiles}{" "}
+								skipped files
+							</p>
+						)}
+						<div className="max-h-96 overflow-auto">
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead>Path</TableHead>
+										<TableHead>Reason</TableHead>
+										<TableHead className="text-right">Size</TableHead>
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{skipped.map((file) => (
+										<TableRow key={file.path}>
+											<TableCell className="font-mono text-xs">
+												{file.path}
+											</TableCell>
+											<TableCell>{file.reason}</TableCell>
+											<TableCell className="text-right">
+												{file.size !== undefined ? formatBytes(file.size) : "—"}
+											</TableCell>
+										</TableRow>
+									))}
+								</TableBody>
+							</Table>
+						</div>
+					</TabsContent>
+				</Tabs>
+			</CardContent>
+		</Card>
+	);
+}
@@ -1,3 +1,9 @@
+export { AgreementBadge } from "./agreement-badge";
+export {
+	type Citation,
+	CitationList,
+	type CitationRepository,
+} from "./citation-list";
 export {
 	type CodeExample,
 	type CodeExamplesResult,
@@ -7,6 +13,10 @@ export {
 	type CommentsResult,
 	CommentsResultCard,
 } from "./comments-result-card";
+export {
+	type FetchManifest,
+	FilesAnalyzedPanel,
+} from "./files-analyzed-panel";
 export {
 	type OptionsResult,
 	OptionsResultCard,
@@ -19,4 +29,9 @@ export {
 	ResultsView,
 	type RubricItem,
 } from "./results-view";
+export {
+	type AnalysisUsage,
+	type ItemUsage,
+	UsagePanel,
+} from "./usage-panel";
 export { type YesNoResult, YesNoResultCard } from "./yes-no-result-card";
@@ -1,5 +1,7 @@
 "use client";
 
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
 import { Badge } from "@/components/ui/badge";
 import {
 	Card,
@@ -8,34 +10,51 @@ import {
 	CardHeader,
 	CardTitle,
 } from "@/components/ui/card";
+import { OTHER_OPTION } from "@/lib/utils";
+import {
+	type Citation,
+	CitationList,
+	type CitationRepository,
+} from "./citation-list";
 
 export interface OptionsResult {
 	selections: string[];
+	otherValue?: string; // The free-text answer behind an "Other" selection
+	rationales?: Array<{ option: string; rationale: string }>;
+	citations?: Citation[];
+	justification?: string; // Set when the item requires one
 }
 
 interface OptionsResultCardProps {
 	itemName: string;
 	itemDescription: string;
 	result: OptionsResult;
+	repository?: CitationRepository;
 }
 
 export function OptionsResultCard({
 	itemName,
 	itemDescription,
 	result,
+	repository,
 }: OptionsResultCardProps) {
+	const getLabel = (selection: string) =>
+		result.otherValue && selection.toLowerCase() === OTHER_OPTION.toLowerCase()
+			? `${selection}: ${result.otherValue}`
+			: selection;
+
 	return (
 		<Card>
 			<CardHeader>
 				<CardTitle>{itemName}</CardTitle>
 				<CardDescription>{itemDescription}</CardDescription>
 			</CardHeader>
-			<CardContent>
+			<CardContent className="space-y-4">
 				{result.selections.length > 0 ? (
 					<div className="flex flex-wrap gap-2">
 						{result.selections.map((selection, index) => (
 							<Badge key={`${selection}-${index}`} variant="secondary">
-								{selection}
+								{getLabel(selection)}
 							</Badge>
 						))}
 					</div>
@@ -44,6 +63,30 @@ export function OptionsResultCard({
 						No selections returned.
 					</p>
 				)}
+				{result.rationales && result.rationales.length > 0 && (
+					<div className="text-sm space-y-1">
+						<p className="font-medium text-foreground">Rationale</p>
+						{result.rationales.map(({ option, rationale }) => (
+							<p key={option} className="text-muted-foreground">
+								<span className="font-medium text-foreground">{option}:</span>{" "}
+								{rationale}
+							</p>
+						))}
+					</div>
+				)}
+				{result.justification && (
+					<div className="text-sm">
+						<p className="font-medium text-foreground mb-1">Justification</p>
+						<div className="prose prose-sm dark:prose-invert max-w-none text-muted-foreground">
+							<ReactMarkdown remarkPlugins={[remarkGfm]}>
+								{result.justification}
+							</ReactMarkdown>
+						</div>
+					</div>
+				)}
+				{result.citations && (
+					<CitationList citations={result.citations} repository={repository} />
+				)}
 			</CardContent>
 		</Card>
 	);
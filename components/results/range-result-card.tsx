@@ -11,18 +11,29 @@ import {
 	CardTitle,
 } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
+import { AgreementBadge } from "./agreement-badge";
+import {
+	type Citation,
+	CitationList,
+	type CitationRepository,
+} from "./citation-list";
 
 export interface RangeResult {
 	value: number;
 	min: number;
 	max: number;
 	rationale: string;
+	citations?: Citation[];
+	// Set in self-consistency mode
+	agreement?: number;
+	sampleCount?: number;
 }
 
 interface RangeResultCardProps {
 	itemName: string;
 	itemDescription: string;
 	result: RangeResult;
+	repository?: CitationRepository;
 }
 
 function getScoreColor(value: number, min: number, max: number): string {
@@ -45,6 +56,7 @@ export function RangeResultCard({
 	itemName,
 	itemDescription,
 	result,
+	repository,
 }: RangeResultCardProps) {
 	const percentage =
 		((result.value - result.min) / (result.max - result.min)) * 100;
@@ -56,12 +68,20 @@ export function RangeResultCard({
 			<CardHeader>
 				<div className="flex items-center justify-between">
 					<CardTitle>{itemName}</CardTitle>
-					<Badge
-						variant="outline"
-						className={cn("text-base font-bold", scoreColor)}
-					>
-						{result.value} / {result.max}
-					</Badge>
+					<div className="flex items-center gap-2">
+						{result.agreement !== undefined && result.sampleCount && (
+							<AgreementBadge
+								agreement={result.agreement}
+								sampleCount={result.sampleCount}
+							/>
+						)}
+						<Badge
+							variant="outline"
+							className={cn("text-base font-bold", scoreColor)}
+						>
+							{result.value} / {result.max}
+						</Badge>
+					</div>
 				</div>
 				<CardDescription>{itemDescription}</CardDescription>
 			</CardHeader>
@@ -89,6 +109,9 @@ export function RangeResultCard({
 						</ReactMarkdown>
 					</div>
 				</div>
+				{result.citations && (
+					<CitationList citations={result.citations} repository={repository} />
+				)}
 			</CardContent>
 		</Card>
 	);
@@ -16,6 +16,12 @@ import {
 	CardTitle,
 } from "@/components/ui/card";
 import { exportAsJSON, exportAsMarkdown } from "@/lib/export";
+import {
+	constructGitHubCommitUrl,
+	formatGitHubRef,
+	type GitHubRefType,
+} from "@/lib/github-url";
+import { formatCost } from "@/lib/models";
 import {
 	type CodeExamplesResult,
 	CodeExamplesResultCard,
@@ -26,6 +32,12 @@ import {
 } from "./comments-result-card";
 import { type OptionsResult, OptionsResultCard } from "./options-result-card";
 import { type RangeResult, RangeResultCard } from "./range-result-card";
+import {
+	type AnalysisUsage,
+	formatTokens,
+	type ItemUsage,
+	UsagePanel,
+} from "./usage-panel";
 import { type YesNoResult, YesNoResultCard } from "./yes-no-result-card";
 
 export type EvaluationType =
@@ -48,6 +60,7 @@ export interface RubricItem {
 		options?: string[];
 		allowMultiple?: boolean;
 		maxSelections?: number;
+		allowOther?: boolean;
 	};
 }
 
@@ -62,6 +75,7 @@ export interface AnalysisResult {
 		| CodeExamplesResult
 		| OptionsResult;
 	error?: string;
+	usage?: ItemUsage;
 	rubricItem?: RubricItem;
 }
 
@@ -71,8 +85,14 @@ export interface Analysis {
 	totalItems: number;
 	completedItems: number;
 	failedItems: number;
+	usage?: AnalysisUsage;
 	createdAt: number;
 	completedAt?: number;
+	refType?: GitHubRefType;
+	scope?: "repository" | "diff";
+	commitSha?: string;
+	treeTruncated?: boolean;
+	rootPath?: string;
 	repository?: {
 		fullName: string;
 		owner: string;
@@ -94,6 +114,22 @@ export function ResultsView({ analysis }: ResultsViewProps) {
 		(r) => r.status === "completed" && r.result && r.rubricItem,
 	);
 	const failedResults = analysis.results.filter((r) => r.status === "failed");
+	const usageItems = analysis.results.flatMap((r) =>
+		r.usage
+			? [
+					{
+						_id: r._id,
+						name: r.rubricItem?.name ?? "Unknown Item",
+						usage: r.usage,
+					},
+				]
+			: [],
+	);
+	// Permalinks for code examples and citations point at the analyzed commit
+	const repository = analysis.repository && {
+		...analysis.repository,
+		commitSha: analysis.commitSha,
+	};
 
 	const handleExportJSON = () => {
 		const json = exportAsJSON(analysis);
@@ -126,9 +162,43 @@ export function ResultsView({ analysis }: ResultsViewProps) {
 							<CardTitle>Analysis Results</CardTitle>
 							<CardDescription>
 								{analysis.repository?.fullName} • {analysis.rubric?.name}
+								{analysis.repository && (
+									<>
+										{" "}
+										•{" "}
+										{formatGitHubRef({
+											refType: analysis.refType ?? "branch",
+											ref: analysis.repository.branch,
+										})}
+										{analysis.rootPath && (
+											<span className="font-mono">:{analysis.rootPath}</span>
+										)}
+										{analysis.commitSha && (
+											<>
+												{" @ "}
+												<a
+													href={constructGitHubCommitUrl(
+														analysis.repository.owner,
+														analysis.repository.name,
+														analysis.commitSha,
+													)}
+													target="_blank"
+													rel="noreferrer"
+													title={analysis.commitSha}
+													className="font-mono hover:text-foreground hover:underline"
+												>
+													{analysis.commitSha.slice(0, 7)}
+												</a>
+											</>
+										)}
+									</>
+								)}
 							</CardDescription>
 						</div>
 						<div className="flex items-center gap-2">
+							{analysis.scope === "diff" && (
+								<Badge variant="outline">Changes only</Badge>
+							)}
 							<Badge variant="secondary">
 								{analysis.completedItems}/{analysis.totalItems} completed
 							</Badge>
@@ -137,10 +207,25 @@ export function ResultsView({ analysis }: ResultsViewProps) {
 									{analysis.failedItems} failed
 								</Badge>
 							)}
+							{analysis.usage && (
+								<Badge variant="outline">
+									{formatTokens(
+										analysis.usage.inputTokens + analysis.usage.outputTokens,
+									)}{" "}
+									tokens • {formatCost(analysis.usage.cost)}
+								</Badge>
+							)}
 						</div>
 					</div>
 				</CardHeader>
-				<CardContent>
+				<CardContent className="space-y-4">
+					{analysis.treeTruncated && (
+						<div className="flex items-center gap-2 p-3 rounded-lg bg-muted text-sm text-muted-foreground">
+							<HugeiconsIcon icon={AlertCircleIcon} className="size-4" />
+							The file listing for this repository was too large to read in
+							full, so only part of it was analyzed.
+						</div>
+					)}
 					<div className="flex gap-2">
 						<Button variant="outline" size="sm" onClick={handleExportJSON}>
 							<HugeiconsIcon icon={Download01Icon} className="size-4" />
@@ -193,6 +278,7 @@ export function ResultsView({ analysis }: ResultsViewProps) {
 									itemName={item.name}
 									itemDescription={item.description}
 									result={evaluationResult as YesNoResult}
+									repository={repository}
 								/>
 							);
 						case "range":
@@ -202,6 +288,7 @@ export function ResultsView({ analysis }: ResultsViewProps) {
 									itemName={item.name}
 									itemDescription={item.description}
 									result={evaluationResult as RangeResult}
+									repository={repository}
 								/>
 							);
 						case "comments":
@@ -211,6 +298,7 @@ export function ResultsView({ analysis }: ResultsViewProps) {
 									itemName={item.name}
 									itemDescription={item.description}
 									result={evaluationResult as CommentsResult}
+									repository={repository}
 								/>
 							);
 						case "code_examples":
@@ -220,7 +308,7 @@ export function ResultsView({ analysis }: ResultsViewProps) {
 									itemName={item.name}
 									itemDescription={item.description}
 									result={evaluationResult as CodeExamplesResult}
-									repository={analysis.repository}
+									repository={repository}
 								/>
 							);
 						case "options":
@@ -230,6 +318,7 @@ export function ResultsView({ analysis }: ResultsViewProps) {
 									itemName={item.name}
 									itemDescription={item.description}
 									result={evaluationResult as OptionsResult}
+									repository={repository}
 								/>
 							);
 						default:
@@ -238,6 +327,10 @@ export function ResultsView({ analysis }: ResultsViewProps) {
 				})}
 			</div>
 
+			{analysis.usage && usageItems.length > 0 && (
+				<UsagePanel usage={analysis.usage} items={usageItems} />
+			)}
+
 			{completedResults.length === 0 && failedResults.length === 0 && (
 				<Card>
 					<CardContent className="py-8 text-center text-muted-foreground">
@@ -0,0 +1,92 @@
+"use client";
+
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { formatCost } from "@/lib/models";
+
+export interface ItemUsage {
+	modelId: string;
+	inputTokens: number;
+	outputTokens: number;
+	latencyMs: number;
+	cost: number; // USD
+}
+
+export interface AnalysisUsage {
+	inputTokens: number;
+	outputTokens: number;
+	cost: number; // USD
+}
+
+interface UsagePanelProps {
+	usage: AnalysisUsage;
+	items: Array<{ _id: string; name: string; usage: ItemUsage }>;
+}
+
+export function formatTokens(tokens: number): string {
+	return tokens.toLocaleString();
+}
+
+export function UsagePanel({ usage, items }: UsagePanelProps) {
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Usage</CardTitle>
+				<CardDescription>
+					{formatTokens(usage.inputTokens)} input and{" "}
+					{formatTokens(usage.outputTokens)} output tokens,{" "}
+					{formatCost(usage.cost)} in total
+				</CardDescription>
+			</CardHeader>
+			<CardContent>
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Item</TableHead>
+							<TableHead>Model</TableHead>
+							<TableHead className="text-right">Input</TableHead>
+							<TableHead className="text-right">Output</TableHead>
+							<TableHead className="text-right">Latency</TableHead>
+							<TableHead className="text-right">Cost</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{items.map((item) => (
+							<TableRow key={item._id}>
+								<TableCell>{item.name}</TableCell>
+								<TableCell className="font-mono text-xs">
+									{item.usage.modelId}
+								</TableCell>
+								<TableCell className="text-right">
+									{formatTokens(item.usage.inputTokens)}
+								</TableCell>
+								<TableCell className="text-right">
+									{formatTokens(item.usage.outputTokens)}
+								</TableCell>
+								<TableCell className="text-right">
+									{(item.usage.latencyMs / 1000).toFixed(1)}s
+								</TableCell>
+								<TableCell className="text-right">
+									{formatCost(item.usage.cost)}
+								</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+			</CardContent>
+		</Card>
+	);
+}
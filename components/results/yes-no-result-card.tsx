@@ -15,39 +15,59 @@ import {
 	CardHeader,
 	CardTitle,
 } from "@/components/ui/card";
+import { AgreementBadge } from "./agreement-badge";
+import {
+	type Citation,
+	CitationList,
+	type CitationRepository,
+} from "./citation-list";
 
 export interface YesNoResult {
 	value: boolean;
 	justification: string;
+	citations?: Citation[];
+	// Set in self-consistency mode
+	agreement?: number;
+	sampleCount?: number;
 }
 
 interface YesNoResultCardProps {
 	itemName: string;
 	itemDescription: string;
 	result: YesNoResult;
+	repository?: CitationRepository;
 }
 
 export function YesNoResultCard({
 	itemName,
 	itemDescription,
 	result,
+	repository,
 }: YesNoResultCardProps) {
 	return (
 		<Card>
 			<CardHeader>
 				<div className="flex items-center justify-between">
 					<CardTitle>{itemName}</CardTitle>
-					<Badge variant={result.value ? "default" : "destructive"}>
-						<HugeiconsIcon
-							icon={result.value ? CheckmarkCircle02Icon : Cancel01Icon}
-							className="size-3"
-						/>
-						{result.value ? "Yes" : "No"}
-					</Badge>
+					<div className="flex items-center gap-2">
+						{result.agreement !== undefined && result.sampleCount && (
+							<AgreementBadge
+								agreement={result.agreement}
+								sampleCount={result.sampleCount}
+							/>
+						)}
+						<Badge variant={result.value ? "default" : "destructive"}>
+							<HugeiconsIcon
+								icon={result.value ? CheckmarkCircle02Icon : Cancel01Icon}
+								className="size-3"
+							/>
+							{result.value ? "Yes" : "No"}
+						</Badge>
+					</div>
 				</div>
 				<CardDescription>{itemDescription}</CardDescription>
 			</CardHeader>
-			<CardContent>
+			<CardContent className="space-y-4">
 				<div className="text-sm">
 					<p className="font-medium text-foreground mb-1">Justification</p>
 					<div className="prose prose-sm dark:prose-invert max-w-none text-muted-foreground">
@@ -56,6 +76,9 @@ export function YesNoResultCard({
 						</ReactMarkdown>
 					</div>
 				</div>
+				{result.citations && (
+					<CitationList citations={result.citations} repository={repository} />
+				)}
 			</CardContent>
 		</Card>
 	);
@@ -19,10 +19,14 @@ interface RubricItemConfig {
 	minValue?: number;
 	maxValue?: number;
 	rangeGuidance?: string;
+	rangeStep?: number;
 	maxExamples?: number;
 	options?: string[];
 	allowMultiple?: boolean;
 	maxSelections?: number;
+	allowOther?: boolean;
+	modelId?: string;
+	samples?: number;
 }
 
 interface EvaluationTypeConfigProps {
@@ -42,7 +46,9 @@ export function EvaluationTypeConfig({
 		case "range":
 			return <RangeConfig key="range" config={config} onChange={onChange} />;
 		case "comments":
-			return <CommentsConfig key="comments" />;
+			return (
+				<CommentsConfig key="comments" config={config} onChange={onChange} />
+			);
 		case "code_examples":
 			return (
 				<CodeExamplesConfig
@@ -60,12 +66,15 @@ export function EvaluationTypeConfig({
 	}
 }
 
-function YesNoConfig({
+// Shared with the rubric item wizard
+export function RequireJustificationField({
 	config,
 	onChange,
+	description,
 }: {
 	config: RubricItemConfig;
 	onChange: (config: RubricItemConfig) => void;
+	description: string;
 }) {
 	return (
 		<Field orientation="horizontal">
@@ -79,13 +88,60 @@ function YesNoConfig({
 			<FieldLabel htmlFor="require-justification">
 				Require justification
 			</FieldLabel>
+			<FieldDescription>{description}</FieldDescription>
+		</Field>
+	);
+}
+
+// Shared with the rubric item wizard
+export function RangeStepField({
+	config,
+	onChange,
+}: {
+	config: RubricItemConfig;
+	onChange: (config: RubricItemConfig) => void;
+}) {
+	return (
+		<Field>
+			<FieldLabel htmlFor="range-step">Score Step</FieldLabel>
 			<FieldDescription>
-				AI will provide reasoning for its yes/no answer
+				Only allow scores this far apart, counting up from the minimum. Use 1
+				for whole numbers; leave empty to allow any score.
 			</FieldDescription>
+			<Input
+				id="range-step"
+				type="number"
+				value={config.rangeStep?.toString() ?? ""}
+				onChange={(e) =>
+					onChange({
+						...config,
+						rangeStep: e.target.value ? Number(e.target.value) : undefined,
+					})
+				}
+				placeholder="1"
+				min={0}
+				step="any"
+			/>
 		</Field>
 	);
 }
 
+function YesNoConfig({
+	config,
+	onChange,
+}: {
+	config: RubricItemConfig;
+	onChange: (config: RubricItemConfig) => void;
+}) {
+	return (
+		<RequireJustificationField
+			config={config}
+			onChange={onChange}
+			description="AI will provide reasoning for its yes/no answer"
+		/>
+	);
+}
+
 function RangeConfig({
 	config,
 	onChange,
@@ -130,6 +186,7 @@ function RangeConfig({
 					/>
 				</Field>
 			</div>
+			<RangeStepField config={config} onChange={onChange} />
 			<Field>
 				<FieldLabel htmlFor="range-guidance">
 					Score Guidance <span className="text-destructive">*</span>
@@ -156,14 +213,32 @@ function RangeConfig({
 					</p>
 				)}
 			</Field>
+			<RequireJustificationField
+				config={config}
+				onChange={onChange}
+				description="Fail the item if the AI gives no rationale for its score"
+			/>
 		</div>
 	);
 }
 
-function CommentsConfig() {
+function CommentsConfig({
+	config,
+	onChange,
+}: {
+	config: RubricItemConfig;
+	onChange: (config: RubricItemConfig) => void;
+}) {
 	return (
-		<div className="text-muted-foreground text-sm">
-			The AI will provide free-form text feedback for this criterion.
+		<div className="space-y-4">
+			<div className="text-muted-foreground text-sm">
+				The AI will provide free-form text feedback for this criterion.
+			</div>
+			<RequireJustificationField
+				config={config}
+				onChange={onChange}
+				description="AI will explain the reasoning behind its feedback"
+			/>
 		</div>
 	);
 }
@@ -269,6 +344,20 @@ function OptionsConfig({
 				</FieldDescription>
 			</Field>
 
+			<Field orientation="horizontal">
+				<Checkbox
+					id="allow-other"
+					checked={config.allowOther ?? false}
+					onCheckedChange={(checked) =>
+						onChange({ ...config, allowOther: checked === true })
+					}
+				/>
+				<FieldLabel htmlFor="allow-other">Allow "Other"</FieldLabel>
+				<FieldDescription>
+					Let the AI answer in its own words when no option fits
+				</FieldDescription>
+			</Field>
+
 			{allowMultiple && (
 				<Field>
 					<FieldLabel htmlFor="max-selections">Maximum Selections</FieldLabel>
@@ -293,6 +382,12 @@ function OptionsConfig({
 					/>
 				</Field>
 			)}
+
+			<RequireJustificationField
+				config={config}
+				onChange={onChange}
+				description="AI will explain why the selected options apply"
+			/>
 		</div>
 	);
 }
@@ -0,0 +1,68 @@
+"use client";
+
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { getSelectableModels, MODELS, type ModelInfo } from "@/lib/models";
+
+// Select value standing in for "no override"
+const INHERIT = "inherit";
+
+interface ModelPickerProps {
+	id?: string;
+	value?: string;
+	onChange: (modelId: string | undefined) => void;
+	// Shown for the "no override" choice, e.g. "Rubric default"
+	inheritLabel: string;
+	disabled?: boolean;
+}
+
+function describeModel(model: ModelInfo): string {
+	if (model.provider === "mock") {
+		return "offline, free";
+	}
+	const perMillion = (cost: number) => `$${(cost * 1_000_000).toFixed(2)}`;
+	return `${Math.round(model.contextWindow / 1000)}K context, ${perMillion(model.inputCostPerToken)} / ${perMillion(model.outputCostPerToken)} per 1M tokens`;
+}
+
+export function ModelPicker({
+	id,
+	value,
+	onChange,
+	inheritLabel,
+	disabled,
+}: ModelPickerProps) {
+	const selected = MODELS.find((model) => model.id === value);
+
+	return (
+		<Select
+			value={value ?? INHERIT}
+			onValueChange={(next) => {
+				if (next === null) return;
+				onChange(next === INHERIT ? undefined : next);
+			}}
+			disabled={disabled}
+		>
+			<SelectTrigger id={id} className="w-full sm:w-80">
+				<SelectValue>{selected?.label ?? inheritLabel}</SelectValue>
+			</SelectTrigger>
+			<SelectContent>
+				<SelectItem value={INHERIT}>{inheritLabel}</SelectItem>
+				{getSelectableModels().map((model) => (
+					<SelectItem key={model.id} value={model.id}>
+						<div className="flex flex-col">
+							<span>{model.label}</span>
+							<span className="text-xs text-muted-foreground">
+								{describeModel(model)}
+							</span>
+						</div>
+					</SelectItem>
+				))}
+			</SelectContent>
+		</Select>
+	);
+}
@@ -9,9 +9,17 @@ import { HugeiconsIcon } from "@hugeicons/react";
 import { useForm } from "@tanstack/react-form";
 import { useMutation, useQuery } from "convex/react";
 import { useState } from "react";
+import { toast } from "sonner";
 import * as z from "zod";
+import { FileRulesForm } from "@/components/file-rules/file-rules-form";
 import { Button } from "@/components/ui/button";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
 import {
 	Field,
 	FieldDescription,
@@ -24,6 +32,8 @@ import { Spinner } from "@/components/ui/spinner";
 import { Textarea } from "@/components/ui/textarea";
 import { api } from "@/convex/_generated/api";
 import type { Id } from "@/convex/_generated/dataModel";
+import { DEFAULT_MODEL_ID, getModel } from "@/lib/models";
+import { ModelPicker } from "./model-picker";
 import { RubricItemWizard } from "./rubric-item-wizard";
 
 interface RubricFormProps {
@@ -109,10 +119,13 @@ export function RubricForm({
 			minValue?: number;
 			maxValue?: number;
 			rangeGuidance?: string;
+			rangeStep?: number;
 			maxExamples?: number;
 			options?: string[];
 			allowMultiple?: boolean;
 			maxSelections?: number;
+			allowOther?: boolean;
+			modelId?: string;
 		};
 	}) => {
 		if (!rubricId) return;
@@ -226,6 +239,53 @@ export function RubricForm({
 				</CardContent>
 			</Card>
 
+			{isEditing && rubricId && existingRubric && (
+				<Card>
+					<CardHeader>
+						<CardTitle>Model</CardTitle>
+						<CardDescription>
+							The AI model that evaluates this rubric's items. Items can
+							override it.
+						</CardDescription>
+					</CardHeader>
+					<CardContent>
+						<ModelPicker
+							id="rubric-model"
+							value={existingRubric.modelId}
+							inheritLabel={`Default (${getModel(DEFAULT_MODEL_ID).label})`}
+							onChange={async (modelId) => {
+								try {
+									await updateRubric({ rubricId, modelId: modelId ?? null });
+									toast.success("Model updated");
+								} catch (error) {
+									toast.error(`Failed to update model: ${error}`);
+								}
+							}}
+						/>
+					</CardContent>
+				</Card>
+			)}
+
+			{isEditing && rubricId && existingRubric && (
+				<Card>
+					<CardHeader>
+						<CardTitle>File Rules</CardTitle>
+						<CardDescription>
+							Choose which repository files this rubric considers. Combined with
+							each repository's own rules.
+						</CardDescription>
+					</CardHeader>
+					<CardContent>
+						<FileRulesForm
+							value={existingRubric.fileRules}
+							onSave={async (fileRules) => {
+								await updateRubric({ rubricId, fileRules });
+							}}
+						/>
+					</CardContent>
+				</Card>
+			)}
+
 			{isEditing && rubricId && (
 				<Card>
 					<CardHeader>
@@ -292,10 +352,14 @@ function RubricItemCard({
 			minValue?: number;
 			maxValue?: number;
 			rangeGuidance?: string;
+			rangeStep?: number;
 			maxExamples?: number;
 			options?: string[];
 			allowMultiple?: boolean;
 			maxSelections?: number;
+			allowOther?: boolean;
+			modelId?: string;
+			samples?: number;
 		};
 		order: number;
 	};
@@ -354,6 +418,16 @@ function RubricItemCard({
 							: ""}
 					</p>
 				)}
+				{item.config.modelId && (
+					<p className="text-muted-foreground text-xs">
+						Model: {item.config.modelId}
+					</p>
+				)}
+				{item.config.samples && item.config.samples > 1 && (
+					<p className="text-muted-foreground text-xs">
+						Samples: {item.config.samples}
+					</p>
+				)}
 			</div>
 			<Button
 				variant="ghost"
@@ -21,7 +21,9 @@ import {
 } from "@/components/ui/select";
 import { Spinner } from "@/components/ui/spinner";
 import { Textarea } from "@/components/ui/textarea";
+import { MAX_SAMPLES } from "@/lib/models";
 import { EvaluationTypeConfig } from "./evaluation-type-config";
+import { ModelPicker } from "./model-picker";
 
 type EvaluationType =
 	| "yes_no"
@@ -35,10 +37,14 @@ interface RubricItemConfig {
 	minValue?: number;
 	maxValue?: number;
 	rangeGuidance?: string;
+	rangeStep?: number;
 	maxExamples?: number;
 	options?: string[];
 	allowMultiple?: boolean;
 	maxSelections?: number;
+	allowOther?: boolean;
+	modelId?: string;
+	samples?: number;
 }
 
 interface RubricItemFormProps {
@@ -80,10 +86,17 @@ const formSchema = z
 				minValue: z.number().optional(),
 				maxValue: z.number().optional(),
 				rangeGuidance: z.string().optional(),
-				maxExamples: z.number().optional(),
+				rangeStep: z
+					.number()
+					.positive("Score step must be greater than 0")
+					.optional(),
+				maxExamples: z.number().int().min(1).max(20).optional(),
 				options: z.array(z.string()).optional(),
 				allowMultiple: z.boolean().optional(),
+				allowOther: z.boolean().optional(),
 				maxSelections: z.number().optional(),
+				modelId: z.string().optional(),
+				samples: z.number().int().min(1).max(MAX_SAMPLES).optional(),
 			})
 			.refine(
 				(data) => {
@@ -250,8 +263,10 @@ export function RubricItemForm({
 									onValueChange={(value) => {
 										if (value) {
 											field.handleChange(value as EvaluationType);
-											// Reset config when type changes
-											form.setFieldValue("config", {});
+											// Reset config when type changes, keeping the model
+											// and sampling settings
+											const { modelId, samples } = form.getFieldValue("config");
+											form.setFieldValue("config", { modelId, samples });
 										}
 									}}
 								>
@@ -286,6 +301,55 @@ export function RubricItemForm({
 					)}
 				</form.Field>
 
+				<form.Field name="config">
+					{(field) => (
+						<Field>
+							<FieldLabel htmlFor="item-model">Model</FieldLabel>
+							<FieldDescription>
+								Evaluate this item with a different model than the rubric
+							</FieldDescription>
+							<ModelPicker
+								id="item-model"
+								value={field.state.value.modelId}
+								inheritLabel="Rubric default"
+								onChange={(modelId) =>
+									field.handleChange({ ...field.state.value, modelId })
+								}
+							/>
+						</Field>
+					)}
+				</form.Field>
+
+				{form.getFieldValue("evaluationType") !== "comments" && (
+					<form.Field name="config">
+						{(field) => (
+							<Field>
+								<FieldLabel htmlFor="item-samples">Samples</FieldLabel>
+								<FieldDescription>
+									Evaluate this item several times and keep the consensus, for
+									steadier results at a higher cost
+								</FieldDescription>
+								<Input
+									id="item-samples"
+									type="number"
+									value={field.state.value.samples?.toString() ?? ""}
+									onChange={(e) =>
+										field.handleChange({
+											...field.state.value,
+											samples: e.target.value
+												? Number(e.target.value)
+												: undefined,
+										})
+									}
+									placeholder="1"
+									min={1}
+									max={MAX_SAMPLES}
+								/>
+							</Field>
+						)}
+					</form.Field>
+				)}
+
 				<form.Subscribe selector={(state) => [state.isSubmitting]}>
 					{([isSubmitting]) => (
 						<div className="flex justify-end gap-2 pt-2">
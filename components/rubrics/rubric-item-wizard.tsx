@@ -26,7 +26,13 @@ import {
 } from "@/components/ui/select";
 import { Spinner } from "@/components/ui/spinner";
 import { Textarea } from "@/components/ui/textarea";
+import { MAX_SAMPLES } from "@/lib/models";
 import { formatOptionList, parseOptionList } from "@/lib/utils";
+import {
+	RangeStepField,
+	RequireJustificationField,
+} from "./evaluation-type-config";
+import { ModelPicker } from "./model-picker";
 
 type EvaluationType =
 	| "yes_no"
@@ -40,10 +46,14 @@ interface RubricItemConfig {
 	minValue?: number;
 	maxValue?: number;
 	rangeGuidance?: string;
+	rangeStep?: number;
 	maxExamples?: number;
 	options?: string[];
 	allowMultiple?: boolean;
 	maxSelections?: number;
+	allowOther?: boolean;
+	modelId?: string;
+	samples?: number;
 }
 
 interface RubricItemWizardProps {
@@ -78,6 +88,10 @@ const rangeConfigSchema = z
 		rangeGuidance: z
 			.string()
 			.min(1, "Score guidance is required for range evaluation type"),
+		rangeStep: z
+			.number()
+			.positive("Score step must be greater than 0")
+			.optional(),
 	})
 	.refine(
 		(data) => {
@@ -97,6 +111,7 @@ const optionsConfigSchema = z
 	.object({
 		options: z.array(z.string()).min(1, "At least one option is required"),
 		allowMultiple: z.boolean().optional(),
+		allowOther: z.boolean().optional(),
 		maxSelections: z.number().optional(),
 	})
 	.superRefine((data, ctx) => {
@@ -398,6 +413,55 @@ function ItemDetailsStep({
 							)}
 						</form.Field>
 
+						<form.Field name="config">
+							{(field) => (
+								<Field>
+									<FieldLabel htmlFor="item-model">Model</FieldLabel>
+									<FieldDescription>
+										Evaluate this item with a different model than the rubric
+									</FieldDescription>
+									<ModelPicker
+										id="item-model"
+										value={field.state.value.modelId}
+										inheritLabel="Rubric default"
+										onChange={(modelId) =>
+											field.handleChange({ ...field.state.value, modelId })
+										}
+									/>
+								</Field>
+							)}
+						</form.Field>
+
+						{evaluationType !== "comments" && (
+							<form.Field name="config">
+								{(field) => (
+									<Field>
+										<FieldLabel htmlFor="item-samples">Samples</FieldLabel>
+										<FieldDescription>
+											Evaluate this item several times and keep the consensus,
+											for steadier results at a higher cost
+										</FieldDescription>
+										<Input
+											id="item-samples"
+											type="number"
+											value={field.state.value.samples?.toString() ?? ""}
+											onChange={(e) =>
+												field.handleChange({
+													...field.state.value,
+													samples: e.target.value
+														? Number(e.target.value)
+														: undefined,
+												})
+											}
+											placeholder="1"
+											min={1}
+											max={MAX_SAMPLES}
+										/>
+									</Field>
+								)}
+							</form.Field>
+						)}
+
 						<form.Subscribe selector={(state) => [state.isSubmitting]}>
 							{([isSubmitting]) => (
 								<div className="flex justify-end gap-2 pt-2">
@@ -430,21 +494,11 @@ function ConfigSection({
 	switch (evaluationType) {
 		case "yes_no":
 			return (
-				<Field orientation="horizontal">
-					<Checkbox
-						id="require-justification"
-						checked={config.requireJustification ?? false}
-						onCheckedChange={(checked) =>
-							onChange({ ...config, requireJustification: checked === true })
-						}
-					/>
-					<FieldLabel htmlFor="require-justification">
-						Require justification
-					</FieldLabel>
-					<FieldDescription>
-						AI will provide reasoning for its yes/no answer
-					</FieldDescription>
-				</Field>
+				<RequireJustificationField
+					config={config}
+					onChange={onChange}
+					description="AI will provide reasoning for its yes/no answer"
+				/>
 			);
 
 		case "range":
@@ -486,6 +540,7 @@ function ConfigSection({
 							/>
 						</Field>
 					</div>
+					<RangeStepField config={config} onChange={onChange} />
 					<Field>
 						<FieldLabel htmlFor="range-guidance">
 							Score Guidance <span className="text-destructive">*</span>
@@ -518,6 +573,11 @@ function ConfigSection({
 							</p>
 						)}
 					</Field>
+					<RequireJustificationField
+						config={config}
+						onChange={onChange}
+						description="Fail the item if the AI gives no rationale for its score"
+					/>
 				</div>
 			);
 
@@ -552,8 +612,15 @@ function ConfigSection({
 
 		case "comments":
 			return (
-				<div className="text-muted-foreground text-sm">
-					The AI will provide free-form text feedback for this criterion.
+				<div className="space-y-4">
+					<div className="text-muted-foreground text-sm">
+						The AI will provide free-form text feedback for this criterion.
+					</div>
+					<RequireJustificationField
+						config={config}
+						onChange={onChange}
+						description="AI will explain the reasoning behind its feedback"
+					/>
 				</div>
 			);
 
@@ -632,6 +699,20 @@ function OptionsConfigSection({
 				</FieldDescription>
 			</Field>
 
+			<Field orientation="horizontal">
+				<Checkbox
+					id="allow-other"
+					checked={config.allowOther ?? false}
+					onCheckedChange={(checked) =>
+						onChange({ ...config, allowOther: checked === true })
+					}
+				/>
+				<FieldLabel htmlFor="allow-other">Allow "Other"</FieldLabel>
+				<FieldDescription>
+					Let the AI answer in its own words when no option fits
+				</FieldDescription>
+			</Field>
+
 			{allowMultiple && (
 				<Field>
 					<FieldLabel htmlFor="max-selections">Maximum Selections</FieldLabel>
@@ -656,6 +737,12 @@ function OptionsConfigSection({
 					/>
 				</Field>
 			)}
+
+			<RequireJustificationField
+				config={config}
+				onChange={onChange}
+				description="AI will explain why the selected options apply"
+			/>
 		</div>
 	);
 }
@@ -9,9 +9,11 @@
  */
 
 import type * as analyses from "../analyses.js";
+import type * as crons from "../crons.js";
 import type * as http from "../http.js";
 import type * as repositories from "../repositories.js";
 import type * as rubrics from "../rubrics.js";
+import type * as snapshots from "../snapshots.js";
 import type * as users from "../users.js";
 
 import type {
@@ -22,9 +24,11 @@ import type {
 
 declare const fullApi: ApiFromModules<{
   analyses: typeof analyses;
+  crons: typeof crons;
   http: typeof http;
   repositories: typeof repositories;
   rubrics: typeof rubrics;
+  snapshots: typeof snapshots;
   users: typeof users;
 }>;
 
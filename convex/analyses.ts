@@ -1,12 +1,98 @@
-import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { type Infer, v } from "convex/values";
+import { normalizeRootPath, validateGitHubRef } from "../lib/github-url.js";
+import {
+	assertWithinQuota,
+	DEFAULT_MONTHLY_ITEM_QUOTA,
+	DEFAULT_MONTHLY_TOKEN_QUOTA,
+	getQuotaPeriod,
+	type QuotaStatus,
+} from "../lib/quotas.js";
+import { assertTaskSecret } from "../lib/task-secret.js";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+	type MutationCtx,
+	mutation,
+	type QueryCtx,
+	query,
+} from "./_generated/server";
+import {
+	analysisScopeValidator,
+	fetchManifestValidator,
+	fileSelectionValidator,
+	itemUsageValidator,
+	promptBudgetValidator,
+	refTypeValidator,
+} from "./schema";
+
+// Sum what a user's analyses used this quota period. Finished analyses count
+// the items they evaluated; queued and running ones reserve all their items.
+async function getUserQuotaStatus(
+	ctx: QueryCtx | MutationCtx,
+	user: Doc<"users">,
+): Promise<QuotaStatus> {
+	const { start, end } = getQuotaPeriod(Date.now());
+	const analyses = await ctx.db
+		.query("analyses")
+		.withIndex("by_user", (q) => q.eq("userId", user._id))
+		.filter((q) => q.gte(q.field("createdAt"), start))
+		.collect();
+
+	let items = 0;
+	let tokens = 0;
+	for (const analysis of analyses) {
+		items +=
+			analysis.status === "pending" || analysis.status === "running"
+				? analysis.totalItems
+				: analysis.completedItems + analysis.failedItems;
+		tokens +=
+			(analysis.usage?.inputTokens ?? 0) + (analysis.usage?.outputTokens ?? 0);
+	}
+
+	return {
+		periodStart: start,
+		resetsAt: end,
+		items: {
+			used: items,
+			limit: user.monthlyItemQuota ?? DEFAULT_MONTHLY_ITEM_QUOTA,
+		},
+		tokens: {
+			used: tokens,
+			limit: user.monthlyTokenQuota ?? DEFAULT_MONTHLY_TOKEN_QUOTA,
+		},
+	};
+}
+
+// Get the current user's quota usage for this month
+export const getQuotaStatus = query({
+	args: {},
+	handler: async (ctx) => {
+		const identity = await ctx.auth.getUserIdentity();
+		if (!identity) {
+			return null;
+		}
+
+		const user = await ctx.db
+			.query("users")
+			.withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+			.unique();
+
+		if (!user) {
+			return null;
+		}
+
+		return await getUserQuotaStatus(ctx, user);
+	},
+});
 
 // Create a new analysis job for a connected repository
 export const createAnalysis = mutation({
 	args: {
 		repositoryId: v.id("repositories"),
 		rubricId: v.id("rubrics"),
-		branch: v.optional(v.string()), // Optional branch override
+		branch: v.optional(v.string()), // Optional branch override, or the ref for other ref types
+		refType: v.optional(refTypeValidator),
+		scope: v.optional(analysisScopeValidator),
+		rootPath: v.optional(v.string()), // Analyze only this subdirectory
 	},
 	handler: async (ctx, args) => {
 		const identity = await ctx.auth.getUserIdentity();
@@ -30,6 +116,26 @@ export const createAnalysis = mutation({
 			throw new Error("Repository not found or access denied");
 		}
 
+		// Commits, tags and pull requests can't fall back to the default branch
+		const refType = args.refType ?? "branch";
+		if (refType !== "branch" && !args.branch?.trim()) {
+			throw new Error(
+				"A ref is required for commit, tag and pull request analyses",
+			);
+		}
+
+		const branch = args.branch || repository.defaultBranch;
+		const refError = validateGitHubRef({ refType, ref: branch });
+		if (refError) {
+			throw new Error(refError);
+		}
+
+		if (args.scope === "diff" && refType !== "pull_request") {
+			throw new Error("Diff-scoped analysis requires a pull request");
+		}
+
+		const rootPath = normalizeRootPath(args.rootPath);
+
 		// Get rubric and count items
 		const rubric = await ctx.db.get(args.rubricId);
 		if (!rubric) {
@@ -47,13 +153,18 @@ export const createAnalysis = mutation({
 			.withIndex("by_rubric", (q) => q.eq("rubricId", args.rubricId))
 			.collect();
 
+		assertWithinQuota(await getUserQuotaStatus(ctx, user), rubricItems.length);
+
 		// Create analysis record
 		const analysisId = await ctx.db.insert("analyses", {
 			userId: user._id,
 			repositoryId: args.repositoryId,
 			repositoryOwner: repository.owner,
 			repositoryName: repository.name,
-			branch: args.branch || repository.defaultBranch,
+			branch,
+			refType,
+			scope: args.scope ?? "repository",
+			rootPath,
 			rubricId: args.rubricId,
 			status: "pending",
 			totalItems: rubricItems.length,
@@ -127,6 +238,9 @@ export const updateItemResult = mutation({
 		),
 		result: v.optional(v.any()),
 		error: v.optional(v.string()),
+		promptBudget: v.optional(promptBudgetValidator),
+		usage: v.optional(itemUsageValidator),
+		samples: v.optional(v.array(v.any())),
 	},
 	handler: async (ctx, args) => {
 		// Find the analysis result record
@@ -147,6 +261,9 @@ export const updateItemResult = mutation({
 			status: "pending" | "processing" | "completed" | "failed";
 			result?: unknown;
 			error?: string;
+			promptBudget?: Infer<typeof promptBudgetValidator>;
+			usage?: Infer<typeof itemUsageValidator>;
+			samples?: unknown[];
 			completedAt?: number;
 		} = {
 			status: args.status,
@@ -154,6 +271,10 @@ export const updateItemResult = mutation({
 
 		if (args.result !== undefined) updates.result = args.result;
 		if (args.error !== undefined) updates.error = args.error;
+		if (args.promptBudget !== undefined)
+			updates.promptBudget = args.promptBudget;
+		if (args.usage !== undefined) updates.usage = args.usage;
+		if (args.samples !== undefined) updates.samples = args.samples;
 		if (args.status === "completed" || args.status === "failed") {
 			updates.completedAt = Date.now();
 		}
@@ -171,9 +292,210 @@ export const updateItemResult = mutation({
 		).length;
 		const failedItems = allResults.filter((r) => r.status === "failed").length;
 
+		// Roll up the usage of every item that has called the model
+		const usages = allResults.flatMap((r) => (r.usage ? [r.usage] : []));
+		const usage =
+			usages.length > 0
+				? {
+						inputTokens: usages.reduce((sum, u) => sum + u.inputTokens, 0),
+						outputTokens: usages.reduce((sum, u) => sum + u.outputTokens, 0),
+						cost: usages.reduce((sum, u) => sum + u.cost, 0),
+					}
+				: undefined;
+
 		await ctx.db.patch(args.analysisId, {
 			completedItems,
 			failedItems,
+			usage,
+		});
+	},
+});
+
+// Record which repository files were selected for evaluation and why.
+// Written by the background job, so it requires the task secret.
+export const recordFileSelection = mutation({
+	args: {
+		taskSecret: v.string(),
+		analysisId: v.id("analyses"),
+		fileSelection: fileSelectionValidator,
+	},
+	handler: async (ctx, args) => {
+		assertTaskSecret(args.taskSecret);
+		const analysis = await ctx.db.get(args.analysisId);
+		if (!analysis) {
+			throw new Error("Analysis not found");
+		}
+
+		await ctx.db.patch(args.analysisId, {
+			fileSelection: args.fileSelection,
+		});
+	},
+});
+
+// Record every file the analysis read or left out. Replaces the manifest of
+// an earlier attempt when the task is retried. Written by the background
+// job, so it requires the task secret.
+export const recordAnalysisManifest = mutation({
+	args: {
+		taskSecret: v.string(),
+		analysisId: v.id("analyses"),
+		manifest: fetchManifestValidator,
+	},
+	handler: async (ctx, args) => {
+		assertTaskSecret(args.taskSecret);
+		const analysis = await ctx.db.get(args.analysisId);
+		if (!analysis) {
+			throw new Error("Analysis not found");
+		}
+
+		const existing = await ctx.db
+			.query("analysisManifests")
+			.withIndex("by_analysis", (q) => q.eq("analysisId", args.analysisId))
+			.first();
+
+		if (existing) {
+			await ctx.db.patch(existing._id, {
+				manifest: args.manifest,
+				createdAt: Date.now(),
+			});
+		} else {
+			await ctx.db.insert("analysisManifests", {
+				analysisId: args.analysisId,
+				manifest: args.manifest,
+				createdAt: Date.now(),
+			});
+		}
+	},
+});
+
+// Get the files an analysis read, or null before content has been fetched
+export const getAnalysisManifest = query({
+	args: {
+		analysisId: v.id("analyses"),
+	},
+	handler: async (ctx, args) => {
+		const identity = await ctx.auth.getUserIdentity();
+		if (!identity) {
+			throw new Error("Not authenticated");
+		}
+
+		const analysis = await ctx.db.get(args.analysisId);
+		if (!analysis) {
+			return null;
+		}
+
+		const user = await ctx.db
+			.query("users")
+			.withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+			.unique();
+
+		if (!user || analysis.userId !== user._id) {
+			throw new Error("Access denied");
+		}
+
+		const record = await ctx.db
+			.query("analysisManifests")
+			.withIndex("by_analysis", (q) => q.eq("analysisId", args.analysisId))
+			.first();
+
+		return record ? { ...record.manifest, createdAt: record.createdAt } : null;
+	},
+});
+
+// Generate an upload URL for the content rubric item tasks evaluate.
+// Used by the Trigger.dev background job, like snapshot uploads, so it
+// requires the task secret rather than a user.
+export const generateContentUploadUrl = mutation({
+	args: {
+		taskSecret: v.string(),
+	},
+	handler: async (ctx, args) => {
+		assertTaskSecret(args.taskSecret);
+		return await ctx.storage.generateUploadUrl();
+	},
+});
+
+// Attach uploaded evaluation content to an analysis, replacing the content
+// of an earlier attempt
+export const attachAnalysisContent = mutation({
+	args: {
+		taskSecret: v.string(),
+		analysisId: v.id("analyses"),
+		storageId: v.id("_storage"),
+	},
+	handler: async (ctx, args) => {
+		assertTaskSecret(args.taskSecret);
+		const analysis = await ctx.db.get(args.analysisId);
+		if (!analysis) {
+			await ctx.storage.delete(args.storageId);
+			throw new Error("Analysis not found");
+		}
+
+		if (
+			analysis.contentStorageId &&
+			analysis.contentStorageId !== args.storageId
+		) {
+			await ctx.storage.delete(analysis.contentStorageId);
+		}
+		await ctx.db.patch(args.analysisId, { contentStorageId: args.storageId });
+	},
+});
+
+// Get a download URL for an analysis' evaluation content. Only content
+// attached to the analysis can be read, and only while it runs. The content
+// is the repository's source, so only the background job may read it.
+export const getAnalysisContentUrl = query({
+	args: {
+		taskSecret: v.string(),
+		analysisId: v.id("analyses"),
+		storageId: v.id("_storage"),
+	},
+	handler: async (ctx, args) => {
+		assertTaskSecret(args.taskSecret);
+		const analysis = await ctx.db.get(args.analysisId);
+		if (!analysis || analysis.contentStorageId !== args.storageId) {
+			return null;
+		}
+		return await ctx.storage.getUrl(args.storageId);
+	},
+});
+
+// Evaluation content is only needed while rubric items run
+async function releaseAnalysisContent(
+	ctx: MutationCtx,
+	analysisId: Id<"analyses">,
+) {
+	const analysis = await ctx.db.get(analysisId);
+	if (analysis?.contentStorageId) {
+		await ctx.storage.delete(analysis.contentStorageId);
+		await ctx.db.patch(analysisId, { contentStorageId: undefined });
+	}
+}
+
+// Record the exact commit analyzed and whether its file listing was complete.
+// Written by the background job, so it requires the task secret.
+export const recordAnalyzedRevision = mutation({
+	args: {
+		taskSecret: v.string(),
+		analysisId: v.id("analyses"),
+		commitSha: v.optional(v.string()),
+		treeTruncated: v.boolean(),
+		// Set when a "/tree/" URL turned out to name a directory of the branch
+		branch: v.optional(v.string()),
+		rootPath: v.optional(v.string()),
+	},
+	handler: async (ctx, args) => {
+		assertTaskSecret(args.taskSecret);
+		const analysis = await ctx.db.get(args.analysisId);
+		if (!analysis) {
+			throw new Error("Analysis not found");
+		}
+
+		await ctx.db.patch(args.analysisId, {
+			commitSha: args.commitSha,
+			treeTruncated: args.treeTruncated,
+			...(args.branch !== undefined && { branch: args.branch }),
+			...(args.rootPath !== undefined && { rootPath: args.rootPath }),
 		});
 	},
 });
@@ -184,6 +506,7 @@ export const completeAnalysis = mutation({
 		analysisId: v.id("analyses"),
 	},
 	handler: async (ctx, args) => {
+		await releaseAnalysisContent(ctx, args.analysisId);
 		await ctx.db.patch(args.analysisId, {
 			status: "completed",
 			completedAt: Date.now(),
@@ -198,6 +521,7 @@ export const failAnalysis = mutation({
 		errorMessage: v.string(),
 	},
 	handler: async (ctx, args) => {
+		await releaseAnalysisContent(ctx, args.analysisId);
 		await ctx.db.patch(args.analysisId, {
 			status: "failed",
 			errorMessage: args.errorMessage,
@@ -456,7 +780,10 @@ export const createOneOffAnalysis = mutation({
 		repositoryUrl: v.string(),
 		repositoryOwner: v.string(),
 		repositoryName: v.string(),
-		branch: v.string(),
+		branch: v.string(), // Branch name, or the ref for other ref types
+		refType: v.optional(refTypeValidator),
+		scope: v.optional(analysisScopeValidator),
+		rootPath: v.optional(v.string()), // Analyze only this subdirectory
 		rubricId: v.id("rubrics"),
 	},
 	handler: async (ctx, args) => {
@@ -490,6 +817,18 @@ export const createOneOffAnalysis = mutation({
 			throw new Error("Branch is required");
 		}
 
+		const refType = args.refType ?? "branch";
+		const refError = validateGitHubRef({ refType, ref: args.branch });
+		if (refError) {
+			throw new Error(refError);
+		}
+
+		if (args.scope === "diff" && refType !== "pull_request") {
+			throw new Error("Diff-scoped analysis requires a pull request");
+		}
+
+		const rootPath = normalizeRootPath(args.rootPath);
+
 		// Get rubric and count items
 		const rubric = await ctx.db.get(args.rubricId);
 		if (!rubric) {
@@ -507,6 +846,8 @@ export const createOneOffAnalysis = mutation({
 			.withIndex("by_rubric", (q) => q.eq("rubricId", args.rubricId))
 			.collect();
 
+		assertWithinQuota(await getUserQuotaStatus(ctx, user), rubricItems.length);
+
 		// Create analysis record for one-off analysis (no repositoryId)
 		const analysisId = await ctx.db.insert("analyses", {
 			userId: user._id,
@@ -514,6 +855,9 @@ export const createOneOffAnalysis = mutation({
 			repositoryOwner: args.repositoryOwner,
 			repositoryName: args.repositoryName,
 			branch: args.branch,
+			refType,
+			scope: args.scope ?? "repository",
+			rootPath,
 			rubricId: args.rubricId,
 			status: "pending",
 			totalItems: rubricItems.length,
@@ -0,0 +1,13 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Drop repository snapshots once their TTL has passed
+crons.interval(
+	"purge expired repository snapshots",
+	{ hours: 1 },
+	internal.snapshots.purgeExpiredSnapshots,
+);
+
+export default crons;
@@ -1,5 +1,8 @@
 import { v } from "convex/values";
+import { validateFileRules } from "../lib/file-rules.js";
+import { assertTaskSecret } from "../lib/task-secret.js";
 import { MutationCtx, mutation, QueryCtx, query } from "./_generated/server";
+import { fileRulesValidator } from "./schema";
 
 // Helper function to get authenticated user
 async function getAuthenticatedUser(ctx: MutationCtx | QueryCtx) {
@@ -27,10 +30,33 @@ export const connectRepository = mutation({
 		name: v.string(),
 		fullName: v.string(),
 		defaultBranch: v.string(),
+		// Set from the access check the server makes before connecting, so
+		// only accepted with the task secret
+		taskSecret: v.optional(v.string()),
+		isPrivate: v.optional(v.boolean()),
+		installationId: v.optional(v.number()),
 	},
 	handler: async (ctx, args) => {
 		const user = await getAuthenticatedUser(ctx);
 
+		if (args.isPrivate !== undefined || args.installationId !== undefined) {
+			assertTaskSecret(args.taskSecret ?? "");
+		}
+
+		// Only the user's own GitHub App installation may be used for access
+		if (
+			args.installationId !== undefined &&
+			args.installationId !== user.githubInstallationId
+		) {
+			throw new Error("GitHub App installation is not linked to your account");
+		}
+
+		if (args.isPrivate && args.installationId === undefined) {
+			throw new Error(
+				"Private repositories require a linked GitHub App installation",
+			);
+		}
+
 		// Check if repository is already connected
 		const existing = await ctx.db
 			.query("repositories")
@@ -48,6 +74,8 @@ export const connectRepository = mutation({
 			name: args.name,
 			fullName: args.fullName,
 			defaultBranch: args.defaultBranch,
+			isPrivate: args.isPrivate,
+			installationId: args.installationId,
 			connectedAt: Date.now(),
 		});
 
@@ -91,6 +119,33 @@ export const disconnectRepository = mutation({
 	},
 });
 
+// Set the file inclusion rules used when analyzing a repository
+export const updateRepositoryFileRules = mutation({
+	args: {
+		repositoryId: v.id("repositories"),
+		fileRules: fileRulesValidator,
+	},
+	handler: async (ctx, args) => {
+		const user = await getAuthenticatedUser(ctx);
+
+		const repository = await ctx.db.get(args.repositoryId);
+		if (!repository) {
+			throw new Error("Repository not found");
+		}
+
+		if (repository.userId !== user._id) {
+			throw new Error("Not authorized to update this repository");
+		}
+
+		const error = validateFileRules(args.fileRules);
+		if (error) {
+			throw new Error(error);
+		}
+
+		await ctx.db.patch(args.repositoryId, { fileRules: args.fileRules });
+	},
+});
+
 // Get a single repository by ID
 export const getRepository = query({
 	args: {
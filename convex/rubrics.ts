@@ -1,4 +1,7 @@
 import { v } from "convex/values";
+import { type FileRules, validateFileRules } from "../lib/file-rules.js";
+import { isKnownModel, isSelectableModel, MAX_SAMPLES } from "../lib/models.js";
+import { getRangeBounds } from "../lib/range-scores.js";
 import { SYSTEM_TEMPLATES } from "../lib/templates.js";
 import { Id } from "./_generated/dataModel";
 import {
@@ -8,7 +11,11 @@ import {
 	QueryCtx,
 	query,
 } from "./_generated/server";
-import { evaluationTypeValidator, rubricItemConfigValidator } from "./schema";
+import {
+	evaluationTypeValidator,
+	fileRulesValidator,
+	rubricItemConfigValidator,
+} from "./schema";
 
 // Helper function to get authenticated user
 async function getAuthenticatedUser(ctx: MutationCtx | QueryCtx) {
@@ -50,6 +57,57 @@ function normalizeOptions(options?: string[]) {
 	return uniqueOptions;
 }
 
+function assertKnownModel(modelId?: string) {
+	if (modelId === undefined) return;
+	if (!isKnownModel(modelId)) {
+		throw new Error(`Unknown model: ${modelId}`);
+	}
+	if (!isSelectableModel(modelId)) {
+		throw new Error(`Model ${modelId} is only available in development`);
+	}
+}
+
+function assertValidSamples(samples?: number) {
+	if (
+		samples !== undefined &&
+		(!Number.isInteger(samples) || samples < 1 || samples > MAX_SAMPLES)
+	) {
+		throw new Error(`Samples must be a whole number from 1 to ${MAX_SAMPLES}`);
+	}
+}
+
+// Matches the limit the rubric item forms offer
+const MAX_EXAMPLES = 20;
+
+function assertValidMaxExamples(maxExamples?: number) {
+	if (
+		maxExamples !== undefined &&
+		(!Number.isInteger(maxExamples) ||
+			maxExamples < 1 ||
+			maxExamples > MAX_EXAMPLES)
+	) {
+		throw new Error(
+			`Max examples must be a whole number from 1 to ${MAX_EXAMPLES}`,
+		);
+	}
+}
+
+function assertValidRangeStep(config: {
+	minValue?: number;
+	maxValue?: number;
+	rangeStep?: number;
+}) {
+	if (config.rangeStep === undefined) {
+		return;
+	}
+	const { min, max } = getRangeBounds(config);
+	if (!(config.rangeStep > 0) || config.rangeStep > max - min) {
+		throw new Error(
+			"Range step must be greater than 0 and no larger than the range",
+		);
+	}
+}
+
 /**
  * Create a new rubric for the authenticated user.
  * Requirements: 2.1 - Store rubric with name, description, and empty item list
@@ -85,6 +143,9 @@ export const updateRubric = mutation({
 		rubricId: v.id("rubrics"),
 		name: v.optional(v.string()),
 		description: v.optional(v.string()),
+		fileRules: v.optional(fileRulesValidator),
+		// null resets the rubric to the default model
+		modelId: v.optional(v.union(v.string(), v.null())),
 	},
 	handler: async (ctx, args) => {
 		const rubric = await ctx.db.get(args.rubricId);
@@ -102,10 +163,15 @@ export const updateRubric = mutation({
 			throw new Error("Cannot edit deleted rubric");
 		}
 
-		const updates: { name?: string; description?: string; updatedAt: number } =
-			{
-				updatedAt: Date.now(),
-			};
+		const updates: {
+			name?: string;
+			description?: string;
+			fileRules?: FileRules;
+			modelId?: string;
+			updatedAt: number;
+		} = {
+			updatedAt: Date.now(),
+		};
 
 		if (args.name !== undefined) {
 			updates.name = args.name;
@@ -113,6 +179,17 @@ export const updateRubric = mutation({
 		if (args.description !== undefined) {
 			updates.description = args.description;
 		}
+		if (args.fileRules !== undefined) {
+			const error = validateFileRules(args.fileRules);
+			if (error) {
+				throw new Error(error);
+			}
+			updates.fileRules = args.fileRules;
+		}
+		if (args.modelId !== undefined) {
+			assertKnownModel(args.modelId ?? undefined);
+			updates.modelId = args.modelId ?? undefined;
+		}
 
 		await ctx.db.patch(args.rubricId, updates);
 
@@ -281,6 +358,9 @@ export const addRubricItem = mutation({
 
 		// Validate config based on evaluation type
 		const config = args.config ?? {};
+		assertKnownModel(config.modelId);
+		assertValidSamples(config.samples);
+		assertValidMaxExamples(config.maxExamples);
 
 		// For range type, validate min/max and require rangeGuidance
 		if (args.evaluationType === "range") {
@@ -289,6 +369,7 @@ export const addRubricItem = mutation({
 					throw new Error("Range minValue must be less than maxValue");
 				}
 			}
+			assertValidRangeStep(config);
 			// Require rangeGuidance for range type items
 			if (!config.rangeGuidance || config.rangeGuidance.trim().length === 0) {
 				throw new Error(
@@ -396,10 +477,14 @@ export const updateRubricItem = mutation({
 				minValue?: number;
 				maxValue?: number;
 				rangeGuidance?: string;
+				rangeStep?: number;
 				maxExamples?: number;
 				options?: string[];
 				allowMultiple?: boolean;
 				maxSelections?: number;
+				allowOther?: boolean;
+				modelId?: string;
+				samples?: number;
 			};
 		} = {};
 
@@ -413,6 +498,10 @@ export const updateRubricItem = mutation({
 			updates.evaluationType = args.evaluationType;
 		}
 		if (args.config !== undefined) {
+			assertKnownModel(args.config.modelId);
+			assertValidSamples(args.config.samples);
+			assertValidMaxExamples(args.config.maxExamples);
+
 			// Validate range config
 			const evalType = args.evaluationType ?? item.evaluationType;
 			if (evalType === "range") {
@@ -424,6 +513,7 @@ export const updateRubricItem = mutation({
 						throw new Error("Range minValue must be less than maxValue");
 					}
 				}
+				assertValidRangeStep(args.config);
 				// Require rangeGuidance for range type items
 				if (
 					!args.config.rangeGuidance ||
@@ -614,10 +704,12 @@ async function upsertSystemTemplates(
 				minValue?: number;
 				maxValue?: number;
 				rangeGuidance?: string;
+				rangeStep?: number;
 				maxExamples?: number;
 				options?: string[];
 				allowMultiple?: boolean;
 				maxSelections?: number;
+				allowOther?: boolean;
 			};
 		}[];
 	}[],
@@ -754,6 +846,7 @@ export const duplicateSystemTemplate = mutation({
 			userId: args.userId,
 			name: args.name || `${template.name} (Copy)`,
 			description: template.description,
+			modelId: template.modelId,
 			isSystemTemplate: false,
 			createdAt: now,
 			updatedAt: now,
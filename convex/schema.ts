@@ -10,16 +10,126 @@ export const evaluationTypeValidator = v.union(
 	v.literal("options"),
 );
 
+// Kind of git ref an analysis targets
+export const refTypeValidator = v.union(
+	v.literal("branch"),
+	v.literal("commit"),
+	v.literal("tag"),
+	v.literal("pull_request"),
+);
+
+// What an analysis evaluates: the whole repository or only a pull request's changes
+export const analysisScopeValidator = v.union(
+	v.literal("repository"),
+	v.literal("diff"),
+);
+
 // Rubric item config validator
 export const rubricItemConfigValidator = v.object({
 	requireJustification: v.optional(v.boolean()),
 	minValue: v.optional(v.number()),
 	maxValue: v.optional(v.number()),
 	rangeGuidance: v.optional(v.string()), // Required for range type: describes when each score level should be selected
+	rangeStep: v.optional(v.number()), // Range scores must be a whole number of steps above the minimum
 	maxExamples: v.optional(v.number()),
 	options: v.optional(v.array(v.string())),
 	allowMultiple: v.optional(v.boolean()),
 	maxSelections: v.optional(v.number()),
+	allowOther: v.optional(v.boolean()), // Adds an "Other" choice with a free-text answer
+	modelId: v.optional(v.string()), // Overrides the rubric's model for this item
+	samples: v.optional(v.number()), // Evaluations to aggregate, for self-consistency
+});
+
+// Include/exclude globs and budget overrides for the files sent to the AI model
+export const fileRulesValidator = v.object({
+	include: v.optional(v.array(v.string())),
+	exclude: v.optional(v.array(v.string())),
+	maxFiles: v.optional(v.number()),
+	maxTotalBytes: v.optional(v.number()),
+	maxFileBytes: v.optional(v.number()),
+});
+
+// Ranking explanation for the files sent to the AI model
+export const fileSelectionValidator = v.object({
+	totalCandidates: v.number(),
+	selectedBytes: v.number(),
+	selected: v.array(
+		v.object({
+			path: v.string(),
+			score: v.number(),
+			reasons: v.array(v.string()),
+		}),
+	),
+	excluded: v.array(
+		v.object({
+			path: v.string(),
+			score: v.number(),
+			reason: v.string(),
+		}),
+	),
+	// Generated, vendored or minified files dropped before ranking
+	filtered: v.optional(
+		v.array(
+			v.object({
+				path: v.string(),
+				reason: v.string(),
+			}),
+		),
+	),
+});
+
+// Every file an analysis read or left out, with totals
+export const fetchManifestValidator = v.object({
+	included: v.array(
+		v.object({
+			path: v.string(),
+			size: v.number(),
+			language: v.string(),
+			hash: v.string(), // SHA-256 of the content sent to the AI model
+		}),
+	),
+	skipped: v.array(
+		v.object({
+			path: v.string(),
+			reason: v.string(),
+			size: v.optional(v.number()),
+		}),
+	),
+	totals: v.object({
+		listedFiles: v.number(),
+		includedFiles: v.number(),
+		includedBytes: v.number(),
+		skippedFiles: v.number(), // Can exceed skipped.length, which is capped
+		skippedByReason: v.array(
+			v.object({ reason: v.string(), count: v.number() }),
+		),
+	}),
+});
+
+// Tokens a rubric item's prompt used and the context that didn't fit
+export const promptBudgetValidator = v.object({
+	contextWindow: v.number(),
+	tokensSent: v.number(), // Estimated
+	tokensDropped: v.number(), // Estimated, from the content left out
+	droppedFiles: v.array(v.string()), // Capped
+	truncatedFiles: v.array(v.string()), // Only some of their lines were sent
+	structureTruncated: v.boolean(),
+});
+
+// Tokens, latency and cost of a rubric item's model call
+export const itemUsageValidator = v.object({
+	modelId: v.string(),
+	inputTokens: v.number(),
+	outputTokens: v.number(),
+	latencyMs: v.number(),
+	cost: v.number(), // USD
+});
+
+// Usage summed over an analysis's items
+export const analysisUsageValidator = v.object({
+	inputTokens: v.number(),
+	outputTokens: v.number(),
+	cost: v.number(), // USD
 });
 
 export default defineSchema({
@@ -28,6 +138,11 @@ export default defineSchema({
 		email: v.string(),
 		name: v.string(),
 		imageUrl: v.optional(v.string()),
+		isAdmin: v.optional(v.boolean()),
+		githubInstallationId: v.optional(v.number()), // Linked GitHub App installation
+		githubAccountLogin: v.optional(v.string()), // Account the installation belongs to
+		monthlyItemQuota: v.optional(v.number()), // Raised by admins; defaults in lib/quotas
+		monthlyTokenQuota: v.optional(v.number()),
 	}).index("by_clerk_id", ["clerkId"]),
 
 	rubrics: defineTable({
@@ -39,6 +154,8 @@ export default defineSchema({
 		createdAt: v.number(),
 		updatedAt: v.number(),
 		deletedAt: v.optional(v.number()),
+		fileRules: v.optional(fileRulesValidator), // Merged with the repository's rules
+		modelId: v.optional(v.string()), // Model registry id; the default model when unset
 	})
 		.index("by_user", ["userId"])
 		.index("by_system_template", ["isSystemTemplate"])
@@ -59,6 +176,9 @@ export default defineSchema({
 		name: v.string(),
 		fullName: v.string(),
 		defaultBranch: v.string(),
+		isPrivate: v.optional(v.boolean()),
+		installationId: v.optional(v.number()), // GitHub App installation used to read the repository
+		fileRules: v.optional(fileRulesValidator),
 		connectedAt: v.number(),
 	})
 		.index("by_user", ["userId"])
@@ -70,7 +190,10 @@ export default defineSchema({
 		repositoryUrl: v.optional(v.string()), // For one-off analyses
 		repositoryOwner: v.string(), // Owner extracted from URL or connected repo
 		repositoryName: v.string(), // Name extracted from URL or connected repo
-		branch: v.string(), // Branch to analyze
+		branch: v.string(), // Branch to analyze, or the commit SHA, tag or PR number for other ref types
+		refType: v.optional(refTypeValidator), // Defaults to "branch"
+		scope: v.optional(analysisScopeValidator), // Defaults to "repository"; "diff" requires a pull request
+		rootPath: v.optional(v.string()), // Subdirectory analyzed, e.g. one package of a monorepo
 		rubricId: v.id("rubrics"),
 		triggerRunId: v.optional(v.string()),
 		status: v.union(
@@ -82,7 +205,12 @@ export default defineSchema({
 		totalItems: v.number(),
 		completedItems: v.number(),
 		failedItems: v.number(),
+		usage: v.optional(analysisUsageValidator), // Rolled up as items complete
 		errorMessage: v.optional(v.string()),
+		fileSelection: v.optional(fileSelectionValidator), // Set once repository content is fetched
+		commitSha: v.optional(v.string()), // Exact commit analyzed, when the source has one
+		treeTruncated: v.optional(v.boolean()), // GitHub only listed part of the repository
+		contentStorageId: v.optional(v.id("_storage")), // Content evaluated by rubric item tasks, removed once the analysis ends
 		createdAt: v.number(),
 		completedAt: v.optional(v.number()),
 	})
@@ -102,8 +230,33 @@ export default defineSchema({
 		),
 		result: v.optional(v.any()), // Typed per evaluation type
 		error: v.optional(v.string()),
+		promptBudget: v.optional(promptBudgetValidator),
+		usage: v.optional(itemUsageValidator),
+		samples: v.optional(v.array(v.any())), // Raw results in self-consistency mode
 		completedAt: v.optional(v.number()),
 	})
 		.index("by_analysis", ["analysisId"])
 		.index("by_analysis_and_item", ["analysisId", "rubricItemId"]),
+
+	// What an analysis fetched, recorded once repository content is read
+	analysisManifests: defineTable({
+		analysisId: v.id("analyses"),
+		manifest: fetchManifestValidator,
+		createdAt: v.number(),
+	}).index("by_analysis", ["analysisId"]),
+
+	// Cached repository content, keyed by owner/name@commitSha
+	repositorySnapshots: defineTable({
+		cacheKey: v.string(),
+		owner: v.string(),
+		name: v.string(),
+		commitSha: v.string(),
+		storageId: v.id("_storage"),
+		sizeBytes: v.number(),
+		createdAt: v.number(),
+		expiresAt: v.number(),
+	})
+		.index("by_cache_key", ["cacheKey"])
+		.index("by_repository", ["owner", "name"])
+		.index("by_expires_at", ["expiresAt"]),
 });
@@ -0,0 +1,180 @@
+import { v } from "convex/values";
+import { assertTaskSecret } from "../lib/task-secret.js";
+import {
+	internalMutation,
+	MutationCtx,
+	mutation,
+	QueryCtx,
+	query,
+} from "./_generated/server";
+
+// How long a cached repository snapshot stays valid (24 hours)
+export const SNAPSHOT_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Helper function to get the authenticated user and require admin rights
+async function getAdminUser(ctx: MutationCtx | QueryCtx) {
+	const identity = await ctx.auth.getUserIdentity();
+	if (!identity) {
+		throw new Error("Not authenticated");
+	}
+
+	const user = await ctx.db
+		.query("users")
+		.withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+		.unique();
+
+	if (!user) {
+		throw new Error("User not found");
+	}
+
+	if (!user.isAdmin) {
+		throw new Error("Admin access required");
+	}
+
+	return user;
+}
+
+/**
+ * Generate an upload URL for a repository snapshot.
+ * Used by the Trigger.dev background job before saving a snapshot, so it
+ * requires the task secret rather than a user.
+ */
+export const generateSnapshotUploadUrl = mutation({
+	args: {
+		taskSecret: v.string(),
+	},
+	handler: async (ctx, args) => {
+		assertTaskSecret(args.taskSecret);
+		return await ctx.storage.generateUploadUrl();
+	},
+});
+
+/**
+ * Get a cached snapshot by its cache key, or null when missing or expired.
+ * Used by the Trigger.dev background job, so it requires the task secret
+ * rather than a user.
+ */
+export const getSnapshot = query({
+	args: {
+		taskSecret: v.string(),
+		cacheKey: v.string(),
+	},
+	handler: async (ctx, args) => {
+		assertTaskSecret(args.taskSecret);
+		const snapshot = await ctx.db
+			.query("repositorySnapshots")
+			.withIndex("by_cache_key", (q) => q.eq("cacheKey", args.cacheKey))
+			.first();
+
+		if (!snapshot || snapshot.expiresAt <= Date.now()) {
+			return null;
+		}
+
+		const url = await ctx.storage.getUrl(snapshot.storageId);
+		if (!url) {
+			return null;
+		}
+
+		return {
+			commitSha: snapshot.commitSha,
+			sizeBytes: snapshot.sizeBytes,
+			createdAt: snapshot.createdAt,
+			url,
+		};
+	},
+});
+
+/**
+ * Save an uploaded snapshot, replacing any previous one with the same key.
+ * Snapshots are shared by every analysis of a commit, so only the background
+ * job may write them.
+ */
+export const saveSnapshot = mutation({
+	args: {
+		taskSecret: v.string(),
+		cacheKey: v.string(),
+		owner: v.string(),
+		name: v.string(),
+		commitSha: v.string(),
+		storageId: v.id("_storage"),
+		sizeBytes: v.number(),
+	},
+	handler: async (ctx, args) => {
+		assertTaskSecret(args.taskSecret);
+
+		const existing = await ctx.db
+			.query("repositorySnapshots")
+			.withIndex("by_cache_key", (q) => q.eq("cacheKey", args.cacheKey))
+			.collect();
+
+		for (const snapshot of existing) {
+			await ctx.storage.delete(snapshot.storageId);
+			await ctx.db.delete(snapshot._id);
+		}
+
+		const now = Date.now();
+		return await ctx.db.insert("repositorySnapshots", {
+			cacheKey: args.cacheKey,
+			owner: args.owner.toLowerCase(),
+			name: args.name.toLowerCase(),
+			commitSha: args.commitSha,
+			storageId: args.storageId,
+			sizeBytes: args.sizeBytes,
+			createdAt: now,
+			expiresAt: now + SNAPSHOT_TTL_MS,
+		});
+	},
+});
+
+/**
+ * Purge cached snapshots. Admin only.
+ * Optionally limited to a single repository; otherwise every snapshot is removed.
+ */
+export const purgeSnapshots = mutation({
+	args: {
+		owner: v.optional(v.string()),
+		name: v.optional(v.string()),
+	},
+	handler: async (ctx, args) => {
+		await getAdminUser(ctx);
+
+		const owner = args.owner?.toLowerCase();
+		const name = args.name?.toLowerCase();
+
+		const snapshots = owner
+			? await ctx.db
+					.query("repositorySnapshots")
+					.withIndex("by_repository", (q) =>
+						name ? q.eq("owner", owner).eq("name", name) : q.eq("owner", owner),
+					)
+					.collect()
+			: await ctx.db.query("repositorySnapshots").collect();
+
+		for (const snapshot of snapshots) {
+			await ctx.storage.delete(snapshot.storageId);
+			await ctx.db.delete(snapshot._id);
+		}
+
+		return { purged: snapshots.length };
+	},
+});
+
+/**
+ * Remove expired snapshots. Runs on a schedule (see crons.ts).
+ */
+export const purgeExpiredSnapshots = internalMutation({
+	args: {},
+	handler: async (ctx) => {
+		const expired = await ctx.db
+			.query("repositorySnapshots")
+			.withIndex("by_expires_at", (q) => q.lte("expiresAt", Date.now()))
+			.collect();
+
+		for (const snapshot of expired) {
+			await ctx.storage.delete(snapshot.storageId);
+			await ctx.db.delete(snapshot._id);
+		}
+
+		return { purged: expired.length };
+	},
+});
@@ -1,4 +1,5 @@
 import { v } from "convex/values";
+import { assertTaskSecret } from "../lib/task-secret.js";
 import { mutation, query } from "./_generated/server";
 
 /**
@@ -120,3 +121,122 @@ export const syncUser = mutation({
 		return userId;
 	},
 });
+
+/**
+ * Link a GitHub App installation to the current user.
+ * Called by the installation callback once it has verified the user owns the
+ * installation, so it requires the task secret: users can't link one of
+ * their choosing by calling it directly.
+ */
+export const linkGitHubInstallation = mutation({
+	args: {
+		taskSecret: v.string(),
+		installationId: v.number(),
+		accountLogin: v.string(),
+	},
+	handler: async (ctx, args) => {
+		assertTaskSecret(args.taskSecret);
+
+		const identity = await ctx.auth.getUserIdentity();
+		if (!identity) {
+			throw new Error("Not authenticated");
+		}
+
+		const user = await ctx.db
+			.query("users")
+			.withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+			.unique();
+
+		if (!user) {
+			throw new Error("User not found");
+		}
+
+		await ctx.db.patch(user._id, {
+			githubInstallationId: args.installationId,
+			githubAccountLogin: args.accountLogin,
+		});
+	},
+});
+
+/**
+ * Unlink the current user's GitHub App installation.
+ * Repositories already connected through it keep using it until the app is
+ * uninstalled on GitHub.
+ */
+export const unlinkGitHubInstallation = mutation({
+	args: {},
+	handler: async (ctx) => {
+		const identity = await ctx.auth.getUserIdentity();
+		if (!identity) {
+			throw new Error("Not authenticated");
+		}
+
+		const user = await ctx.db
+			.query("users")
+			.withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+			.unique();
+
+		if (!user) {
+			throw new Error("User not found");
+		}
+
+		await ctx.db.patch(user._id, {
+			githubInstallationId: undefined,
+			githubAccountLogin: undefined,
+		});
+	},
+});
+
+/**
+ * Set a user's monthly quotas. Admin only.
+ * Pass null to return a limit to the default.
+ */
+export const setUserQuota = mutation({
+	args: {
+		email: v.string(),
+		monthlyItemQuota: v.optional(v.union(v.number(), v.null())),
+		monthlyTokenQuota: v.optional(v.union(v.number(), v.null())),
+	},
+	handler: async (ctx, args) => {
+		const identity = await ctx.auth.getUserIdentity();
+		if (!identity) {
+			throw new Error("Not authenticated");
+		}
+
+		const admin = await ctx.db
+			.query("users")
+			.withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+			.unique();
+
+		if (!admin?.isAdmin) {
+			throw new Error("Admin access required");
+		}
+
+		const user = await ctx.db
+			.query("users")
+			.filter((q) => q.eq(q.field("email"), args.email))
+			.first();
+
+		if (!user) {
+			throw new Error("User not found");
+		}
+
+		for (const quota of [args.monthlyItemQuota, args.monthlyTokenQuota]) {
+			if (quota != null && (!Number.isInteger(quota) || quota < 0)) {
+				throw new Error("Quotas must be non-negative whole numbers");
+			}
+		}
+
+		const updates: { monthlyItemQuota?: number; monthlyTokenQuota?: number } =
+			{};
+		if (args.monthlyItemQuota !== undefined) {
+			updates.monthlyItemQuota = args.monthlyItemQuota ?? undefined;
+		}
+		if (args.monthlyTokenQuota !== undefined) {
+			updates.monthlyTokenQuota = args.monthlyTokenQuota ?? undefined;
+		}
+
+		await ctx.db.patch(user._id, updates);
+		return user._id;
+	},
+});
@@ -1,3 +1,6 @@
+import { constructGitHubFileUrl } from "./github-url";
+import { OTHER_OPTION } from "./utils";
+
 export interface ExportableAnalysis {
 	_id: string;
 	status: string;
@@ -6,8 +9,14 @@ export interface ExportableAnalysis {
 	failedItems: number;
 	createdAt: number;
 	completedAt?: number;
+	commitSha?: string;
+	treeTruncated?: boolean;
+	rootPath?: string;
 	repository?: {
 		fullName: string;
+		owner?: string;
+		name?: string;
+		branch?: string;
 	};
 	rubric?: {
 		name: string;
@@ -27,6 +36,32 @@ export interface ExportableAnalysis {
 	}>;
 }
 
+// Link to a code example on GitHub, pinned to the analyzed commit when known
+function getExamplePermalink(
+	analysis: ExportableAnalysis,
+	example: { filePath: string; lineStart: number; lineEnd: number },
+): string | null {
+	const repository = analysis.repository;
+	if (!repository?.owner || !repository.name) {
+		return null;
+	}
+
+	const ref = analysis.commitSha ?? repository.branch;
+	if (!ref) {
+		return null;
+	}
+
+	return constructGitHubFileUrl({
+		owner: repository.owner,
+		repo: repository.name,
+		branch: ref,
+		commitSha: analysis.commitSha,
+		filePath: example.filePath,
+		lineStart: example.lineStart,
+		lineEnd: example.lineEnd,
+	});
+}
+
 /**
  * Export analysis results as JSON string
  * **Feature: ai-code-review, Property 16: Export format validity**
@@ -37,6 +72,10 @@ export function exportAsJSON(analysis: ExportableAnalysis): string {
 		id: analysis._id,
 		status: analysis.status,
 		repository: analysis.repository?.fullName ?? "Unknown",
+		branch: analysis.repository?.branch ?? null,
+		commitSha: analysis.commitSha ?? null,
+		rootPath: analysis.rootPath ?? null,
+		treeTruncated: analysis.treeTruncated ?? false,
 		rubric: analysis.rubric?.name ?? "Unknown",
 		summary: {
 			totalItems: analysis.totalItems,
@@ -73,6 +112,20 @@ export function exportAsMarkdown(analysis: ExportableAnalysis): string {
 	lines.push(`# Analysis Results`);
 	lines.push("");
 	lines.push(`**Repository:** ${analysis.repository?.fullName ?? "Unknown"}`);
+	if (analysis.repository?.branch) {
+		lines.push(`**Branch:** ${analysis.repository.branch}`);
+	}
+	if (analysis.commitSha) {
+		lines.push(`**Commit:** ${analysis.commitSha}`);
+	}
+	if (analysis.rootPath) {
+		lines.push(`**Root path:** ${analysis.rootPath}`);
+	}
+	if (analysis.treeTruncated) {
+		lines.push(
+			"**Note:** The file listing was too large to read in full, so only part of the repository was analyzed",
+		);
+	}
 	lines.push(`**Rubric:** ${analysis.rubric?.name ?? "Unknown"}`);
 	lines.push(`**Status:** ${analysis.status}`);
 	lines.push(
@@ -165,12 +218,15 @@ export function exportAsMarkdown(analysis: ExportableAnalysis): string {
 					lineEnd: number;
 					code: string;
 					explanation: string;
+					diffUrl?: string;
 				}>;
 				lines.push(`**Examples:** ${examples.length} found`);
 				lines.push("");
 				for (const example of examples) {
+					const heading = `${example.filePath} (L${example.lineStart}-${example.lineEnd})`;
+					const permalink = getExamplePermalink(analysis, example);
 					lines.push(
-						`#### ${example.filePath} (L${example.lineStart}-${example.lineEnd})`,
+						permalink ? `#### [${heading}](${permalink})` : `#### ${heading}`,
 					);
 					lines.push("");
 					lines.push("```");
@@ -181,18 +237,35 @@ export function exportAsMarkdown(analysis: ExportableAnalysis): string {
 						lines.push(example.explanation);
 						lines.push("");
 					}
+					if (example.diffUrl) {
+						lines.push(`[View in pull request diff](${example.diffUrl})`);
+						lines.push("");
+					}
 				}
 				break;
 			}
 			case "options": {
 				const selections = res.selections as string[];
+				const otherValue = res.otherValue as string | undefined;
+				const rationales =
+					(res.rationales as
+						| Array<{ option: string; rationale: string }>
+						| undefined) ?? [];
 				lines.push("**Selections:**");
 				lines.push("");
 				if (selections.length === 0) {
 					lines.push("(none)");
 				} else {
 					for (const selection of selections) {
-						lines.push(`- ${selection}`);
+						const label =
+							otherValue &&
+							selection.toLowerCase() === OTHER_OPTION.toLowerCase()
+								? `${selection}: ${otherValue}`
+								: selection;
+						const rationale = rationales.find(
+							(entry) => entry.option === selection,
+						)?.rationale;
+						lines.push(rationale ? `- ${label} — ${rationale}` : `- ${label}`);
 					}
 				}
 				break;
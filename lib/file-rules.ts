@@ -0,0 +1,164 @@
+/**
+ * File inclusion rules
+ * Glob lists and budget overrides that control which repository files are
+ * sent for analysis. Stored on repositories and rubrics and merged when an
+ * analysis runs.
+ */
+
+export interface FileRules {
+	// Extra files to consider, e.g. "*.dart" or "lib/**/*.ex"
+	include?: string[];
+	// Files to ignore, e.g. "third_party/" or "**/*.generated.ts"
+	exclude?: string[];
+	maxFiles?: number;
+	maxTotalBytes?: number;
+	maxFileBytes?: number;
+}
+
+// Bounds for budget overrides, so a rule can't blow past the model's context
+export const FILE_RULE_LIMITS = {
+	maxPatterns: 50,
+	maxPatternLength: 200,
+	maxFiles: { min: 1, max: 500 },
+	maxTotalBytes: { min: 1024, max: 2 * 1024 * 1024 },
+	maxFileBytes: { min: 1024, max: 1024 * 1024 },
+} as const;
+
+const BUDGET_LABELS = {
+	maxFiles: "Max files",
+	maxTotalBytes: "Max total bytes",
+	maxFileBytes: "Max file bytes",
+} as const;
+
+/**
+ * Validates file rules before they are stored.
+ *
+ * @returns An error message, or null when the rules are valid
+ */
+export function validateFileRules(rules: FileRules): string | null {
+	for (const patterns of [rules.include, rules.exclude]) {
+		if (!patterns) continue;
+		if (patterns.length > FILE_RULE_LIMITS.maxPatterns) {
+			return `At most ${FILE_RULE_LIMITS.maxPatterns} patterns are allowed per list`;
+		}
+		for (const pattern of patterns) {
+			if (!pattern.trim()) {
+				return "Patterns cannot be empty";
+			}
+			if (pattern.length > FILE_RULE_LIMITS.maxPatternLength) {
+				return `Patterns must be at most ${FILE_RULE_LIMITS.maxPatternLength} characters`;
+			}
+		}
+	}
+
+	for (const key of ["maxFiles", "maxTotalBytes", "maxFileBytes"] as const) {
+		const value = rules[key];
+		if (value === undefined) continue;
+		const { min, max } = FILE_RULE_LIMITS[key];
+		if (!Number.isInteger(value) || value < min || value > max) {
+			return `${BUDGET_LABELS[key]} must be a whole number between ${min} and ${max}`;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Merges repository and rubric rules. Glob lists are combined; a budget set
+ * on the rubric takes precedence over the repository's.
+ */
+export function mergeFileRules(
+	repositoryRules: FileRules | undefined,
+	rubricRules: FileRules | undefined,
+): FileRules {
+	const repository = repositoryRules ?? {};
+	const rubric = rubricRules ?? {};
+
+	return {
+		include: unique([...(repository.include ?? []), ...(rubric.include ?? [])]),
+		exclude: unique([...(repository.exclude ?? []), ...(rubric.exclude ?? [])]),
+		maxFiles: rubric.maxFiles ?? repository.maxFiles,
+		maxTotalBytes: rubric.maxTotalBytes ?? repository.maxTotalBytes,
+		maxFileBytes: rubric.maxFileBytes ?? repository.maxFileBytes,
+	};
+}
+
+function unique(values: string[]): string[] {
+	return Array.from(new Set(values.map((value) => value.trim())));
+}
+
+const globCache = new Map<string, RegExp>();
+
+/**
+ * Converts a gitignore-style glob into a regular expression over repository
+ * paths:
+ * - a pattern without a slash matches at any depth ("*.dart")
+ * - a trailing slash matches everything under a directory ("third_party/")
+ * - "**" matches any number of directories, "*" and "?" stay within one
+ * - "{a,b}" matches either alternative
+ */
+export function globToRegExp(pattern: string): RegExp {
+	const cached = globCache.get(pattern);
+	if (cached) {
+		return cached;
+	}
+
+	let glob = pattern.trim();
+	const isDirectory = glob.endsWith("/");
+	glob = glob.replace(/^\/+|\/+$/g, "");
+
+	// Patterns without a slash aren't anchored to the repository root
+	const anchored = pattern.trim().startsWith("/") || glob.includes("/");
+
+	let source = "";
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === "*") {
+			if (glob[i + 1] === "*") {
+				// "**/" matches zero or more directories
+				if (glob[i + 2] === "/") {
+					source += "(?:.*/)?";
+					i += 2;
+				} else {
+					source += ".*";
+					i += 1;
+				}
+			} else {
+				source += "[^/]*";
+			}
+		} else if (char === "?") {
+			source += "[^/]";
+		} else if (char === "{") {
+			const end = glob.indexOf("}", i);
+			if (end === -1) {
+				source += "\\{";
+			} else {
+				const alternatives = glob
+					.slice(i + 1, end)
+					.split(",")
+					.map(escapeRegExp);
+				source += `(?:${alternatives.join("|")})`;
+				i = end;
+			}
+		} else {
+			source += escapeRegExp(char);
+		}
+	}
+
+	const prefix = anchored ? "^" : "^(?:.*/)?";
+	const suffix = isDirectory ? "/.*$" : "(?:/.*)?$";
+	const regex = new RegExp(`${prefix}${source}${suffix}`);
+	globCache.set(pattern, regex);
+	return regex;
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Checks a repository path against a list of globs.
+ */
+export function matchesAnyGlob(path: string, patterns: string[]): boolean {
+	return patterns.some((pattern) => globToRegExp(pattern).test(path));
+}
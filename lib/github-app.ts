@@ -0,0 +1,240 @@
+/**
+ * GitHub App authentication helpers.
+ * Server-only: signs app JWTs with the app's private key and exchanges them
+ * for short-lived installation tokens.
+ */
+
+import { createSign } from "node:crypto";
+
+const GITHUB_API_URL = "https://api.github.com";
+
+export interface GitHubAppCredentials {
+	appId: string;
+	privateKey: string;
+	// OAuth client, used to confirm who completed an installation
+	clientId?: string;
+	clientSecret?: string;
+}
+
+export interface InstallationToken {
+	token: string;
+	expiresAt: string;
+}
+
+export interface RepositoryAccess {
+	isPrivate: boolean;
+	defaultBranch: string;
+}
+
+/**
+ * Reads the GitHub App credentials from the environment.
+ * Private keys stored in env vars often have escaped newlines.
+ *
+ * @returns The credentials, or null when no GitHub App is configured
+ */
+export function getGitHubAppCredentials(): GitHubAppCredentials | null {
+	const appId = process.env.GITHUB_APP_ID;
+	const privateKey = process.env.GITHUB_APP_PRIVATE_KEY;
+
+	if (!appId || !privateKey) {
+		return null;
+	}
+
+	return {
+		appId,
+		privateKey: privateKey.replace(/\\n/g, "\n"),
+		clientId: process.env.GITHUB_APP_CLIENT_ID,
+		clientSecret: process.env.GITHUB_APP_CLIENT_SECRET,
+	};
+}
+
+function base64Url(value: string | Buffer): string {
+	return Buffer.from(value).toString("base64url");
+}
+
+/**
+ * Creates a JWT that authenticates as the GitHub App itself.
+ * Valid for 9 minutes, backdated by a minute to allow for clock drift.
+ */
+export function createAppJwt(
+	credentials: GitHubAppCredentials,
+	now = Date.now(),
+): string {
+	const issuedAt = Math.floor(now / 1000) - 60;
+	const header = base64Url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+	const payload = base64Url(
+		JSON.stringify({
+			iat: issuedAt,
+			exp: issuedAt + 10 * 60,
+			iss: credentials.appId,
+		}),
+	);
+
+	const signer = createSign("RSA-SHA256");
+	signer.update(`${header}.${payload}`);
+	const signature = base64Url(signer.sign(credentials.privateKey));
+
+	return `${header}.${payload}.${signature}`;
+}
+
+function appHeaders(jwt: string): Record<string, string> {
+	return {
+		Accept: "application/vnd.github.v3+json",
+		"User-Agent": "MLH-Code-Review-App",
+		Authorization: `Bearer ${jwt}`,
+	};
+}
+
+/**
+ * Confirms that the GitHub user who completed an installation can access it.
+ * The setup callback's installation_id can be forged, so the OAuth code GitHub
+ * sends alongside it is exchanged for a user token and checked against the
+ * installations that user can see.
+ *
+ * @returns The account the installation belongs to
+ * @throws When the installation isn't accessible to the authorizing user
+ */
+export async function verifyInstallationOwnership(
+	credentials: GitHubAppCredentials,
+	installationId: number,
+	code: string,
+): Promise<{ login: string }> {
+	if (!credentials.clientId || !credentials.clientSecret) {
+		throw new Error("GitHub App OAuth client is not configured");
+	}
+
+	const tokenResponse = await fetch(
+		"https://github.com/login/oauth/access_token",
+		{
+			method: "POST",
+			headers: {
+				Accept: "application/json",
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify({
+				client_id: credentials.clientId,
+				client_secret: credentials.clientSecret,
+				code,
+			}),
+		},
+	);
+
+	const tokenData = (await tokenResponse.json()) as {
+		access_token?: string;
+		error_description?: string;
+	};
+	if (!tokenResponse.ok || !tokenData.access_token) {
+		throw new Error(
+			`Failed to authorize with GitHub: ${tokenData.error_description ?? tokenResponse.status}`,
+		);
+	}
+
+	const installationsResponse = await fetch(
+		`${GITHUB_API_URL}/user/installations`,
+		{
+			headers: {
+				Accept: "application/vnd.github.v3+json",
+				"User-Agent": "MLH-Code-Review-App",
+				Authorization: `Bearer ${tokenData.access_token}`,
+			},
+		},
+	);
+
+	if (!installationsResponse.ok) {
+		throw new Error(
+			`Failed to list GitHub App installations: ${installationsResponse.status} ${installationsResponse.statusText}`,
+		);
+	}
+
+	const { installations } = (await installationsResponse.json()) as {
+		installations: Array<{ id: number; account: { login: string } }>;
+	};
+	const installation = installations.find((item) => item.id === installationId);
+	if (!installation) {
+		throw new Error("GitHub App installation not found for this GitHub user");
+	}
+
+	return { login: installation.account.login };
+}
+
+/**
+ * Creates a short-lived, read-only installation token.
+ * When a repository name is given the token only grants access to that repository.
+ */
+export async function createInstallationToken(
+	credentials: GitHubAppCredentials,
+	installationId: number,
+	repositoryName?: string,
+): Promise<InstallationToken> {
+	const response = await fetch(
+		`${GITHUB_API_URL}/app/installations/${installationId}/access_tokens`,
+		{
+			method: "POST",
+			headers: {
+				...appHeaders(createAppJwt(credentials)),
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify({
+				...(repositoryName && { repositories: [repositoryName] }),
+				permissions: {
+					contents: "read",
+					metadata: "read",
+					pull_requests: "read",
+				},
+			}),
+		},
+	);
+
+	if (!response.ok) {
+		throw new Error(
+			response.status === 404 || response.status === 422
+				? "The GitHub App installation cannot access this repository"
+				: `Failed to create installation token: ${response.status} ${response.statusText}`,
+		);
+	}
+
+	const data = (await response.json()) as {
+		token: string;
+		expires_at: string;
+	};
+	return { token: data.token, expiresAt: data.expires_at };
+}
+
+/**
+ * Checks that a repository can be read, using an installation token when one
+ * is available and anonymous access otherwise.
+ *
+ * @throws When the repository doesn't exist or isn't accessible
+ */
+export async function verifyRepositoryAccess(
+	owner: string,
+	name: string,
+	token?: string,
+): Promise<RepositoryAccess> {
+	const response = await fetch(`${GITHUB_API_URL}/repos/${owner}/${name}`, {
+		headers: {
+			Accept: "application/vnd.github.v3+json",
+			"User-Agent": "MLH-Code-Review-App",
+			...(token && { Authorization: `Bearer ${token}` }),
+		},
+	});
+
+	if (!response.ok) {
+		if (response.status === 404) {
+			throw new Error(
+				token
+					? `Repository not found or not shared with the GitHub App: ${owner}/${name}`
+					: `Repository not found: ${owner}/${name}. Link the GitHub App to connect private repositories.`,
+			);
+		}
+		throw new Error(
+			`Failed to verify repository access: ${response.status} ${response.statusText}`,
+		);
+	}
+
+	const data = (await response.json()) as {
+		private: boolean;
+		default_branch: string;
+	};
+	return { isPrivate: data.private, defaultBranch: data.default_branch };
+}
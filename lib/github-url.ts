@@ -1,18 +1,37 @@
 /**
  * GitHub URL Parser Utility
- * Parses various GitHub repository URL formats and extracts owner, repo, and optional branch.
+ * Parses various GitHub repository URL formats and extracts owner, repo, and an
+ * optional branch, commit, tag or pull request.
  */
 
+import { isNotebook } from "./notebooks";
+
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{7,40}$/i;
+const PULL_REQUEST_NUMBER_PATTERN = /^[1-9][0-9]*$/;
+
+export type GitHubRefType = "branch" | "commit" | "tag" | "pull_request";
+
 export interface ParsedGitHubUrl {
 	owner: string;
 	repo: string;
 	branch?: string;
+	commit?: string;
+	tag?: string;
+	pullRequest?: number;
+}
+
+export interface GitHubRef {
+	refType: GitHubRefType;
+	// Branch name, commit SHA, tag name or pull request number
+	ref: string;
 }
 
 export interface GitHubFileUrlArgs {
 	owner: string;
 	repo: string;
 	branch: string;
+	// Preferred over the branch so links keep pointing at the analyzed code
+	commitSha?: string;
 	filePath: string;
 	lineStart?: number;
 	lineEnd?: number;
@@ -31,13 +50,17 @@ export interface GitHubUrlParseError {
 export type GitHubUrlParseResult = GitHubUrlParseSuccess | GitHubUrlParseError;
 
 /**
- * Parses a GitHub repository URL and extracts owner, repo name, and optional branch.
+ * Parses a GitHub repository URL and extracts owner, repo name, and optional
+ * branch, commit, tag or pull request.
  *
  * Supported formats:
  * - https://github.com/owner/repo
  * - https://github.com/owner/repo.git
  * - https://github.com/owner/repo/tree/branch
- * - https://github.com/owner/repo/tree/branch/path/to/file
+ * - https://github.com/owner/repo/tree/branch/path/to/dir
+ * - https://github.com/owner/repo/commit/sha
+ * - https://github.com/owner/repo/releases/tag/tag
+ * - https://github.com/owner/repo/pull/123
  * - git@github.com:owner/repo.git
  * - git@github.com:owner/repo
  *
@@ -141,13 +164,49 @@ export function parseGitHubUrl(url: string): GitHubUrlParseResult {
 	}
 
 	// Check for branch in /tree/branch format
-	// Branch names can contain slashes, so we join all remaining parts after "tree"
+	// Branch names can contain slashes, so we join all remaining parts after "tree".
+	// A trailing directory can't be told apart from the branch without asking
+	// GitHub; see splitTreeRef
 	let branch: string | undefined;
 	if (parts.length >= 4 && parts[2] === "tree") {
 		// Join all parts after "tree" to support branch names with slashes
 		branch = parts.slice(3).join("/");
 	}
 
+	// Check for /commit/<sha>
+	if (parts.length >= 4 && parts[2] === "commit") {
+		const commit = parts[3];
+		if (!COMMIT_SHA_PATTERN.test(commit)) {
+			return {
+				success: false,
+				error: "Invalid commit SHA in URL",
+			};
+		}
+		return { success: true, data: { owner, repo, commit } };
+	}
+
+	// Check for /releases/tag/<tag> (tags can contain slashes)
+	if (parts.length >= 5 && parts[2] === "releases" && parts[3] === "tag") {
+		return {
+			success: true,
+			data: { owner, repo, tag: parts.slice(4).join("/") },
+		};
+	}
+
+	// Check for /pull/<number>, ignoring sub-pages like /files
+	if (parts.length >= 4 && parts[2] === "pull") {
+		if (!PULL_REQUEST_NUMBER_PATTERN.test(parts[3])) {
+			return {
+				success: false,
+				error: "Invalid pull request number in URL",
+			};
+		}
+		return {
+			success: true,
+			data: { owner, repo, pullRequest: Number(parts[3]) },
+		};
+	}
+
 	return {
 		success: true,
 		data: {
@@ -158,6 +217,114 @@ export function parseGitHubUrl(url: string): GitHubUrlParseResult {
 	};
 }
 
+/**
+ * Gets the ref a parsed URL points at, or undefined for a bare repository URL.
+ */
+export function getGitHubRef(data: ParsedGitHubUrl): GitHubRef | undefined {
+	if (data.commit) {
+		return { refType: "commit", ref: data.commit };
+	}
+	if (data.tag) {
+		return { refType: "tag", ref: data.tag };
+	}
+	if (data.pullRequest !== undefined) {
+		return { refType: "pull_request", ref: String(data.pullRequest) };
+	}
+	if (data.branch) {
+		return { refType: "branch", ref: data.branch };
+	}
+	return undefined;
+}
+
+/**
+ * Lists the ways a "/tree/" ref could split into a branch and a directory,
+ * longest branch first, e.g. "main/apps/web" gives "main/apps/web",
+ * "main/apps" + "web" and "main" + "apps/web". The first candidate whose
+ * branch exists is the right one.
+ */
+export function splitTreeRef(
+	value: string,
+): Array<{ branch: string; rootPath?: string }> {
+	const parts = value.split("/").filter(Boolean);
+	return parts.map((_, index) => {
+		const end = parts.length - index;
+		return end === parts.length
+			? { branch: parts.join("/") }
+			: {
+					branch: parts.slice(0, end).join("/"),
+					rootPath: parts.slice(end).join("/"),
+				};
+	});
+}
+
+/**
+ * Normalizes a repository subdirectory to analyze, e.g. "/apps/web/" becomes
+ * "apps/web". Returns undefined for the repository root.
+ *
+ * @throws When the path tries to leave the repository
+ */
+export function normalizeRootPath(
+	path: string | undefined,
+): string | undefined {
+	const parts = (path ?? "").split("/").filter(Boolean);
+	if (parts.some((part) => part === "." || part === "..")) {
+		throw new Error("Invalid root path");
+	}
+	return parts.length > 0 ? parts.join("/") : undefined;
+}
+
+/**
+ * Checks that a ref fits its type: a pull request number, a commit SHA, or a
+ * non-empty branch or tag name.
+ *
+ * @returns An error message, or null when the ref is valid
+ */
+export function validateGitHubRef({ refType, ref }: GitHubRef): string | null {
+	switch (refType) {
+		case "pull_request":
+			return PULL_REQUEST_NUMBER_PATTERN.test(ref)
+				? null
+				: "Pull request must be a positive whole number";
+		case "commit":
+			return COMMIT_SHA_PATTERN.test(ref)
+				? null
+				: "Commit must be a SHA of 7 to 40 hex characters";
+		default:
+			return ref.trim() ? null : `A ${refType} name is required`;
+	}
+}
+
+/**
+ * Converts a stored ref into something the GitHub API accepts wherever a ref
+ * is expected. Pull requests resolve to their head commit.
+ */
+export function toGitRef({ refType, ref }: GitHubRef): string {
+	switch (refType) {
+		case "pull_request":
+			return `refs/pull/${ref}/head`;
+		case "tag":
+			return `refs/tags/${ref}`;
+		default:
+			return ref;
+	}
+}
+
+/**
+ * Formats a ref for display, e.g. "main", "a1b2c3d", "tag v1.0" or "PR #12".
+ */
+export function formatGitHubRef({ refType, ref }: GitHubRef): string {
+	switch (refType) {
+		case "commit":
+			return ref.slice(0, 7);
+		case "tag":
+			return `tag ${ref}`;
+		case "pull_request":
+			return `PR #${ref}`;
+		default:
+			return ref;
+	}
+}
+
 /**
  * Validates that a string is a valid GitHub owner or repository name.
  * GitHub usernames and repo names can contain alphanumeric characters and hyphens,
@@ -189,6 +356,15 @@ function isValidOwnerOrRepo(name: string): boolean {
  */
 export function constructGitHubUrl(data: ParsedGitHubUrl): string {
 	const baseUrl = `https://github.com/${data.owner}/${data.repo}`;
+	if (data.commit) {
+		return `${baseUrl}/commit/${data.commit}`;
+	}
+	if (data.tag) {
+		return `${baseUrl}/releases/tag/${data.tag}`;
+	}
+	if (data.pullRequest !== undefined) {
+		return `${baseUrl}/pull/${data.pullRequest}`;
+	}
 	if (data.branch) {
 		return `${baseUrl}/tree/${data.branch}`;
 	}
@@ -197,18 +373,26 @@ export function constructGitHubUrl(data: ParsedGitHubUrl): string {
 
 /**
  * Constructs a GitHub file URL with optional line range anchors.
+ * When a commit SHA is given the URL is a permalink to that commit.
+ * Notebooks get no anchors: their line numbers count rendered cell text,
+ * which doesn't line up with the stored .ipynb.
  */
 export function constructGitHubFileUrl({
 	owner,
 	repo,
 	branch,
+	commitSha,
 	filePath,
 	lineStart,
 	lineEnd,
 }: GitHubFileUrlArgs): string {
-	const encodedBranch = encodePathSegments(branch);
+	const encodedRef = encodePathSegments(commitSha ?? branch);
 	const encodedPath = encodePathSegments(filePath);
-	const baseUrl = `https://github.com/${owner}/${repo}/blob/${encodedBranch}/${encodedPath}`;
+	const baseUrl = `https://github.com/${owner}/${repo}/blob/${encodedRef}/${encodedPath}`;
+
+	if (isNotebook(filePath)) {
+		return baseUrl;
+	}
 
 	if (lineStart && lineEnd && lineEnd !== lineStart) {
 		return `${baseUrl}#L${lineStart}-L${lineEnd}`;
@@ -221,6 +405,17 @@ export function constructGitHubFileUrl({
 	return baseUrl;
 }
 
+/**
+ * Constructs the GitHub URL of a single commit.
+ */
+export function constructGitHubCommitUrl(
+	owner: string,
+	repo: string,
+	commitSha: string,
+): string {
+	return `https://github.com/${owner}/${repo}/commit/${commitSha}`;
+}
+
 /**
  * Checks if a URL is a valid GitHub repository URL without parsing details.
  *
@@ -0,0 +1,150 @@
+/**
+ * Model registry
+ * The AI models rubric items can be evaluated with. Gateway models are
+ * called through the AI Gateway by their "provider/model" id; the mock
+ * provider answers offline for tests and local development.
+ */
+
+export type ModelProvider = "google" | "openai" | "anthropic" | "mock";
+
+export interface ModelInfo {
+	// "<provider>/<model>", stored on rubrics and rubric items
+	id: string;
+	provider: ModelProvider;
+	modelId: string;
+	label: string;
+	// Max tokens the model accepts in one request
+	contextWindow: number;
+	// USD per token
+	inputCostPerToken: number;
+	outputCostPerToken: number;
+}
+
+export const MODELS: ModelInfo[] = [
+	{
+		id: "google/gemini-2.5-flash",
+		provider: "google",
+		modelId: "gemini-2.5-flash",
+		label: "Gemini 2.5 Flash",
+		contextWindow: 1_048_576,
+		inputCostPerToken: 0.3 / 1_000_000,
+		outputCostPerToken: 2.5 / 1_000_000,
+	},
+	{
+		id: "google/gemini-2.5-pro",
+		provider: "google",
+		modelId: "gemini-2.5-pro",
+		label: "Gemini 2.5 Pro",
+		contextWindow: 1_048_576,
+		inputCostPerToken: 1.25 / 1_000_000,
+		outputCostPerToken: 10 / 1_000_000,
+	},
+	{
+		id: "openai/gpt-5-mini",
+		provider: "openai",
+		modelId: "gpt-5-mini",
+		label: "GPT-5 mini",
+		contextWindow: 400_000,
+		inputCostPerToken: 0.25 / 1_000_000,
+		outputCostPerToken: 2 / 1_000_000,
+	},
+	{
+		id: "anthropic/claude-sonnet-4",
+		provider: "anthropic",
+		modelId: "claude-sonnet-4",
+		label: "Claude Sonnet 4",
+		contextWindow: 200_000,
+		inputCostPerToken: 3 / 1_000_000,
+		outputCostPerToken: 15 / 1_000_000,
+	},
+	{
+		id: "mock/deterministic",
+		provider: "mock",
+		modelId: "deterministic",
+		label: "Mock (offline)",
+		contextWindow: 1_048_576,
+		inputCostPerToken: 0,
+		outputCostPerToken: 0,
+	},
+];
+
+export const DEFAULT_MODEL_ID = "google/gemini-2.5-flash";
+
+// Max evaluations of one item in self-consistency mode
+export const MAX_SAMPLES = 5;
+
+export function isKnownModel(id: string): boolean {
+	return MODELS.some((model) => model.id === id);
+}
+
+/**
+ * Lists the models rubrics can be set to. The mock provider is only offered
+ * in development and tests, so deployed rubrics are always really evaluated.
+ */
+export function getSelectableModels(
+	environment: string | undefined = process.env.NODE_ENV,
+): ModelInfo[] {
+	const allowMock = environment === "development" || environment === "test";
+	return MODELS.filter((model) => model.provider !== "mock" || allowMock);
+}
+
+export function isSelectableModel(
+	id: string,
+	environment: string | undefined = process.env.NODE_ENV,
+): boolean {
+	return getSelectableModels(environment).some((model) => model.id === id);
+}
+
+/**
+ * Looks up a model in the registry.
+ *
+ * @throws When the id isn't registered
+ */
+export function getModel(id: string): ModelInfo {
+	const model = MODELS.find((candidate) => candidate.id === id);
+	if (!model) {
+		throw new Error(`Unknown model: ${id}`);
+	}
+	return model;
+}
+
+/**
+ * Picks the model for a rubric item: the item's override, then the rubric's,
+ * then the deployment default.
+ */
+export function resolveModelId(overrides: {
+	itemModelId?: string;
+	rubricModelId?: string;
+	defaultModelId?: string;
+}): string {
+	return (
+		overrides.itemModelId ??
+		overrides.rubricModelId ??
+		overrides.defaultModelId ??
+		DEFAULT_MODEL_ID
+	);
+}
+
+/**
+ * Prices a model call from its token counts.
+ *
+ * @returns Cost in USD
+ */
+export function computeCost(
+	modelId: string,
+	inputTokens: number,
+	outputTokens: number,
+): number {
+	const model = getModel(modelId);
+	return (
+		inputTokens * model.inputCostPerToken +
+		outputTokens * model.outputCostPerToken
+	);
+}
+
+// Format a USD cost, keeping precision for the fractions of a cent single
+// items usually cost
+export function formatCost(cost: number): string {
+	if (cost === 0) return "$0";
+	return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
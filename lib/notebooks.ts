@@ -0,0 +1,9 @@
+/**
+ * Notebooks
+ * Jupyter notebooks are evaluated as their rendered cell text rather than the
+ * stored JSON, so line numbers cited in them don't point into the .ipynb file.
+ */
+
+export function isNotebook(path: string): boolean {
+	return path.toLowerCase().endsWith(".ipynb");
+}
@@ -0,0 +1,55 @@
+/**
+ * Spending quotas
+ * Each user can queue a number of rubric item evaluations and spend a number
+ * of model tokens per calendar month (UTC). Admins can raise either limit for
+ * a user.
+ */
+
+export const DEFAULT_MONTHLY_ITEM_QUOTA = 1000;
+export const DEFAULT_MONTHLY_TOKEN_QUOTA = 50_000_000;
+
+export interface QuotaStatus {
+	periodStart: number;
+	resetsAt: number;
+	items: { used: number; limit: number };
+	tokens: { used: number; limit: number };
+}
+
+// The calendar month (UTC) containing the timestamp
+export function getQuotaPeriod(now: number): { start: number; end: number } {
+	const date = new Date(now);
+	return {
+		start: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1),
+		end: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1),
+	};
+}
+
+// Items a user can still queue this period
+export function getRemainingItems(status: QuotaStatus): number {
+	return Math.max(0, status.items.limit - status.items.used);
+}
+
+/**
+ * Checks that queuing more items stays within the quota.
+ *
+ * @throws With the limit that was hit and when it resets
+ */
+export function assertWithinQuota(
+	status: QuotaStatus,
+	requestedItems: number,
+): void {
+	const resetsOn = new Date(status.resetsAt).toISOString().slice(0, 10);
+
+	if (status.tokens.used >= status.tokens.limit) {
+		throw new Error(
+			`Monthly token quota of ${status.tokens.limit.toLocaleString("en-US")} tokens reached. It resets on ${resetsOn}.`,
+		);
+	}
+
+	const remaining = getRemainingItems(status);
+	if (requestedItems > remaining) {
+		throw new Error(
+			`Monthly quota exceeded: this needs ${requestedItems} item evaluations but only ${remaining} of ${status.items.limit} remain. It resets on ${resetsOn}.`,
+		);
+	}
+}
@@ -0,0 +1,69 @@
+/**
+ * Range scores
+ * A range item's score must fall between its configured bounds and, when the
+ * item sets a step, on one of the steps counted up from the minimum (a step
+ * of 1 with whole-number bounds allows whole numbers only).
+ */
+
+export const DEFAULT_RANGE_MIN = 0;
+export const DEFAULT_RANGE_MAX = 100;
+
+export interface RangeBounds {
+	min: number;
+	max: number;
+	step?: number;
+}
+
+// Absorbs floating point error when checking for a whole number of steps
+const STEP_TOLERANCE = 1e-9;
+
+export function getRangeBounds(config?: {
+	minValue?: number;
+	maxValue?: number;
+	rangeStep?: number;
+}): RangeBounds {
+	return {
+		min: config?.minValue ?? DEFAULT_RANGE_MIN,
+		max: config?.maxValue ?? DEFAULT_RANGE_MAX,
+		step: config?.rangeStep,
+	};
+}
+
+export function isValidScore(value: number, bounds: RangeBounds): boolean {
+	if (!Number.isFinite(value) || value < bounds.min || value > bounds.max) {
+		return false;
+	}
+	if (!bounds.step) {
+		return true;
+	}
+	const steps = (value - bounds.min) / bounds.step;
+	return Math.abs(steps - Math.round(steps)) < STEP_TOLERANCE;
+}
+
+// The nearest valid score: clamped into the bounds, then snapped to a step
+export function clampScore(value: number, bounds: RangeBounds): number {
+	const clamped = Number.isFinite(value)
+		? Math.min(Math.max(value, bounds.min), bounds.max)
+		: bounds.min;
+	if (!bounds.step) {
+		return clamped;
+	}
+
+	let steps = Math.round((clamped - bounds.min) / bounds.step);
+	if (bounds.min + steps * bounds.step > bounds.max + STEP_TOLERANCE) {
+		steps -= 1;
+	}
+	// Round away float noise such as 0.30000000000000004
+	return Number((bounds.min + steps * bounds.step).toFixed(10));
+}
+
+// Describes the allowed scores, for prompts and error messages
+export function describeRange(bounds: RangeBounds): string {
+	const range = `from ${bounds.min} to ${bounds.max}`;
+	if (!bounds.step) {
+		return range;
+	}
+	return bounds.step === 1 && Number.isInteger(bounds.min)
+		? `${range}, in whole numbers`
+		: `${range}, in steps of ${bounds.step}`;
+}
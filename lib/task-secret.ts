@@ -0,0 +1,28 @@
+/**
+ * Task secret
+ * Mutations that only the background tasks or the app's own server code may
+ * call, such as those writing data shared across users or recording checks
+ * made against GitHub, take a secret known to the Convex deployment, the task
+ * runner and the Next.js server. Set TASK_SECRET to the same value in each.
+ */
+
+// For the tasks and server code: the secret to send with guarded mutations
+export function getTaskSecret(): string {
+	const secret = process.env.TASK_SECRET;
+	if (!secret) {
+		throw new Error("TASK_SECRET is not configured");
+	}
+	return secret;
+}
+
+/**
+ * For Convex functions: rejects calls that don't carry the task secret.
+ *
+ * @throws When the secret is missing, wrong, or not configured
+ */
+export function assertTaskSecret(secret: string): void {
+	const expected = process.env.TASK_SECRET;
+	if (!expected || secret !== expected) {
+		throw new Error("Invalid task secret");
+	}
+}
@@ -33,3 +33,29 @@ export function formatOptionList(options?: string[]): string {
 
 	return options.join("\n");
 }
+
+// The choice the AI makes to give an answer outside an item's options
+export const OTHER_OPTION = "Other";
+
+// Maps selections onto the options' own spelling, dropping repeats. Selections
+// that match no option are kept as given.
+export function canonicalizeSelections(
+	selections: string[],
+	options: string[],
+): string[] {
+	const canonical = new Map(
+		options.map((option) => [option.trim().toLowerCase(), option.trim()]),
+	);
+	const seen = new Set<string>();
+	const result: string[] = [];
+
+	for (const selection of selections) {
+		const key = selection.trim().toLowerCase();
+		if (!seen.has(key)) {
+			seen.add(key);
+			result.push(canonical.get(key) ?? selection.trim());
+		}
+	}
+
+	return result;
+}
@@ -1,14 +1,71 @@
 import { batch, metadata, task } from "@trigger.dev/sdk/v3";
-import { generateObject } from "ai";
+import { generateObject, NoObjectGeneratedError } from "ai";
 import { ConvexHttpClient } from "convex/browser";
 import { z } from "zod";
 import { api } from "../convex/_generated/api";
 import type { Id } from "../convex/_generated/dataModel";
+import { mergeFileRules } from "../lib/file-rules";
+import {
+	createInstallationToken,
+	getGitHubAppCredentials,
+} from "../lib/github-app";
+import { toGitRef } from "../lib/github-url";
+import {
+	computeCost,
+	getModel,
+	MAX_SAMPLES,
+	resolveModelId,
+} from "../lib/models";
+import { isNotebook } from "../lib/notebooks";
+import {
+	clampScore,
+	describeRange,
+	getRangeBounds,
+	isValidScore,
+} from "../lib/range-scores";
+import { getTaskSecret } from "../lib/task-secret";
+import { canonicalizeSelections, OTHER_OPTION } from "../lib/utils";
+import {
+	type CitedLines,
+	locateSnippet,
+	normalizeLineEndings,
+	normalizeSnippet,
+	type SnippetMatch,
+	verifyCitations,
+} from "./citations";
+import {
+	type EvaluationContent,
+	type EvaluationContentReference,
+	loadEvaluationContent,
+	storeEvaluationContent,
+} from "./evaluation-content";
+import { createMockEvaluation } from "./mock-model";
+import {
+	assemblePrompt,
+	estimateTokens,
+	type PromptBudget,
+} from "./prompt-budget";
+import {
+	constructPullRequestDiffUrl,
+	fetchPullRequestDiff,
+	findDiffHunk,
+	type PullRequestDiff,
+	withPatchedFiles,
+} from "./pull-request-diff";
+import { type RepositoryContent, resolveFileRules } from "./repository-content";
+import {
+	createRepositorySource,
+	type RepositorySourceDescriptor,
+	resolveTreeRef,
+} from "./repository-source";
+import { aggregateSamples, dedupeCodeExamples } from "./self-consistency";
+import { fetchRepositoryContentCached } from "./snapshot-cache";
 
 // Evaluation result types
 interface YesNoResult {
 	value: boolean;
 	justification: string;
+	citations: CitedLines[];
 }
 
 interface RangeResult {
@@ -16,10 +73,13 @@ interface RangeResult {
 	min: number;
 	max: number;
 	rationale: string;
+	citations: CitedLines[];
 }
 
 interface CommentsResult {
 	feedback: string;
+	citations: CitedLines[];
+	justification?: string; // Only when the item requires one
 }
 
 interface CodeExample {
@@ -28,14 +88,27 @@ interface CodeExample {
 	lineEnd: number;
 	code: string;
 	explanation: string;
+	// How the snippet matched the repository; set once examples are aligned
+	verified?: SnippetMatch;
+	// Link to the lines in the pull request diff, for diff-scoped analyses
+	diffUrl?: string;
 }
 
 interface CodeExamplesResult {
 	examples: CodeExample[];
 }
 
+interface OptionRationale {
+	option: string;
+	rationale: string;
+}
+
 interface OptionsResult {
-	selections: string[];
+	selections: string[]; // Spelled as in the item's options
+	otherValue?: string; // The free-text answer, when "Other" was selected
+	rationales: OptionRationale[]; // One per selection
+	citations: CitedLines[];
+	justification?: string; // Only when the item requires one
 }
 
 type EvaluationResult =
@@ -45,16 +118,29 @@ type EvaluationResult =
 	| CodeExamplesResult
 	| OptionsResult;
 
+// Tokens, latency and cost of a model call
+interface ItemUsage {
+	modelId: string;
+	inputTokens: number;
+	outputTokens: number;
+	latencyMs: number;
+	cost: number; // USD
+}
+
 // Rubric item config type
 interface RubricItemConfig {
 	requireJustification?: boolean;
 	minValue?: number;
 	maxValue?: number;
 	rangeGuidance?: string;
+	rangeStep?: number;
 	maxExamples?: number;
 	options?: string[];
 	allowMultiple?: boolean;
 	maxSelections?: number;
+	allowOther?: boolean;
+	modelId?: string;
+	samples?: number;
 }
 
 // Types for the analysis workflow
@@ -65,6 +151,7 @@ interface AnalysisJobPayload {
 	repositoryOwner?: string; // Can be fetched from analysis record
 	repositoryName?: string; // Can be fetched from analysis record
 	branch?: string; // Can be fetched from analysis record
+	source?: RepositorySourceDescriptor; // Defaults to GitHub
 	rubricId: string;
 	userId: string;
 }
@@ -76,17 +163,13 @@ interface RubricItemPayload {
 	itemDescription: string;
 	evaluationType: "yes_no" | "range" | "comments" | "code_examples" | "options";
 	config: RubricItemConfig;
-	repositoryContent: RepositoryContent;
+	modelId: string; // Model registry id, resolved by the orchestrator
+	// Repository content and diff, stored once per analysis
+	content: EvaluationContentReference;
 }
 
-interface RepositoryContent {
-	files: Array<{
-		path: string;
-		content: string;
-		language: string;
-	}>;
-	structure: string;
-}
+// A rubric item payload with its content loaded
+type RubricItemEvaluation = RubricItemPayload & EvaluationContent;
 
 interface AnalysisProgressMetadata {
 	status: "initializing" | "fetching_repo" | "evaluating" | "completing";
@@ -150,7 +233,13 @@ export const analyzeRepository = task({
 			const repositoryName = payload.repositoryName ?? analysis.repositoryName;
 			const branch = payload.branch ?? analysis.branch;
 
-			if (!repositoryOwner || !repositoryName || !branch) {
+			const sourceDescriptor = payload.source ?? { type: "github" };
+
+			// Non-GitHub sources only use owner/name/branch as labels
+			if (
+				sourceDescriptor.type === "github" &&
+				(!repositoryOwner || !repositoryName || !branch)
+			) {
 				throw new Error("Missing repository information");
 			}
 
@@ -174,13 +263,119 @@ export const analyzeRepository = task({
 			// Determine if this is a one-off analysis
 			const isOneOff = !analysis.repositoryId;
 
-			const repositoryContent = await fetchRepositoryContent({
+			// Private repositories are read with a short-lived token scoped to
+			// the repository through the owner's GitHub App installation
+			const installationId = analysis.repository?.installationId;
+			let token: string | undefined;
+			if (sourceDescriptor.type === "github" && installationId !== undefined) {
+				const credentials = getGitHubAppCredentials();
+				if (!credentials) {
+					throw new Error("GitHub App is not configured");
+				}
+				({ token } = await createInstallationToken(
+					credentials,
+					installationId,
+					repositoryName,
+				));
+			}
+
+			// A "/tree/<branch>/<path>" URL stores the path as part of the branch
+			// name until GitHub tells us where the branch name ends
+			const refType = analysis.refType ?? "branch";
+			let resolvedBranch = branch;
+			let rootPath = analysis.rootPath;
+			let splitTreeRef = false;
+			if (
+				sourceDescriptor.type === "github" &&
+				refType === "branch" &&
+				!rootPath &&
+				branch.includes("/")
+			) {
+				const resolved = await resolveTreeRef({
+					owner: repositoryOwner,
+					name: repositoryName,
+					branch,
+					isOneOff,
+					token,
+				});
+				resolvedBranch = resolved.branch;
+				rootPath = resolved.rootPath;
+				splitTreeRef = rootPath !== undefined;
+			}
+
+			// Repository and rubric rules decide which files are considered
+			const fileRules = resolveFileRules(
+				mergeFileRules(
+					analysis.repository?.fileRules,
+					analysis.rubric?.fileRules,
+				),
+			);
+
+			// Commits, tags and pull requests are fetched through their git ref;
+			// a pull request is evaluated at its head commit
+			const source = createRepositorySource(sourceDescriptor, {
 				owner: repositoryOwner,
 				name: repositoryName,
-				branch: branch,
+				branch: toGitRef({ refType, ref: resolvedBranch }),
 				isOneOff,
+				token,
+				rootPath,
+				fileRules,
+			});
+			// Repeated analyses of the same commit reuse a stored snapshot
+			const {
+				content: repositoryContent,
+				selection,
+				manifest,
+				commitSha,
+				truncated,
+			} = await fetchRepositoryContentCached(convex, source, {
+				owner: repositoryOwner,
+				name: repositoryName,
+				rootPath,
+				fileRules,
+			});
+
+			// Keep the ranking explanation so reviewers can see what was evaluated
+			await convex.mutation(api.analyses.recordFileSelection, {
+				taskSecret: getTaskSecret(),
+				analysisId: payload.analysisId as Id<"analyses">,
+				fileSelection: selection,
+			});
+			await convex.mutation(api.analyses.recordAnalysisManifest, {
+				taskSecret: getTaskSecret(),
+				analysisId: payload.analysisId as Id<"analyses">,
+				manifest,
 			});
 
+			// Pin results to the code that was actually read
+			await convex.mutation(api.analyses.recordAnalyzedRevision, {
+				taskSecret: getTaskSecret(),
+				analysisId: payload.analysisId as Id<"analyses">,
+				commitSha: commitSha ?? undefined,
+				treeTruncated: truncated,
+				...(splitTreeRef && { branch: resolvedBranch, rootPath }),
+			});
+
+			// Diff-scoped analyses evaluate the pull request's changes, with the
+			// rest of the repository as secondary context
+			const diff =
+				analysis.scope === "diff" && analysis.refType === "pull_request"
+					? await fetchPullRequestDiff(
+							repositoryOwner,
+							repositoryName,
+							Number(branch),
+							token,
+						)
+					: undefined;
+
+			// Items load the content by reference, keeping payloads small
+			const content = await storeEvaluationContent(
+				convex,
+				payload.analysisId as Id<"analyses">,
+				{ repositoryContent, diff },
+			);
+
 			// Prepare rubric item evaluation tasks
 			progressMetadata.status = "evaluating";
 			metadata.set("progress", serializeMetadata(progressMetadata));
@@ -205,7 +400,12 @@ export const analyzeRepository = task({
 							itemDescription: item.description,
 							evaluationType: item.evaluationType,
 							config: item.config as RubricItemConfig,
-							repositoryContent,
+							modelId: resolveModelId({
+								itemModelId: item.config.modelId,
+								rubricModelId: analysis.rubric?.modelId,
+								defaultModelId: process.env.AI_DEFAULT_MODEL,
+							}),
+							content,
 						} satisfies RubricItemPayload,
 					};
 				});
@@ -280,26 +480,125 @@ export const evaluateRubricItem = task({
 				status: "processing",
 			});
 
+			const evaluation: RubricItemEvaluation = {
+				...payload,
+				...(await loadEvaluationContent(
+					convex,
+					payload.analysisId as Id<"analyses">,
+					payload.content,
+				)),
+			};
+
 			// Construct AI prompt based on evaluation type
-			const prompt = constructPrompt(payload);
+			const { prompt, budget } = constructPrompt(
+				evaluation,
+				getModel(payload.modelId).contextWindow,
+			);
+
+			// Call AI model, several times in self-consistency mode
+			const requestedSamples = Math.min(
+				Math.max(1, payload.config?.samples ?? 1),
+				MAX_SAMPLES,
+			);
+			const settled = await Promise.allSettled(
+				Array.from({ length: requestedSamples }, () =>
+					evaluateWithAI(
+						prompt,
+						payload.evaluationType,
+						payload.config,
+						payload.modelId,
+					),
+				),
+			);
+
+			// A failed sample only costs agreement; the item fails when none succeed
+			const evaluations = settled.flatMap((outcome) =>
+				outcome.status === "fulfilled" ? [outcome.value] : [],
+			);
+			const failures = settled.flatMap((outcome) =>
+				outcome.status === "rejected" ? [outcome.reason] : [],
+			);
+			if (evaluations.length === 0) {
+				throw failures[0];
+			}
+			if (failures.length > 0) {
+				console.warn(
+					`${failures.length} of ${requestedSamples} samples failed for item ${payload.itemId}:`,
+					failures,
+				);
+			}
+
+			const sampleCount = evaluations.length;
+			const samples = evaluations.map((evaluation) => evaluation.result);
+			const aggregated = aggregateSamples(payload.evaluationType, samples);
+			const result =
+				sampleCount > 1 && aggregated.agreement !== undefined
+					? {
+							...aggregated.result,
+							agreement: aggregated.agreement,
+							sampleCount,
+						}
+					: aggregated.result;
+
+			const usages = evaluations.map((evaluation) => evaluation.usage);
+			let usage: ItemUsage = {
+				modelId: payload.modelId,
+				inputTokens: usages.reduce((sum, u) => sum + u.inputTokens, 0),
+				outputTokens: usages.reduce((sum, u) => sum + u.outputTokens, 0),
+				// Samples run in parallel
+				latencyMs: Math.max(...usages.map((u) => u.latencyMs)),
+				cost: usages.reduce((sum, u) => sum + u.cost, 0),
+			};
 
-			// Call AI model
-			const result = await evaluateWithAI(
-				prompt,
-				payload.evaluationType,
-				payload.config,
+			// Changed files outside the selection are cited from their patches
+			const citableContent = withPatchedFiles(
+				evaluation.repositoryContent,
+				evaluation.diff,
 			);
 
+			let examples: CodeExample[] = [];
+			if (payload.evaluationType === "code_examples") {
+				// Samples that cited the same code at different lines now agree
+				examples = dedupeCodeExamples(
+					alignCodeExamples(
+						(result as CodeExamplesResult).examples ?? [],
+						citableContent,
+					),
+				);
+
+				const replaced = await replaceUnverifiedExamples(
+					prompt,
+					examples,
+					citableContent,
+					payload.config,
+					payload.modelId,
+				);
+				examples = replaced.examples;
+				if (replaced.usage) {
+					usage = addUsage(usage, replaced.usage);
+				}
+			}
+
+			// Merged samples can add up to more examples than the item allows
+			if (payload.config?.maxExamples !== undefined) {
+				examples = examples.slice(0, payload.config.maxExamples);
+			}
+
 			const normalizedResult =
 				payload.evaluationType === "code_examples"
 					? {
 							...result,
-							examples: alignCodeExamples(
-								(result as CodeExamplesResult).examples ?? [],
-								payload.repositoryContent,
-							),
+							examples: attachDiffLinks(examples, evaluation.diff),
 						}
-					: result;
+					: "citations" in result
+						? {
+								...result,
+								citations: verifyCitations(
+									result.citations ?? [],
+									citableContent,
+								),
+							}
+						: result;
 
 			// Update item result
 			await convex.mutation(api.analyses.updateItemResult, {
@@ -307,6 +606,9 @@ export const evaluateRubricItem = task({
 				rubricItemId: payload.itemId as Id<"rubricItems">,
 				status: "completed",
 				result: normalizedResult,
+				promptBudget: budget,
+				usage,
+				samples: sampleCount > 1 ? samples : undefined,
 			});
 
 			return {
@@ -328,431 +630,115 @@ export const evaluateRubricItem = task({
 	},
 });
 
-// Repository info for fetching content
-interface RepositoryInfo {
-	owner: string;
-	name: string;
-	branch: string;
-	isOneOff: boolean;
-}
-
-// GitHub API types
-interface GitHubTreeItem {
-	path: string;
-	mode: string;
-	type: "blob" | "tree";
-	sha: string;
-	size?: number;
-	url: string;
-}
+// Helper function to construct AI prompt based on evaluation type, fitted to
+// the model's context window
+function constructPrompt(
+	payload: RubricItemEvaluation,
+	contextWindow: number,
+): { prompt: string; budget: PromptBudget } {
+	const { itemName, itemDescription, repositoryContent, diff } = payload;
+	const instructions = constructInstructions(payload);
+
+	const assembled = assemblePrompt({
+		repositoryContent,
+		diff,
+		// Only send the parts of the repository relevant to this item
+		query: [
+			itemName,
+			itemDescription,
+			payload.config?.rangeGuidance,
+			...(payload.config?.options ?? []),
+			...(diff?.files.map((file) => file.path) ?? []),
+		]
+			.filter(Boolean)
+			.join("\n"),
+		contextWindow,
+		render: ({ structure, diffText, sections }) => {
+			const filesSection = sections
+				.map((section) =>
+					section.partial
+						? `--- ${section.path} (lines ${section.lineStart}-${section.lineEnd}) ---\n${section.content}`
+						: `--- ${section.path} ---\n${section.content}`,
+				)
+				.join("\n\n");
+
+			const basePrompt =
+				diffText !== null
+					? `\
+		You are a code reviewer evaluating the changes in pull request #${diff!.number} against specific criteria.
+		Judge the changes themselves; use the other repository files only as background.
 
-interface GitHubTreeResponse {
-	sha: string;
-	url: string;
-	tree: GitHubTreeItem[];
-	truncated: boolean;
-}
-
-// File extensions to include in analysis
-const CODE_EXTENSIONS = new Set([
-	".ts",
-	".tsx",
-	".js",
-	".jsx",
-	".py",
-	".java",
-	".go",
-	".rs",
-	".rb",
-	".php",
-	".c",
-	".cpp",
-	".h",
-	".hpp",
-	".cs",
-	".swift",
-	".kt",
-	".scala",
-	".vue",
-	".svelte",
-	".astro",
-	".md",
-	".json",
-	".yaml",
-	".yml",
-	".toml",
-	".xml",
-	".html",
-	".css",
-	".scss",
-	".less",
-	".sql",
-	".sh",
-	".bash",
-	".zsh",
-	".dockerfile",
-]);
-
-// Files to always include
-const IMPORTANT_FILES = new Set([
-	"readme.md",
-	"readme",
-	"package.json",
-	"cargo.toml",
-	"go.mod",
-	"requirements.txt",
-	"pyproject.toml",
-	"gemfile",
-	"pom.xml",
-	"build.gradle",
-	"makefile",
-	"dockerfile",
-	"docker-compose.yml",
-	"docker-compose.yaml",
-	".gitignore",
-	"license",
-	"license.md",
-	"contributing.md",
-]);
-
-// Directories to skip
-const SKIP_DIRECTORIES = new Set([
-	"node_modules",
-	".git",
-	"dist",
-	"build",
-	"out",
-	".next",
-	".nuxt",
-	"__pycache__",
-	".venv",
-	"venv",
-	"vendor",
-	"target",
-	".idea",
-	".vscode",
-	"coverage",
-	".nyc_output",
-]);
-
-// Max file size to fetch (100KB)
-const MAX_FILE_SIZE = 100 * 1024;
-
-// Max total content size (500KB to stay within AI context limits)
-const MAX_TOTAL_CONTENT_SIZE = 500 * 1024;
-
-// Max files to fetch
-const MAX_FILES = 50;
-
-// Helper to get language from file path
-function getLanguageFromPath(path: string): string {
-	const ext = path.toLowerCase().split(".").pop() || "";
-	const langMap: Record<string, string> = {
-		ts: "typescript",
-		tsx: "typescript",
-		js: "javascript",
-		jsx: "javascript",
-		py: "python",
-		java: "java",
-		go: "go",
-		rs: "rust",
-		rb: "ruby",
-		php: "php",
-		c: "c",
-		cpp: "cpp",
-		h: "c",
-		hpp: "cpp",
-		cs: "csharp",
-		swift: "swift",
-		kt: "kotlin",
-		scala: "scala",
-		vue: "vue",
-		svelte: "svelte",
-		astro: "astro",
-		md: "markdown",
-		json: "json",
-		yaml: "yaml",
-		yml: "yaml",
-		toml: "toml",
-		xml: "xml",
-		html: "html",
-		css: "css",
-		scss: "scss",
-		less: "less",
-		sql: "sql",
-		sh: "bash",
-		bash: "bash",
-		zsh: "zsh",
-		dockerfile: "dockerfile",
-	};
-	return langMap[ext] || "text";
-}
-
-// Helper to check if a file should be included
-function shouldIncludeFile(path: string, size?: number): boolean {
-	const lowerPath = path.toLowerCase();
-	const fileName = lowerPath.split("/").pop() || "";
-
-	// Skip files in excluded directories
-	const pathParts = lowerPath.split("/");
-	for (const part of pathParts) {
-		if (SKIP_DIRECTORIES.has(part)) {
-			return false;
-		}
-	}
-
-	// Skip files that are too large
-	if (size && size > MAX_FILE_SIZE) {
-		return false;
-	}
-
-	// Always include important files
-	if (IMPORTANT_FILES.has(fileName)) {
-		return true;
-	}
-
-	// Check file extension
-	const ext = "." + (fileName.split(".").pop() || "");
-	return CODE_EXTENSIONS.has(ext);
-}
-
-// Build directory tree structure string
-function buildTreeStructure(files: string[]): string {
-	const tree: Record<string, unknown> = {};
-
-	for (const file of files) {
-		const parts = file.split("/");
-		let current = tree;
-		for (let i = 0; i < parts.length; i++) {
-			const part = parts[i];
-			if (i === parts.length - 1) {
-				current[part] = null; // File
-			} else {
-				if (!current[part]) {
-					current[part] = {};
-				}
-				current[part] = current[part] as Record<string, unknown>;
-				current = current[part] as Record<string, unknown>;
-			}
-		}
-	}
-
-	function renderTree(
-		node: Record<string, unknown>,
-		prefix = "",
-		isLast = true,
-	): string {
-		const entries = Object.entries(node).sort(([a, aVal], [b, bVal]) => {
-			// Directories first
-			const aIsDir = aVal !== null;
-			const bIsDir = bVal !== null;
-			if (aIsDir !== bIsDir) return aIsDir ? -1 : 1;
-			return a.localeCompare(b);
-		});
-
-		let result = "";
-		entries.forEach(([name, value], index) => {
-			const isLastEntry = index === entries.length - 1;
-			const connector = isLastEntry ? "└── " : "├── ";
-			const childPrefix = isLastEntry ? "    " : "│   ";
-
-			if (value === null) {
-				result += `${prefix}${connector}${name}\n`;
-			} else {
-				result += `${prefix}${connector}${name}/\n`;
-				result += renderTree(
-					value as Record<string, unknown>,
-					prefix + childPrefix,
-					isLastEntry,
-				);
-			}
-		});
-
-		return result;
-	}
-
-	return renderTree(tree).trim();
-}
-
-// Helper function to fetch repository content via GitHub API
-async function fetchRepositoryContent(
-	repoInfo: RepositoryInfo,
-): Promise<RepositoryContent> {
-	console.log(
-		`Fetching content for ${repoInfo.owner}/${repoInfo.name}@${repoInfo.branch} (one-off: ${repoInfo.isOneOff})`,
-	);
-
-	const headers: Record<string, string> = {
-		Accept: "application/vnd.github.v3+json",
-		"User-Agent": "MLH-Code-Review-App",
-	};
-
-	// Use GitHub token if available (for higher rate limits)
-	const githubToken = process.env.GITHUB_TOKEN;
-	if (githubToken) {
-		headers.Authorization = `Bearer ${githubToken}`;
-	}
-
-	try {
-		// First, get the repository tree
-		const treeUrl = `https://api.github.com/repos/${repoInfo.owner}/${repoInfo.name}/git/trees/${repoInfo.branch}?recursive=1`;
-		const treeResponse = await fetch(treeUrl, { headers });
-
-		if (!treeResponse.ok) {
-			if (treeResponse.status === 404) {
-				throw new Error(
-					`Repository or branch not found: ${repoInfo.owner}/${repoInfo.name}@${repoInfo.branch}`,
-				);
-			}
-			if (treeResponse.status === 403) {
-				throw new Error(
-					"GitHub API rate limit exceeded. Please try again later.",
-				);
-			}
-			throw new Error(
-				`Failed to fetch repository tree: ${treeResponse.status} ${treeResponse.statusText}`,
-			);
-		}
-
-		const treeData = (await treeResponse.json()) as GitHubTreeResponse;
+		Repository Structure:
+		${structure}
 
-		// Filter to only include relevant files
-		const filesToFetch = treeData.tree
-			.filter(
-				(item) =>
-					item.type === "blob" && shouldIncludeFile(item.path, item.size),
-			)
-			.slice(0, MAX_FILES);
+		Pull Request Changes (unified diff, primary context):
+		${diffText}
 
-		console.log(
-			`Found ${treeData.tree.length} items, fetching ${filesToFetch.length} relevant files`,
-		);
-
-		// Fetch file contents in parallel (with concurrency limit)
-		const files: RepositoryContent["files"] = [];
-		let totalSize = 0;
-		const concurrencyLimit = 10;
-
-		for (let i = 0; i < filesToFetch.length; i += concurrencyLimit) {
-			const batch = filesToFetch.slice(i, i + concurrencyLimit);
-			const batchResults = await Promise.all(
-				batch.map(async (item) => {
-					try {
-						const contentUrl = `https://api.github.com/repos/${repoInfo.owner}/${repoInfo.name}/contents/${item.path}?ref=${repoInfo.branch}`;
-						const contentResponse = await fetch(contentUrl, { headers });
-
-						if (!contentResponse.ok) {
-							console.warn(
-								`Failed to fetch ${item.path}: ${contentResponse.status}`,
-							);
-							return null;
-						}
+		Other Repository Files (secondary context):
+		${filesSection}
 
-						const contentData = (await contentResponse.json()) as {
-							content?: string;
-							encoding?: string;
-							size: number;
-						};
-
-						if (contentData.content && contentData.encoding === "base64") {
-							const content = Buffer.from(
-								contentData.content,
-								"base64",
-							).toString("utf-8");
-							return {
-								path: item.path,
-								content,
-								language: getLanguageFromPath(item.path),
-								size: contentData.size,
-							};
-						}
-						return null;
-					} catch (error) {
-						console.warn(`Error fetching ${item.path}:`, error);
-						return null;
-					}
-				}),
-			);
+		Evaluation Criteria:
+		Name: ${itemName}
+		Description: ${itemDescription}`
+					: `\
+		You are a code reviewer evaluating a repository against specific criteria.
 
-			for (const result of batchResults) {
-				if (result && totalSize + result.size <= MAX_TOTAL_CONTENT_SIZE) {
-					files.push({
-						path: result.path,
-						content: result.content,
-						language: result.language,
-					});
-					totalSize += result.size;
-				}
-			}
+		Repository Structure:
+		${structure}
 
-			// Stop if we've reached the content limit
-			if (totalSize >= MAX_TOTAL_CONTENT_SIZE) {
-				console.log(`Reached content size limit (${totalSize} bytes)`);
-				break;
-			}
-		}
+		Files:
+		${filesSection}
 
-		// Build the directory structure
-		const allPaths = treeData.tree
-			.filter((item) => {
-				const pathParts = item.path.split("/");
-				return !pathParts.some((part) => SKIP_DIRECTORIES.has(part));
-			})
-			.map((item) => item.path);
+		Evaluation Criteria:
+		Name: ${itemName}
+		Description: ${itemDescription}`;
 
-		const structure = buildTreeStructure(allPaths.slice(0, 200)); // Limit tree size
+			return `${basePrompt}${instructions}`;
+		},
+	});
 
+	if (assembled.budget.droppedFiles.length > 0) {
 		console.log(
-			`Successfully fetched ${files.length} files (${totalSize} bytes)`,
+			`Omitted ${assembled.budget.droppedFiles.length} files from the context for ${itemName}`,
 		);
-
-		return {
-			files,
-			structure,
-		};
-	} catch (error) {
-		console.error("Error fetching repository content:", error);
-		throw error;
 	}
-}
 
-// Helper function to construct AI prompt based on evaluation type
-function constructPrompt(payload: RubricItemPayload): string {
-	const { itemName, itemDescription, evaluationType, repositoryContent } =
-		payload;
-
-	const filesSection = repositoryContent.files
-		.map((file) => `--- ${file.path} ---\n${file.content}`)
-		.join("\n\n");
-
-	const basePrompt = `\
-		You are a code reviewer evaluating a repository against specific criteria.
+	return assembled;
+}
 
-		Repository Structure:
-		${repositoryContent.structure}
+// Follow-up attempts for a range score outside the item's bounds
+const MAX_SCORE_REPAIRS = 2;
 
-		Files:
-		${filesSection}
+// Evidence for every verdict; code examples are their own evidence
+const CITATION_GUIDANCE = `
+			- "citations": array of objects pointing to the code your answer is based on, each with:
+			  - "filePath": string
+			  - "lineStart": number
+			  - "lineEnd": number
+			  - "quote": string (the cited lines, copied exactly from the file)`;
 
-		Evaluation Criteria:
-		Name: ${itemName}
-		Description: ${itemDescription}`;
+// The evaluation type's instructions, appended after the repository context
+function constructInstructions(payload: RubricItemEvaluation): string {
+	const { evaluationType, diff } = payload;
+	const requireJustification = payload.config?.requireJustification ?? false;
+	const requiredNote = requireJustification
+		? "; required, must not be empty"
+		: "";
 
 	switch (evaluationType) {
 		case "yes_no":
-			return `${basePrompt}
+			return `
 
 			Please evaluate whether this repository meets the criteria. Respond with a JSON object containing:
 			- "value": boolean (true if criteria is met, false otherwise)
-			- "justification": string (explanation of your evaluation)
+			- "justification": string (explanation of your evaluation${requiredNote})${CITATION_GUIDANCE}
 
 			Example response:
-			{"value": true, "justification": "The code follows proper TypeScript conventions..."}`;
+			{"value": true, "justification": "The code follows proper TypeScript conventions...", "citations": [{"filePath": "src/main.ts", "lineStart": 1, "lineEnd": 1, "quote": "export function main() {"}]}`;
 
 		case "range": {
 			const config = payload.config || {};
-			const min = config.minValue ?? 0;
-			const max = config.maxValue ?? 100;
+			const bounds = getRangeBounds(config);
 			const guidance = config.rangeGuidance ?? "";
 
 			console.log("Range evaluation config:", JSON.stringify(config, null, 2));
@@ -767,30 +753,42 @@ function constructPrompt(payload: RubricItemPayload): string {
 				console.warn("No range guidance provided for range evaluation");
 			}
 
-			return `${basePrompt}${guidanceSection}
-				Please evaluate this repository on a scale from ${min} to ${max}. Respond with a JSON object containing:
-				- "value": number (score between ${min} and ${max})
-				- "min": ${min}
-				- "max": ${max}
-				- "rationale": string (explanation of your score based on the guidance criteria)
+			return `${guidanceSection}
+				Please evaluate this repository on a scale ${describeRange(bounds)}. Respond with a JSON object containing:
+				- "value": number (score ${describeRange(bounds)})
+				- "rationale": string (explanation of your score based on the guidance criteria${requiredNote})${CITATION_GUIDANCE}
 
 				Example response:
-				{"value": 3, "min": ${min}, "max": ${max}, "rationale": "Based on the scoring guidance, the repository demonstrates..."}`;
+				{"value": ${clampScore((bounds.min + bounds.max) / 2, bounds)}, "rationale": "Based on the scoring guidance, the repository demonstrates...", "citations": [{"filePath": "src/main.ts", "lineStart": 1, "lineEnd": 1, "quote": "export function main() {"}]}`;
 		}
 
 		case "comments":
-			return `${basePrompt}
+			return `
 
 			Please provide detailed feedback about this repository. Respond with a JSON object containing:
-			- "feedback": string (detailed comments and suggestions)
+			- "feedback": string (detailed comments and suggestions)${
+				requireJustification
+					? `
+			- "justification": string (the reasoning behind your feedback${requiredNote})`
+					: ""
+			}${CITATION_GUIDANCE}
 
 			Example response:
-			{"feedback": "The repository shows good structure but could benefit from..."}`;
-
-		case "code_examples":
-			return `${basePrompt}
+			{"feedback": "The repository shows good structure but could benefit from...", "citations": [{"filePath": "src/main.ts", "lineStart": 1, "lineEnd": 1, "quote": "export function main() {"}]}`;
 
-			Please identify specific code examples that relate to the evaluation criteria. Respond with a JSON object containing:
+		case "code_examples": {
+			const maxExamples = payload.config?.maxExamples;
+			return `
+
+			Please identify specific code examples that relate to the evaluation criteria.${
+				diff
+					? " Take examples from the lines the pull request adds or changes, using line numbers from the new version of each file."
+					: ""
+			}${
+				maxExamples !== undefined
+					? ` Give at most ${maxExamples} example${maxExamples === 1 ? "" : "s"}, choosing the most relevant.`
+					: ""
+			} Respond with a JSON object containing:
 			- "examples": array of objects, each with:
 			  - "filePath": string
 			  - "lineStart": number
@@ -800,15 +798,22 @@ function constructPrompt(payload: RubricItemPayload): string {
 
 			Example response:
 			{"examples": [{"filePath": "src/main.ts", "lineStart": 1, "lineEnd": 3, "code": "console.log('Hello');", "explanation": "This demonstrates..."}]}`;
+		}
 
 		case "options": {
 			const config = payload.config || {};
 			const options = config.options ?? [];
 			const allowMultiple = config.allowMultiple ?? false;
 			const maxSelections = config.maxSelections;
+			const allowOther = config.allowOther ?? false;
 
 			const optionList = options.length
-				? options.map((option) => `- ${option}`).join("\n")
+				? [
+						...options.map((option) => `- ${option}`),
+						...(allowOther
+							? [`- ${OTHER_OPTION} (only if none of the above fit)`]
+							: []),
+					].join("\n")
 				: "- (no options provided)";
 
 			const selectionGuidance = allowMultiple
@@ -820,7 +825,7 @@ function constructPrompt(payload: RubricItemPayload): string {
 					? ` Select at most ${maxSelections} option${maxSelections === 1 ? "" : "s"}.`
 					: "";
 
-			return `${basePrompt}
+			return `
 
 			Options:
 			${optionList}
@@ -828,10 +833,23 @@ function constructPrompt(payload: RubricItemPayload): string {
 			${selectionGuidance}${maxGuidance}
 
 			Respond with a JSON object containing:
-			- "selections": array of strings (each must match one of the options exactly)
+			- "selections": array of strings (each must match one of the options exactly)${
+				allowOther
+					? `
+			- "otherValue": string (your own answer, required when you select "${OTHER_OPTION}")`
+					: ""
+			}
+			- "rationales": array of objects, one per selection, each with:
+			  - "option": string (the selected option)
+			  - "rationale": string (why this option applies)${
+					requireJustification
+						? `
+			- "justification": string (why these options apply${requiredNote})`
+						: ""
+				}${CITATION_GUIDANCE}
 
 			Example response:
-			{"selections": ["TypeScript"]}`;
+			{"selections": ["TypeScript"], "rationales": [{"option": "TypeScript", "rationale": "The source files are written in TypeScript..."}], "citations": [{"filePath": "src/main.ts", "lineStart": 1, "lineEnd": 1, "quote": "export function main() {"}]}`;
 		}
 
 		default:
@@ -840,87 +858,189 @@ function constructPrompt(payload: RubricItemPayload): string {
 }
 
 // Helper function to evaluate with AI
-async function evaluateWithAI(
+export async function evaluateWithAI(
 	prompt: string,
 	evaluationType: "yes_no" | "range" | "comments" | "code_examples" | "options",
-	config?: RubricItemConfig,
-): Promise<EvaluationResult> {
-	const model = "google/gemini-2.5-flash";
+	config: RubricItemConfig | undefined,
+	modelId: string,
+): Promise<{ result: EvaluationResult; usage: ItemUsage }> {
+	const model = getModel(modelId);
+
+	// The mock provider answers offline but goes through the same schemas.
+	// Its token counts are estimates; providers report their own.
+	const generate = async <T>(
+		schema: z.ZodType<T>,
+		attemptPrompt = prompt,
+	): Promise<{ result: T; usage: ItemUsage }> => {
+		const startedAt = Date.now();
+		let result: T;
+		let inputTokens: number;
+		let outputTokens: number;
+
+		if (model.provider === "mock") {
+			const parsed = schema.safeParse(
+				createMockEvaluation(attemptPrompt, evaluationType, config),
+			);
+			if (!parsed.success) {
+				throw schemaViolationError(parsed.error);
+			}
+			result = parsed.data;
+			inputTokens = estimateTokens(attemptPrompt);
+			outputTokens = estimateTokens(JSON.stringify(result));
+		} else {
+			const response = await generateObject({
+				model: model.id,
+				prompt: attemptPrompt,
+				schema,
+			}).catch((error) => {
+				// Say which of the item's rules the answer broke, rather than
+				// only that it didn't match the schema
+				if (NoObjectGeneratedError.isInstance(error) && error.text) {
+					const parsed = schema.safeParse(parseJson(error.text));
+					if (!parsed.success) {
+						throw schemaViolationError(parsed.error);
+					}
+				}
+				throw error;
+			});
+			result = response.object;
+			inputTokens = response.usage.inputTokens ?? 0;
+			outputTokens = response.usage.outputTokens ?? 0;
+		}
+
+		return {
+			result,
+			usage: {
+				modelId: model.id,
+				inputTokens,
+				outputTokens,
+				latencyMs: Date.now() - startedAt,
+				cost: computeCost(model.id, inputTokens, outputTokens),
+			},
+		};
+	};
+
+	// Free-text reasoning, which must say something when the item requires it
+	const reasoningSchema = config?.requireJustification
+		? z.string().trim().min(1, "A justification is required for this item")
+		: z.string();
+
+	const citationsSchema = z.array(
+		z.object({
+			filePath: z.string(),
+			lineStart: z.number(),
+			lineEnd: z.number(),
+			quote: z.string(),
+		}),
+	);
 
 	switch (evaluationType) {
 		case "yes_no": {
 			const schema = z.object({
 				value: z.boolean(),
-				justification: z.string(),
+				justification: reasoningSchema,
+				citations: citationsSchema,
 			});
 
-			const result = await generateObject({
-				model,
-				prompt,
-				schema,
-			});
-
-			return result.object;
+			return generate(schema);
 		}
 
 		case "range": {
+			const bounds = getRangeBounds(config);
+			const scoreSchema = z
+				.number()
+				.min(bounds.min)
+				.max(bounds.max)
+				.refine((value) => isValidScore(value, bounds), {
+					message: `Score must be ${describeRange(bounds)}`,
+				});
+			// The score is checked after generation so an answer outside the
+			// item's range can be repaired instead of failing the item
 			const schema = z.object({
 				value: z.number(),
-				min: z.number(),
-				max: z.number(),
-				rationale: z.string(),
+				rationale: reasoningSchema,
+				citations: citationsSchema,
 			});
 
-			const result = await generateObject({
-				model,
-				prompt,
-				schema,
-			});
+			let attempt = await generate(schema);
+			let usage = attempt.usage;
+			for (
+				let repair = 0;
+				repair < MAX_SCORE_REPAIRS &&
+				!scoreSchema.safeParse(attempt.result.value).success;
+				repair += 1
+			) {
+				attempt = await generate(
+					schema,
+					`${prompt}
+
+				Your previous score of ${attempt.result.value} is not allowed. The score must be ${describeRange(bounds)}. Respond again with a valid score.`,
+				);
+				usage = addUsage(usage, attempt.usage);
+			}
 
-			return result.object;
+			// The bounds come from the item, not the model; a score still out of
+			// range after the repairs is clamped to the nearest valid one
+			return {
+				result: {
+					...attempt.result,
+					value: clampScore(attempt.result.value, bounds),
+					min: bounds.min,
+					max: bounds.max,
+				},
+				usage,
+			};
 		}
 
 		case "comments": {
 			const schema = z.object({
 				feedback: z.string(),
+				citations: citationsSchema,
+				justification: config?.requireJustification
+					? reasoningSchema
+					: reasoningSchema.optional(),
 			});
 
-			const result = await generateObject({
-				model,
-				prompt,
-				schema,
-			});
-
-			return result.object;
+			return generate(schema);
 		}
 
 		case "code_examples": {
-			const schema = z.object({
-				examples: z.array(
-					z.object({
-						filePath: z.string(),
-						lineStart: z.number(),
-						lineEnd: z.number(),
-						code: z.string(),
-						explanation: z.string(),
-					}),
-				),
-			});
+			const maxExamples = config?.maxExamples;
+			let examplesSchema = z.array(
+				z.object({
+					filePath: z.string(),
+					lineStart: z.number(),
+					lineEnd: z.number(),
+					code: z.string(),
+					explanation: z.string(),
+				}),
+			);
 
-			const result = await generateObject({
-				model,
-				prompt,
-				schema,
+			if (maxExamples !== undefined) {
+				examplesSchema = examplesSchema.max(
+					maxExamples,
+					`Return at most ${maxExamples} examples`,
+				);
+			}
+
+			const schema = z.object({
+				examples: examplesSchema,
 			});
 
-			return result.object;
+			return generate(schema);
 		}
 
 		case "options": {
 			const allowMultiple = config?.allowMultiple ?? false;
 			const maxSelections = config?.maxSelections;
-			const options =
-				config?.options?.map((option) => option.toLowerCase()) ?? [];
+			const allowOther = config?.allowOther ?? false;
+			const choices = [
+				...(config?.options ?? []),
+				...(allowOther ? [OTHER_OPTION] : []),
+			];
+			const options = choices.map((option) => option.trim().toLowerCase());
+			const isOther = (selection: string) =>
+				selection.trim().toLowerCase() === OTHER_OPTION.toLowerCase();
 
 			let selectionsSchema = z.array(z.string()).min(1);
 
@@ -934,7 +1054,7 @@ async function evaluateWithAI(
 				selectionsSchema = selectionsSchema.refine(
 					(selections) =>
 						selections.every((selection) =>
-							options.includes(selection.toLowerCase()),
+							options.includes(selection.trim().toLowerCase()),
 						),
 					{
 						message: "Selections must be from the provided options list",
@@ -942,21 +1062,95 @@ async function evaluateWithAI(
 				);
 			}
 
-			const schema = z.object({
-				selections: selectionsSchema,
-			});
+			const schema = z
+				.object({
+					selections: selectionsSchema,
+					otherValue: z.string().optional(),
+					rationales: z.array(
+						z.object({ option: z.string(), rationale: z.string() }),
+					),
+					citations: citationsSchema,
+					justification: config?.requireJustification
+						? reasoningSchema
+						: reasoningSchema.optional(),
+				})
+				.refine(
+					(response) =>
+						!allowOther ||
+						!response.selections.some(isOther) ||
+						!!response.otherValue?.trim(),
+					{
+						message: `Give an answer in otherValue when selecting "${OTHER_OPTION}"`,
+						path: ["otherValue"],
+					},
+				);
 
-			const result = await generateObject({
-				model,
-				prompt,
-				schema,
-			});
+			const {
+				result: { otherValue: otherAnswer, ...response },
+				usage,
+			} = await generate(schema);
+
+			// Store the options' own spelling, so the same answer always reads
+			// the same in results, exports and sample votes
+			const selections = canonicalizeSelections(response.selections, choices);
+			const otherValue =
+				allowOther && selections.some(isOther) ? otherAnswer?.trim() : "";
+			const rationales = response.rationales.flatMap(
+				({ option, rationale }) => {
+					const [canonical] = canonicalizeSelections([option], choices);
+					return selections.includes(canonical)
+						? [{ option: canonical, rationale }]
+						: [];
+				},
+			);
 
-			return result.object;
+			return {
+				result: {
+					...response,
+					selections,
+					...(otherValue ? { otherValue } : {}),
+					rationales: rationales.filter(
+						(entry, index) =>
+							rationales.findIndex((r) => r.option === entry.option) === index,
+					),
+				},
+				usage,
+			};
 		}
 	}
 }
 
+function addUsage(total: ItemUsage, more: ItemUsage): ItemUsage {
+	return {
+		...total,
+		inputTokens: total.inputTokens + more.inputTokens,
+		outputTokens: total.outputTokens + more.outputTokens,
+		latencyMs: total.latencyMs + more.latencyMs,
+		cost: total.cost + more.cost,
+	};
+}
+
+function parseJson(text: string): unknown {
+	try {
+		return JSON.parse(text);
+	} catch {
+		return undefined;
+	}
+}
+
+function schemaViolationError(error: z.ZodError): Error {
+	const problems = error.issues
+		.map((issue) =>
+			issue.path.length > 0
+				? `${issue.path.join(".")}: ${issue.message}`
+				: issue.message,
+		)
+		.join("; ");
+	return new Error(
+		`The model's response didn't follow this item's settings: ${problems}`,
+	);
+}
+
 function alignCodeExamples(
 	examples: CodeExample[],
 	repositoryContent: RepositoryContent,
@@ -968,8 +1162,8 @@ function alignCodeExamples(
 
 	return examples.map((example) => {
 		const content = fileMap.get(example.filePath);
-		if (!content) {
-			return example;
+		if (content === undefined) {
+			return { ...example, verified: "not_found" };
 		}
 
 		const fileLines = content.split("\n");
@@ -977,93 +1171,151 @@ function alignCodeExamples(
 		const snippetLines = normalizedSnippet.lines;
 
 		if (snippetLines.length === 0) {
-			return { ...example, code: normalizedSnippet.code };
+			return {
+				...example,
+				code: normalizedSnippet.code,
+				verified: "not_found",
+			};
 		}
 
-		const startIndex = findSnippetStartIndex(
+		const { index: startIndex, match } = locateSnippet(
 			fileLines,
 			snippetLines,
 			example.lineStart,
+			{ fuzzy: true },
 		);
 
 		if (startIndex === -1) {
-			return { ...example, code: normalizedSnippet.code };
+			return {
+				...example,
+				code: normalizedSnippet.code,
+				verified: "not_found",
+			};
 		}
 
+		const lineEnd = startIndex + snippetLines.length;
 		return {
 			...example,
-			code: normalizedSnippet.code,
+			// Show what the file actually says when the snippet was a near miss
+			code:
+				match === "fuzzy"
+					? fileLines.slice(startIndex, lineEnd).join("\n")
+					: normalizedSnippet.code,
 			lineStart: startIndex + 1,
-			lineEnd: startIndex + snippetLines.length,
+			lineEnd,
+			verified: match,
 		};
 	});
 }
 
-function normalizeSnippet(code: string): { code: string; lines: string[] } {
-	const normalized = normalizeLineEndings(code);
-	const lines = normalized.split("\n");
+// Follow-up instructions naming the examples that couldn't be found, so the
+// model can swap them for snippets that exist
+function constructReplacementInstructions(unverified: CodeExample[]): string {
+	const list = unverified
+		.map(
+			(example) =>
+				`- ${example.filePath} lines ${example.lineStart}-${example.lineEnd}`,
+		)
+		.join("\n");
 
-	while (lines.length > 0 && lines[0].trim() === "") {
-		lines.shift();
-	}
+	return `
 
-	while (lines.length > 0 && lines[lines.length - 1].trim() === "") {
-		lines.pop();
-	}
-
-	return {
-		code: lines.join("\n"),
-		lines,
-	};
-}
+			These examples from an earlier answer could not be found in the repository:
+			${list}
 
-function normalizeLineEndings(value: string): string {
-	return value.replace(/\r\n/g, "\n").replace(/\r/g, "\n");
+			Respond with replacements for them only, in the same JSON format. Copy each "code" exactly from the files shown above, and leave out any example you can't back with real code.`;
 }
 
-function findSnippetStartIndex(
-	fileLines: string[],
-	snippetLines: string[],
-	preferredLineStart?: number,
-): number {
-	const comparators = [
-		(a: string, b: string) => a === b,
-		(a: string, b: string) => a.trimEnd() === b.trimEnd(),
-		(a: string, b: string) => a.trim() === b.trim(),
-	];
-
-	for (const comparator of comparators) {
-		let bestIndex = -1;
-		let bestDistance = Number.POSITIVE_INFINITY;
-
-		for (let i = 0; i <= fileLines.length - snippetLines.length; i += 1) {
-			let matches = true;
-			for (let j = 0; j < snippetLines.length; j += 1) {
-				if (!comparator(fileLines[i + j], snippetLines[j])) {
-					matches = false;
-					break;
-				}
-			}
+/**
+ * Asks once for replacements for snippets that aren't in the repository.
+ * The examples are only a supporting detail of the result, so when the retry
+ * fails the original examples are kept, still flagged as not found.
+ *
+ * @returns The merged examples, and the retry's usage when it ran
+ */
+export async function replaceUnverifiedExamples(
+	prompt: string,
+	examples: CodeExample[],
+	repositoryContent: RepositoryContent,
+	config: RubricItemConfig | undefined,
+	modelId: string,
+): Promise<{ examples: CodeExample[]; usage?: ItemUsage }> {
+	const unverified = examples.filter(
+		(example) => example.verified === "not_found",
+	);
+	if (unverified.length === 0) {
+		return { examples };
+	}
 
-			if (!matches) {
-				continue;
-			}
+	try {
+		const retry = await evaluateWithAI(
+			`${prompt}${constructReplacementInstructions(unverified)}`,
+			"code_examples",
+			config,
+			modelId,
+		);
+		const replacements = alignCodeExamples(
+			(retry.result as CodeExamplesResult).examples,
+			repositoryContent,
+		);
+		return {
+			examples: mergeReplacementExamples(examples, replacements),
+			usage: retry.usage,
+		};
+	} catch (error) {
+		console.warn("Failed to replace unverified code examples:", error);
+		return { examples };
+	}
+}
 
-			if (!preferredLineStart || preferredLineStart <= 0) {
-				return i;
-			}
+// Swap unverified examples for the replacements that were found, one for one.
+// Those left without a replacement stay, flagged, for the reader to judge.
+function mergeReplacementExamples(
+	examples: CodeExample[],
+	replacements: CodeExample[],
+): CodeExample[] {
+	const found = examples.filter((example) => example.verified !== "not_found");
+	const missing = examples.filter(
+		(example) => example.verified === "not_found",
+	);
 
-			const distance = Math.abs(i + 1 - preferredLineStart);
-			if (distance < bestDistance) {
-				bestDistance = distance;
-				bestIndex = i;
-			}
-		}
+	const seen = new Set(
+		found.map((e) => `${e.filePath}:${e.lineStart}-${e.lineEnd}`),
+	);
+	const replaced = replacements
+		.filter((example) => {
+			const key = `${example.filePath}:${example.lineStart}-${example.lineEnd}`;
+			if (example.verified === "not_found" || seen.has(key)) return false;
+			seen.add(key);
+			return true;
+		})
+		.slice(0, missing.length);
+
+	return [...found, ...replaced, ...missing.slice(replaced.length)];
+}
 
-		if (bestIndex !== -1) {
-			return bestIndex;
-		}
+// Link code examples that fall inside a changed hunk to the pull request diff
+function attachDiffLinks(
+	examples: CodeExample[],
+	diff?: PullRequestDiff,
+): CodeExample[] {
+	if (!diff) {
+		return examples;
 	}
 
-	return -1;
+	// Notebook diffs patch the stored JSON, not the rendered cells
+	return examples.map((example) =>
+		!isNotebook(example.filePath) &&
+		findDiffHunk(diff, example.filePath, example.lineStart, example.lineEnd)
+			? {
+					...example,
+					diffUrl: constructPullRequestDiffUrl(
+						diff,
+						example.filePath,
+						example.lineStart,
+						example.lineEnd,
+					),
+				}
+			: example,
+	);
 }
@@ -0,0 +1,319 @@
+import { gunzipSync, inflateRawSync } from "node:zlib";
+
+export interface ArchiveEntry {
+	path: string;
+	data: Buffer;
+}
+
+// A file listed in an archive; data is only present when it was kept
+export interface ArchiveFile {
+	path: string;
+	size: number;
+	data?: Buffer;
+}
+
+// Extract regular files from a .tar.gz, .tgz, .tar or .zip archive
+export function extractArchive(data: Buffer, fileName: string): ArchiveEntry[] {
+	const lowerName = fileName.toLowerCase();
+
+	let entries: ArchiveEntry[];
+	if (lowerName.endsWith(".zip")) {
+		entries = extractZipEntries(data);
+	} else if (lowerName.endsWith(".tar.gz") || lowerName.endsWith(".tgz")) {
+		entries = extractTarEntries(gunzipSync(data));
+	} else if (lowerName.endsWith(".tar")) {
+		entries = extractTarEntries(data);
+	} else {
+		throw new Error(
+			`Unsupported archive format: ${fileName}. Use .tar.gz, .tgz, .tar or .zip`,
+		);
+	}
+
+	return stripCommonRoot(entries);
+}
+
+// Most archives wrap the repository in a single top-level folder
+// (e.g. "repo-main/"), which should not show up in file paths
+function stripCommonRoot(entries: ArchiveEntry[]): ArchiveEntry[] {
+	if (entries.length === 0) {
+		return entries;
+	}
+
+	const firstSlash = entries[0].path.indexOf("/");
+	if (firstSlash === -1) {
+		return entries;
+	}
+
+	const root = entries[0].path.slice(0, firstSlash + 1);
+	if (!entries.every((entry) => entry.path.startsWith(root))) {
+		return entries;
+	}
+
+	return entries.map((entry) => ({
+		...entry,
+		path: entry.path.slice(root.length),
+	}));
+}
+
+function normalizeEntryPath(path: string, stripComponents = 0): string | null {
+	const parts = path
+		.replace(/\\/g, "/")
+		.split("/")
+		.filter((part) => part && part !== ".")
+		.slice(stripComponents);
+
+	// Never allow entries to escape the archive root
+	if (parts.includes("..")) {
+		return null;
+	}
+
+	return parts.length > 0 ? parts.join("/") : null;
+}
+
+const TAR_BLOCK_SIZE = 512;
+
+function readTarString(block: Buffer, offset: number, length: number): string {
+	const field = block.subarray(offset, offset + length);
+	const end = field.indexOf(0);
+	return field.subarray(0, end === -1 ? field.length : end).toString("utf-8");
+}
+
+function readTarSize(block: Buffer): number {
+	const field = readTarString(block, 124, 12).trim();
+	return field ? Number.parseInt(field, 8) : 0;
+}
+
+function parsePaxPath(data: Buffer): string | undefined {
+	// PAX records look like "<length> <key>=<value>\n"
+	for (const record of data.toString("utf-8").split("\n")) {
+		const match = record.match(/^\d+ path=(.*)$/);
+		if (match) {
+			return match[1];
+		}
+	}
+	return undefined;
+}
+
+export interface TarExtractOptions {
+	// Decides whether an entry's content is kept in memory
+	filter?: (path: string, size: number) => boolean;
+	// Number of leading path components to drop (like `tar --strip-components`)
+	stripComponents?: number;
+}
+
+interface TarEntryState {
+	type: string;
+	path: string | null;
+	size: number;
+	remaining: number;
+	keep: boolean;
+	chunks: Buffer[];
+}
+
+// Incremental tar reader: feed it chunks in order and it only buffers the
+// bodies of entries accepted by the filter, so large archives never have
+// to be held in memory as a whole.
+function createTarReader(options: TarExtractOptions = {}) {
+	const files: ArchiveFile[] = [];
+	const stripComponents = options.stripComponents ?? 0;
+	let pending: Buffer = Buffer.alloc(0);
+	let current: TarEntryState | null = null;
+	let pendingPath: string | undefined;
+	let finished = false;
+
+	function startEntry(header: Buffer) {
+		const size = readTarSize(header);
+		const type = String.fromCharCode(header[156] || 48);
+		const isMetadata = type === "L" || type === "x";
+		const isFile = type === "0" || type === "7";
+
+		let path: string | null = null;
+		if (!isMetadata) {
+			const name = readTarString(header, 0, 100);
+			const prefix =
+				readTarString(header, 257, 6) === "ustar"
+					? readTarString(header, 345, 155)
+					: "";
+			const rawPath = pendingPath ?? (prefix ? `${prefix}/${name}` : name);
+			pendingPath = undefined;
+
+			// Only regular files are of interest
+			if (isFile) {
+				path = normalizeEntryPath(rawPath, stripComponents);
+			}
+		}
+
+		const keep =
+			isMetadata || (path !== null && (options.filter?.(path, size) ?? true));
+
+		current = {
+			type,
+			path,
+			size,
+			remaining: Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE,
+			keep,
+			chunks: [],
+		};
+	}
+
+	function finishEntry(entry: TarEntryState) {
+		const body = entry.keep
+			? Buffer.concat(entry.chunks).subarray(0, entry.size)
+			: null;
+
+		if (entry.type === "L" && body) {
+			// GNU long file name for the next entry
+			pendingPath = readTarString(body, 0, body.length);
+		} else if (entry.type === "x" && body) {
+			pendingPath = parsePaxPath(body) ?? pendingPath;
+		} else if (entry.path) {
+			files.push({
+				path: entry.path,
+				size: entry.size,
+				...(body && { data: body }),
+			});
+		}
+	}
+
+	function push(chunk: Buffer) {
+		if (finished) {
+			return;
+		}
+
+		pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+
+		while (!finished) {
+			if (!current) {
+				if (pending.length < TAR_BLOCK_SIZE) {
+					return;
+				}
+
+				const header = pending.subarray(0, TAR_BLOCK_SIZE);
+				pending = pending.subarray(TAR_BLOCK_SIZE);
+
+				// A zero block marks the end of the archive
+				if (header.every((byte) => byte === 0)) {
+					finished = true;
+					return;
+				}
+
+				startEntry(header);
+				continue;
+			}
+
+			const entry: TarEntryState = current;
+			if (entry.remaining > 0) {
+				const take = Math.min(entry.remaining, pending.length);
+				if (take === 0) {
+					return;
+				}
+				if (entry.keep) {
+					entry.chunks.push(pending.subarray(0, take));
+				}
+				pending = pending.subarray(take);
+				entry.remaining -= take;
+			}
+
+			if (entry.remaining === 0) {
+				finishEntry(entry);
+				current = null;
+			}
+		}
+	}
+
+	return { push, files };
+}
+
+function extractTarEntries(data: Buffer): ArchiveEntry[] {
+	const reader = createTarReader();
+	reader.push(data);
+	return reader.files.map((file) => ({
+		path: file.path,
+		data: file.data ?? Buffer.alloc(0),
+	}));
+}
+
+// Extract a (decompressed) tar stream, keeping only entries accepted by the filter
+export async function extractTarStream(
+	stream: AsyncIterable<Buffer>,
+	options: TarExtractOptions = {},
+): Promise<ArchiveFile[]> {
+	const reader = createTarReader(options);
+	for await (const chunk of stream) {
+		reader.push(chunk);
+	}
+	return reader.files;
+}
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+
+function extractZipEntries(data: Buffer): ArchiveEntry[] {
+	// The end of central directory record sits within the last 64KB + 22 bytes
+	let endOffset = -1;
+	const searchStart = Math.max(0, data.length - 0xffff - 22);
+	for (let i = data.length - 22; i >= searchStart; i -= 1) {
+		if (data.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+			endOffset = i;
+			break;
+		}
+	}
+
+	if (endOffset === -1) {
+		throw new Error("Invalid zip archive: end of central directory not found");
+	}
+
+	const entryCount = data.readUInt16LE(endOffset + 10);
+	let offset = data.readUInt32LE(endOffset + 16);
+	const entries: ArchiveEntry[] = [];
+
+	for (let i = 0; i < entryCount; i += 1) {
+		if (data.readUInt32LE(offset) !== ZIP_CENTRAL_DIRECTORY_HEADER) {
+			throw new Error("Invalid zip archive: corrupt central directory");
+		}
+
+		const method = data.readUInt16LE(offset + 10);
+		const compressedSize = data.readUInt32LE(offset + 20);
+		const nameLength = data.readUInt16LE(offset + 28);
+		const extraLength = data.readUInt16LE(offset + 30);
+		const commentLength = data.readUInt16LE(offset + 32);
+		const localHeaderOffset = data.readUInt32LE(offset + 42);
+		const name = data
+			.subarray(offset + 46, offset + 46 + nameLength)
+			.toString("utf-8");
+		offset += 46 + nameLength + extraLength + commentLength;
+
+		if (name.endsWith("/")) {
+			continue;
+		}
+
+		if (data.readUInt32LE(localHeaderOffset) !== ZIP_LOCAL_FILE_HEADER) {
+			throw new Error(`Invalid zip archive: corrupt entry ${name}`);
+		}
+
+		const dataStart =
+			localHeaderOffset +
+			30 +
+			data.readUInt16LE(localHeaderOffset + 26) +
+			data.readUInt16LE(localHeaderOffset + 28);
+		const compressed = data.subarray(dataStart, dataStart + compressedSize);
+
+		let content: Buffer;
+		if (method === 0) {
+			content = Buffer.from(compressed);
+		} else if (method === 8) {
+			content = inflateRawSync(compressed);
+		} else {
+			console.warn(`Skipping ${name}: unsupported zip compression ${method}`);
+			continue;
+		}
+
+		const path = normalizeEntryPath(name);
+		if (path) {
+			entries.push({ path, data: content });
+		}
+	}
+
+	return entries;
+}
@@ -0,0 +1,217 @@
+import type { RepositoryContent } from "./repository-content";
+
+// A file and line range an evaluation points to as evidence
+export interface CitedLines {
+	filePath: string;
+	lineStart: number;
+	lineEnd: number;
+	quote: string; // The cited lines, verbatim
+}
+
+export interface Citation extends CitedLines {
+	// False when the quote isn't in the fetched file, so the citation can't
+	// be checked
+	verified: boolean;
+}
+
+export function normalizeSnippet(code: string): {
+	code: string;
+	lines: string[];
+} {
+	const normalized = normalizeLineEndings(code);
+	const lines = normalized.split("\n");
+
+	while (lines.length > 0 && lines[0].trim() === "") {
+		lines.shift();
+	}
+
+	while (lines.length > 0 && lines[lines.length - 1].trim() === "") {
+		lines.pop();
+	}
+
+	return {
+		code: lines.join("\n"),
+		lines,
+	};
+}
+
+export function normalizeLineEndings(value: string): string {
+	return value.replace(/\r\n/g, "\n").replace(/\r/g, "\n");
+}
+
+// How closely a quoted snippet matched the file it names
+export type SnippetMatch = "exact" | "whitespace" | "fuzzy" | "not_found";
+
+// Share of character pairs a window must have in common with the snippet to
+// count as a fuzzy match
+const FUZZY_MATCH_THRESHOLD = 0.85;
+
+/**
+ * Finds where a snippet starts in a file, preferring the occurrence closest to
+ * `preferredLineStart`. Tries an exact match, then one that ignores whitespace
+ * at the ends of lines, then (with `fuzzy`) the most similar run of lines.
+ */
+export function locateSnippet(
+	fileLines: string[],
+	snippetLines: string[],
+	preferredLineStart?: number,
+	{ fuzzy = false }: { fuzzy?: boolean } = {},
+): { index: number; match: SnippetMatch } {
+	const comparators: Array<{
+		match: SnippetMatch;
+		compare: (a: string, b: string) => boolean;
+	}> = [
+		{ match: "exact", compare: (a, b) => a === b },
+		{ match: "whitespace", compare: (a, b) => a.trimEnd() === b.trimEnd() },
+		{ match: "whitespace", compare: (a, b) => a.trim() === b.trim() },
+	];
+
+	for (const { match, compare } of comparators) {
+		let bestIndex = -1;
+		let bestDistance = Number.POSITIVE_INFINITY;
+
+		for (let i = 0; i <= fileLines.length - snippetLines.length; i += 1) {
+			let matches = true;
+			for (let j = 0; j < snippetLines.length; j += 1) {
+				if (!compare(fileLines[i + j], snippetLines[j])) {
+					matches = false;
+					break;
+				}
+			}
+
+			if (!matches) {
+				continue;
+			}
+
+			if (!preferredLineStart || preferredLineStart <= 0) {
+				return { index: i, match };
+			}
+
+			const distance = Math.abs(i + 1 - preferredLineStart);
+			if (distance < bestDistance) {
+				bestDistance = distance;
+				bestIndex = i;
+			}
+		}
+
+		if (bestIndex !== -1) {
+			return { index: bestIndex, match };
+		}
+	}
+
+	if (fuzzy) {
+		const index = findSimilarWindow(
+			fileLines,
+			snippetLines,
+			preferredLineStart,
+		);
+		if (index !== -1) {
+			return { index, match: "fuzzy" };
+		}
+	}
+
+	return { index: -1, match: "not_found" };
+}
+
+// The run of lines most similar to the snippet, by character pairs with
+// whitespace collapsed, or -1 when none is similar enough
+function findSimilarWindow(
+	fileLines: string[],
+	snippetLines: string[],
+	preferredLineStart?: number,
+): number {
+	const snippetPairs = characterPairs(snippetLines);
+	if (snippetPairs.size === 0) {
+		return -1;
+	}
+
+	let bestIndex = -1;
+	let bestScore = FUZZY_MATCH_THRESHOLD;
+	let bestDistance = Number.POSITIVE_INFINITY;
+
+	for (let i = 0; i <= fileLines.length - snippetLines.length; i += 1) {
+		const windowPairs = characterPairs(
+			fileLines.slice(i, i + snippetLines.length),
+		);
+		const score = diceCoefficient(snippetPairs, windowPairs);
+		const distance = preferredLineStart
+			? Math.abs(i + 1 - preferredLineStart)
+			: i;
+		if (
+			score > bestScore ||
+			(score === bestScore && bestIndex !== -1 && distance < bestDistance)
+		) {
+			bestIndex = i;
+			bestScore = score;
+			bestDistance = distance;
+		}
+	}
+
+	return bestIndex;
+}
+
+function characterPairs(lines: string[]): Map<string, number> {
+	const text = lines.join(" ").replace(/\s+/g, " ").trim();
+	const pairs = new Map<string, number>();
+	for (let i = 0; i < text.length - 1; i += 1) {
+		const pair = text.slice(i, i + 2);
+		pairs.set(pair, (pairs.get(pair) ?? 0) + 1);
+	}
+	return pairs;
+}
+
+function diceCoefficient(
+	a: Map<string, number>,
+	b: Map<string, number>,
+): number {
+	let shared = 0;
+	let total = 0;
+	for (const [pair, count] of a) {
+		shared += Math.min(count, b.get(pair) ?? 0);
+		total += count;
+	}
+	for (const count of b.values()) {
+		total += count;
+	}
+	return total === 0 ? 0 : (2 * shared) / total;
+}
+
+/**
+ * Checks citations against the fetched files. A citation is verified when its
+ * quote appears in the cited file; its line range is then corrected to where
+ * the quote actually is, preferring the match closest to the cited lines.
+ */
+export function verifyCitations(
+	citations: CitedLines[],
+	repositoryContent: RepositoryContent,
+): Citation[] {
+	const fileMap = new Map<string, string[]>();
+	for (const file of repositoryContent.files) {
+		fileMap.set(file.path, normalizeLineEndings(file.content).split("\n"));
+	}
+
+	return citations.map((citation) => {
+		const fileLines = fileMap.get(citation.filePath);
+		const quote = normalizeSnippet(citation.quote);
+		if (!fileLines || quote.lines.length === 0) {
+			return { ...citation, quote: quote.code, verified: false };
+		}
+
+		const { index: startIndex } = locateSnippet(
+			fileLines,
+			quote.lines,
+			citation.lineStart,
+		);
+		if (startIndex === -1) {
+			return { ...citation, quote: quote.code, verified: false };
+		}
+
+		return {
+			...citation,
+			quote: quote.code,
+			lineStart: startIndex + 1,
+			lineEnd: startIndex + quote.lines.length,
+			verified: true,
+		};
+	});
+}
@@ -0,0 +1,272 @@
+import type { RepositoryContent } from "./repository-content";
+
+// A contiguous slice of a repository file sent to the model
+export interface ContextSection {
+	path: string;
+	language: string;
+	content: string;
+	lineStart: number;
+	lineEnd: number;
+	// True when only part of the file is included
+	partial: boolean;
+}
+
+export interface RetrievedContext {
+	sections: ContextSection[];
+	omittedFiles: string[];
+	totalBytes: number;
+}
+
+// Max bytes of file content sent with a single rubric item
+export const MAX_ITEM_CONTEXT_SIZE = 150 * 1024;
+
+// Lines per chunk when scoring files
+const CHUNK_LINES = 60;
+
+// BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Extra score for each query term that appears in the file path
+const PATH_MATCH_WEIGHT = 2;
+
+const STOPWORDS = new Set([
+	"a",
+	"an",
+	"and",
+	"are",
+	"as",
+	"at",
+	"be",
+	"by",
+	"code",
+	"does",
+	"for",
+	"from",
+	"has",
+	"have",
+	"how",
+	"if",
+	"in",
+	"is",
+	"it",
+	"its",
+	"of",
+	"on",
+	"or",
+	"project",
+	"repository",
+	"should",
+	"that",
+	"the",
+	"this",
+	"to",
+	"use",
+	"uses",
+	"was",
+	"well",
+	"what",
+	"whether",
+	"with",
+]);
+
+function stem(token: string): string {
+	for (const suffix of ["ing", "ed", "es", "s"]) {
+		if (token.endsWith(suffix) && token.length - suffix.length >= 3) {
+			return token.slice(0, -suffix.length);
+		}
+	}
+	return token;
+}
+
+// Split text into lowercase, lightly stemmed terms. Identifiers are split on
+// camelCase and snake_case boundaries so `getUserName` matches "user name".
+export function tokenize(text: string): string[] {
+	return text
+		.replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter((token) => token.length >= 2 && !STOPWORDS.has(token))
+		.map(stem);
+}
+
+interface Chunk {
+	fileIndex: number;
+	lineStart: number;
+	lineEnd: number;
+	termCounts: Map<string, number>;
+	length: number;
+}
+
+function countTerms(terms: string[]): Map<string, number> {
+	const counts = new Map<string, number>();
+	for (const term of terms) {
+		counts.set(term, (counts.get(term) ?? 0) + 1);
+	}
+	return counts;
+}
+
+function byteLength(text: string): number {
+	return Buffer.byteLength(text, "utf-8");
+}
+
+// Select the parts of the repository most relevant to a rubric item.
+// Files are scored with BM25 over fixed-size line chunks plus a bonus for
+// query terms in the path; the best files are included whole while they fit,
+// then their best chunks. Remaining budget is filled in the original
+// (ranked) file order so generic criteria still get broad context.
+export function retrieveItemContext(
+	repositoryContent: RepositoryContent,
+	query: string,
+	maxBytes = MAX_ITEM_CONTEXT_SIZE,
+): RetrievedContext {
+	const files = repositoryContent.files;
+	const queryTerms = Array.from(new Set(tokenize(query)));
+	const fileLines = files.map((file) =>
+		file.content.replace(/\r\n/g, "\n").split("\n"),
+	);
+
+	// Split every file into chunks and index their terms
+	const chunks: Chunk[] = [];
+	fileLines.forEach((lines, fileIndex) => {
+		for (let start = 0; start < lines.length; start += CHUNK_LINES) {
+			const end = Math.min(lines.length, start + CHUNK_LINES);
+			const terms = tokenize(lines.slice(start, end).join("\n"));
+			chunks.push({
+				fileIndex,
+				lineStart: start + 1,
+				lineEnd: end,
+				termCounts: countTerms(terms),
+				length: terms.length,
+			});
+		}
+	});
+
+	const averageLength =
+		chunks.reduce((total, chunk) => total + chunk.length, 0) /
+		Math.max(1, chunks.length);
+
+	const documentFrequency = new Map<string, number>();
+	for (const term of queryTerms) {
+		documentFrequency.set(
+			term,
+			chunks.filter((chunk) => chunk.termCounts.has(term)).length,
+		);
+	}
+
+	const scoreChunk = (chunk: Chunk): number => {
+		let score = 0;
+		for (const term of queryTerms) {
+			const frequency = chunk.termCounts.get(term) ?? 0;
+			if (frequency === 0) continue;
+
+			const df = documentFrequency.get(term) ?? 0;
+			const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+			const norm =
+				BM25_K1 *
+				(1 - BM25_B + (BM25_B * chunk.length) / Math.max(1, averageLength));
+			score += (idf * (frequency * (BM25_K1 + 1))) / (frequency + norm);
+		}
+		return score;
+	};
+
+	const chunkScores = chunks.map(scoreChunk);
+	const bestChunkScores = files.map(() => 0);
+	chunks.forEach((chunk, index) => {
+		bestChunkScores[chunk.fileIndex] = Math.max(
+			bestChunkScores[chunk.fileIndex],
+			chunkScores[index],
+		);
+	});
+
+	const fileScores = files.map((file, fileIndex) => {
+		const pathTerms = new Set(tokenize(file.path));
+		const pathMatches = queryTerms.filter((term) => pathTerms.has(term)).length;
+		return bestChunkScores[fileIndex] + pathMatches * PATH_MATCH_WEIGHT;
+	});
+
+	// Relevant files first (best score first), then the rest in original order
+	const order = files
+		.map((_, index) => index)
+		.sort((a, b) => {
+			const relevantA = fileScores[a] > 0;
+			const relevantB = fileScores[b] > 0;
+			if (relevantA !== relevantB) return relevantA ? -1 : 1;
+			if (relevantA) return fileScores[b] - fileScores[a] || a - b;
+			return a - b;
+		});
+
+	const sections: ContextSection[] = [];
+	const omittedFiles: string[] = [];
+	let totalBytes = 0;
+
+	for (const fileIndex of order) {
+		const file = files[fileIndex];
+		const lines = fileLines[fileIndex];
+		const size = byteLength(file.content);
+
+		if (totalBytes + size <= maxBytes) {
+			sections.push({
+				path: file.path,
+				language: file.language,
+				content: file.content,
+				lineStart: 1,
+				lineEnd: lines.length,
+				partial: false,
+			});
+			totalBytes += size;
+			continue;
+		}
+
+		// Too big to include whole: take its matching chunks, best first
+		const fileChunks = chunks
+			.map((chunk, index) => ({ chunk, score: chunkScores[index] }))
+			.filter(({ chunk, score }) => chunk.fileIndex === fileIndex && score > 0)
+			.sort((a, b) => b.score - a.score);
+
+		const picked: Chunk[] = [];
+		for (const { chunk } of fileChunks) {
+			const chunkText = lines
+				.slice(chunk.lineStart - 1, chunk.lineEnd)
+				.join("\n");
+			// +1 for the newline that joins adjacent chunks
+			const chunkSize = byteLength(chunkText) + 1;
+			if (totalBytes + chunkSize <= maxBytes) {
+				picked.push(chunk);
+				totalBytes += chunkSize;
+			}
+		}
+
+		if (picked.length === 0) {
+			omittedFiles.push(file.path);
+			continue;
+		}
+
+		// Present picked chunks in file order, merging adjacent ones
+		picked.sort((a, b) => a.lineStart - b.lineStart);
+		let runStart = picked[0].lineStart;
+		let runEnd = picked[0].lineEnd;
+		const flush = () => {
+			sections.push({
+				path: file.path,
+				language: file.language,
+				content: lines.slice(runStart - 1, runEnd).join("\n"),
+				lineStart: runStart,
+				lineEnd: runEnd,
+				partial: true,
+			});
+		};
+		for (const chunk of picked.slice(1)) {
+			if (chunk.lineStart === runEnd + 1) {
+				runEnd = chunk.lineEnd;
+			} else {
+				flush();
+				runStart = chunk.lineStart;
+				runEnd = chunk.lineEnd;
+			}
+		}
+		flush();
+	}
+
+	return { sections, omittedFiles, totalBytes };
+}
@@ -0,0 +1,112 @@
+import { createHash } from "node:crypto";
+import type { ConvexHttpClient } from "convex/browser";
+import { api } from "../convex/_generated/api";
+import type { Id } from "../convex/_generated/dataModel";
+import { getTaskSecret } from "../lib/task-secret";
+import type { PullRequestDiff } from "./pull-request-diff";
+import type { RepositoryContent } from "./repository-content";
+
+// Everything a rubric item task evaluates, shared by all items of an analysis
+export interface EvaluationContent {
+	repositoryContent: RepositoryContent;
+	diff?: PullRequestDiff; // Primary context for diff-scoped analyses
+}
+
+// Small, fixed-size stand-in for the content in task payloads
+export interface EvaluationContentReference {
+	storageId: string;
+	sha256: string;
+}
+
+// Content already loaded by this process, keyed by hash. Workers of the same
+// analysis often share a process, so they download the content only once.
+const loadedContent = new Map<string, Promise<EvaluationContent>>();
+const MAX_LOADED_CONTENT = 4;
+
+// Upload the content once and attach it to the analysis, so item tasks can
+// load it by reference instead of carrying it in every payload
+export async function storeEvaluationContent(
+	convex: ConvexHttpClient,
+	analysisId: Id<"analyses">,
+	content: EvaluationContent,
+): Promise<EvaluationContentReference> {
+	const body = JSON.stringify(content);
+	const sha256 = createHash("sha256").update(body).digest("hex");
+
+	const taskSecret = getTaskSecret();
+	const uploadUrl = await convex.mutation(
+		api.analyses.generateContentUploadUrl,
+		{ taskSecret },
+	);
+	const response = await fetch(uploadUrl, {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body,
+	});
+	if (!response.ok) {
+		throw new Error(`Failed to upload evaluation content: ${response.status}`);
+	}
+
+	const { storageId } = (await response.json()) as { storageId: string };
+	await convex.mutation(api.analyses.attachAnalysisContent, {
+		taskSecret,
+		analysisId,
+		storageId: storageId as Id<"_storage">,
+	});
+
+	return { storageId, sha256 };
+}
+
+async function downloadEvaluationContent(
+	convex: ConvexHttpClient,
+	analysisId: Id<"analyses">,
+	reference: EvaluationContentReference,
+): Promise<EvaluationContent> {
+	const url = await convex.query(api.analyses.getAnalysisContentUrl, {
+		taskSecret: getTaskSecret(),
+		analysisId,
+		storageId: reference.storageId as Id<"_storage">,
+	});
+	if (!url) {
+		throw new Error("Evaluation content is no longer available");
+	}
+
+	const response = await fetch(url);
+	if (!response.ok) {
+		throw new Error(
+			`Failed to download evaluation content: ${response.status}`,
+		);
+	}
+
+	const body = await response.text();
+	const sha256 = createHash("sha256").update(body).digest("hex");
+	if (sha256 !== reference.sha256) {
+		throw new Error("Evaluation content does not match its reference");
+	}
+	return JSON.parse(body) as EvaluationContent;
+}
+
+// Load content stored by storeEvaluationContent
+export function loadEvaluationContent(
+	convex: ConvexHttpClient,
+	analysisId: Id<"analyses">,
+	reference: EvaluationContentReference,
+): Promise<EvaluationContent> {
+	const cached = loadedContent.get(reference.sha256);
+	if (cached) {
+		return cached;
+	}
+
+	const loading = downloadEvaluationContent(convex, analysisId, reference);
+	// Failed downloads are retried by the next caller
+	loading.catch(() => loadedContent.delete(reference.sha256));
+
+	loadedContent.set(reference.sha256, loading);
+	if (loadedContent.size > MAX_LOADED_CONTENT) {
+		const oldest = loadedContent.keys().next().value;
+		if (oldest !== undefined) {
+			loadedContent.delete(oldest);
+		}
+	}
+	return loading;
+}
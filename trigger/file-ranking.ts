@@ -0,0 +1,216 @@
+import { isMinifiedFileName, LOCKFILES } from "./generated-files";
+import { IMPORTANT_FILES } from "./repository-content";
+
+// A candidate file for evaluation, as listed by a repository source
+export interface RankableFile {
+	path: string;
+	size?: number;
+}
+
+export interface RankedFile extends RankableFile {
+	score: number;
+	reasons: string[];
+}
+
+export interface FileSelectionBudget {
+	maxFiles: number;
+	maxBytes: number;
+}
+
+export interface FileSelection {
+	selected: RankedFile[];
+	excluded: Array<RankedFile & { excludedBecause: string }>;
+}
+
+// Extensions of files that contain actual program logic
+const SOURCE_EXTENSIONS = new Set([
+	"ts",
+	"tsx",
+	"js",
+	"jsx",
+	"py",
+	"java",
+	"go",
+	"rs",
+	"rb",
+	"php",
+	"c",
+	"cpp",
+	"h",
+	"hpp",
+	"cs",
+	"swift",
+	"kt",
+	"scala",
+	"vue",
+	"svelte",
+	"astro",
+	"ipynb",
+	"sql",
+	"sh",
+	"bash",
+	"zsh",
+]);
+
+const CONFIG_EXTENSIONS = new Set(["json", "yaml", "yml", "toml", "xml"]);
+
+const MARKUP_EXTENSIONS = new Set(["html", "css", "scss", "less"]);
+
+// Base names (without extension) that usually start a program
+const ENTRYPOINT_NAMES = new Set([
+	"main",
+	"index",
+	"app",
+	"server",
+	"cli",
+	"program",
+	"lib",
+	"mod",
+	"__main__",
+	"manage",
+	"wsgi",
+	"asgi",
+]);
+
+// Directories conventionally holding the project's own source code
+const SOURCE_DIRECTORIES = new Set([
+	"src",
+	"lib",
+	"app",
+	"apps",
+	"pkg",
+	"cmd",
+	"internal",
+	"server",
+	"api",
+	"components",
+]);
+
+const TEST_DIRECTORIES = new Set([
+	"test",
+	"tests",
+	"__tests__",
+	"spec",
+	"specs",
+	"e2e",
+]);
+
+const GENERATED_DIRECTORIES = new Set([
+	"_generated",
+	"generated",
+	"__generated__",
+]);
+
+function isTestFile(parts: string[], fileName: string): boolean {
+	return (
+		parts.slice(0, -1).some((part) => TEST_DIRECTORIES.has(part)) ||
+		/(^test_|[._-](test|spec)\.)/.test(fileName)
+	);
+}
+
+// Lockfiles and other machine-written files that say little about the code
+function isGeneratedFile(parts: string[], fileName: string): boolean {
+	return (
+		LOCKFILES.has(fileName) ||
+		parts.slice(0, -1).some((part) => GENERATED_DIRECTORIES.has(part)) ||
+		isMinifiedFileName(fileName) ||
+		/\.(generated|pb)\.\w+$/.test(fileName) ||
+		fileName.endsWith(".d.ts")
+	);
+}
+
+// Score a single file from its path and size. Higher scores are evaluated first.
+export function scoreFile(file: RankableFile): RankedFile {
+	const lowerPath = file.path.toLowerCase();
+	const parts = lowerPath.split("/");
+	const fileName = parts[parts.length - 1];
+	const extension = fileName.includes(".")
+		? (fileName.split(".").pop() ?? "")
+		: "";
+	const baseName = fileName.replace(/\.[^.]+$/, "");
+	const depth = parts.length - 1;
+
+	let score = 0;
+	const reasons: string[] = [];
+	const add = (points: number, reason: string) => {
+		score += points;
+		reasons.push(`${points > 0 ? "+" : ""}${points} ${reason}`);
+	};
+
+	if (isGeneratedFile(parts, fileName)) {
+		add(-60, "generated or lock file");
+	}
+
+	if (IMPORTANT_FILES.has(fileName)) {
+		add(
+			fileName.startsWith("readme") ? 70 : 40,
+			depth === 0 ? "top-level project file" : "project file",
+		);
+	}
+
+	if (SOURCE_EXTENSIONS.has(extension)) {
+		const isTest = isTestFile(parts, fileName);
+		add(isTest ? 15 : 30, isTest ? "test file" : "source code");
+
+		if (!isTest && ENTRYPOINT_NAMES.has(baseName) && depth <= 2) {
+			add(25, "likely entrypoint");
+		}
+	} else if (CONFIG_EXTENSIONS.has(extension)) {
+		add(5, "configuration");
+	} else if (MARKUP_EXTENSIONS.has(extension)) {
+		add(10, "markup or styles");
+	} else if (extension === "md" && !fileName.startsWith("readme")) {
+		add(2, "documentation");
+	}
+
+	if (parts.slice(0, -1).some((part) => SOURCE_DIRECTORIES.has(part))) {
+		add(5, "in a source directory");
+	}
+
+	if (depth > 1) {
+		add(-Math.min(15, (depth - 1) * 3), `nested ${depth} levels deep`);
+	}
+
+	if (file.size !== undefined) {
+		if (file.size < 64) {
+			add(-10, "nearly empty");
+		} else if (file.size > 50 * 1024) {
+			add(-10, "large file");
+		}
+	}
+
+	return { ...file, score, reasons };
+}
+
+// Rank files from most to least useful for evaluation.
+// Ties are broken by path so the order is deterministic.
+export function rankFiles(files: RankableFile[]): RankedFile[] {
+	return files
+		.map(scoreFile)
+		.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+}
+
+// Greedily pick the highest ranked files that fit within the budget
+export function selectFilesWithinBudget(
+	ranked: RankedFile[],
+	budget: FileSelectionBudget,
+): FileSelection {
+	const selected: RankedFile[] = [];
+	const excluded: FileSelection["excluded"] = [];
+	let totalBytes = 0;
+
+	for (const file of ranked) {
+		const size = file.size ?? 0;
+
+		if (selected.length >= budget.maxFiles) {
+			excluded.push({ ...file, excludedBecause: "file limit reached" });
+		} else if (totalBytes + size > budget.maxBytes) {
+			excluded.push({ ...file, excludedBecause: "byte budget exceeded" });
+		} else {
+			selected.push(file);
+			totalBytes += size;
+		}
+	}
+
+	return { selected, excluded };
+}
@@ -0,0 +1,166 @@
+import { globToRegExp } from "../lib/file-rules";
+
+// A .gitattributes line that sets or unsets the linguist attributes
+export interface LinguistAttributeRule {
+	// Directory of the .gitattributes file; patterns are relative to it
+	directory: string;
+	pattern: string;
+	generated?: boolean;
+	vendored?: boolean;
+}
+
+// Lockfiles are generated by package managers and never worth evaluating.
+// Also used by file ranking, so keep this the one list of them.
+export const LOCKFILES = new Set([
+	"package-lock.json",
+	"npm-shrinkwrap.json",
+	"yarn.lock",
+	"pnpm-lock.yaml",
+	"bun.lock",
+	"cargo.lock",
+	"poetry.lock",
+	"pipfile.lock",
+	"uv.lock",
+	"composer.lock",
+	"gemfile.lock",
+	"go.sum",
+	"mix.lock",
+	"pubspec.lock",
+	"packages.lock.json",
+]);
+
+// Markers tools put at the top of the files they generate
+const GENERATED_MARKERS = [
+	/@generated\b/,
+	/\bDO NOT EDIT\b/,
+	/\bauto-generated\b/i,
+	/\bautomatically generated\b/i,
+];
+
+// Only the head of a file is searched for generated markers
+const GENERATED_HEADER_SIZE = 1024;
+
+// Minified files have very long lines; source code rarely averages this much
+const MINIFIED_AVERAGE_LINE_LENGTH = 300;
+const MINIFIED_MAX_LINE_LENGTH = 1000;
+const MINIFIED_MIN_SIZE = 1024;
+
+// Names minifiers give their output; expects a lowercased file name
+export function isMinifiedFileName(fileName: string): boolean {
+	return /\.min\.(js|css|mjs)$/.test(fileName);
+}
+
+export function isGitAttributesFile(path: string): boolean {
+	return path === ".gitattributes" || path.endsWith("/.gitattributes");
+}
+
+function parseAttributeValue(attribute: string, name: string): boolean | null {
+	if (attribute === name || attribute === `${name}=true`) {
+		return true;
+	}
+	if (attribute === `-${name}` || attribute === `${name}=false`) {
+		return false;
+	}
+	return null;
+}
+
+// Parse the linguist-generated and linguist-vendored rules of a .gitattributes file
+export function parseGitAttributes(
+	text: string,
+	directory = "",
+): LinguistAttributeRule[] {
+	const rules: LinguistAttributeRule[] = [];
+
+	for (const rawLine of text.split("\n")) {
+		const line = rawLine.trim();
+		if (!line || line.startsWith("#")) continue;
+
+		const [pattern, ...attributes] = line.split(/\s+/);
+		const rule: LinguistAttributeRule = { directory, pattern };
+		for (const attribute of attributes) {
+			const generated = parseAttributeValue(attribute, "linguist-generated");
+			if (generated !== null) rule.generated = generated;
+			const vendored = parseAttributeValue(attribute, "linguist-vendored");
+			if (vendored !== null) rule.vendored = vendored;
+		}
+
+		if (rule.generated !== undefined || rule.vendored !== undefined) {
+			rules.push(rule);
+		}
+	}
+
+	return rules;
+}
+
+function matchesAttributeRule(
+	path: string,
+	rule: LinguistAttributeRule,
+): boolean {
+	if (!rule.directory) {
+		return globToRegExp(rule.pattern).test(path);
+	}
+	const prefix = `${rule.directory}/`;
+	return (
+		path.startsWith(prefix) &&
+		globToRegExp(rule.pattern).test(path.slice(prefix.length))
+	);
+}
+
+// Why .gitattributes or the file name marks a file as not worth evaluating,
+// or null. Later rules override earlier ones, like git does, so rules from
+// nested .gitattributes files should come after those of their parents.
+export function getGeneratedPathReason(
+	path: string,
+	rules: LinguistAttributeRule[],
+): string | null {
+	let generated = false;
+	let vendored = false;
+	for (const rule of rules) {
+		if (!matchesAttributeRule(path, rule)) continue;
+		generated = rule.generated ?? generated;
+		vendored = rule.vendored ?? vendored;
+	}
+
+	if (generated) {
+		return "linguist-generated";
+	}
+	if (vendored) {
+		return "linguist-vendored";
+	}
+
+	const fileName = path.toLowerCase().split("/").pop() || "";
+	if (LOCKFILES.has(fileName)) {
+		return "lockfile";
+	}
+	if (isMinifiedFileName(fileName)) {
+		return "minified";
+	}
+
+	return null;
+}
+
+// Why a file's content looks minified or generated, or null
+export function getGeneratedContentReason(content: string): string | null {
+	const header = content.slice(0, GENERATED_HEADER_SIZE);
+	if (GENERATED_MARKERS.some((marker) => marker.test(header))) {
+		return "generated header";
+	}
+
+	if (content.length < MINIFIED_MIN_SIZE) {
+		return null;
+	}
+
+	const lines = content.split("\n");
+	let maxLineLength = 0;
+	for (const line of lines) {
+		maxLineLength = Math.max(maxLineLength, line.length);
+	}
+	if (
+		maxLineLength > MINIFIED_MAX_LINE_LENGTH &&
+		content.length / lines.length > MINIFIED_AVERAGE_LINE_LENGTH
+	) {
+		return "minified";
+	}
+
+	return null;
+}
@@ -0,0 +1,113 @@
+import { createHash } from "node:crypto";
+import { clampScore, getRangeBounds } from "../lib/range-scores";
+
+type EvaluationType =
+	| "yes_no"
+	| "range"
+	| "comments"
+	| "code_examples"
+	| "options";
+
+interface MockConfig {
+	minValue?: number;
+	maxValue?: number;
+	rangeStep?: number;
+	options?: string[];
+	allowMultiple?: boolean;
+	maxSelections?: number;
+	allowOther?: boolean;
+	requireJustification?: boolean;
+}
+
+// Pull the files the prompt shows, so citations point at real lines
+function findPromptFiles(
+	prompt: string,
+): Array<{ path: string; lines: string[] }> {
+	const files: Array<{ path: string; lines: string[] }> = [];
+	const pattern = /^\s*--- (.+?)(?: \(lines (\d+)-\d+\))? ---$/gm;
+	const headers = Array.from(prompt.matchAll(pattern));
+
+	headers.forEach((header, index) => {
+		const start = (header.index ?? 0) + header[0].length + 1;
+		const end = headers[index + 1]?.index ?? prompt.length;
+		const lines = prompt.slice(start, end).split("\n");
+		if (!header[2]) {
+			files.push({ path: header[1], lines });
+		}
+	});
+
+	return files;
+}
+
+/**
+ * Answers an evaluation without calling a model. The answer is derived from
+ * a hash of the prompt, so the same prompt always gets the same result, and
+ * it has the shape the evaluation type's schema expects.
+ */
+export function createMockEvaluation(
+	prompt: string,
+	evaluationType: EvaluationType,
+	config: MockConfig = {},
+): unknown {
+	const digest = createHash("sha256").update(prompt).digest();
+	const seed = digest.readUInt32BE(0);
+	const note = `Mock evaluation ${digest.toString("hex").slice(0, 8)}`;
+
+	// Cite the first non-empty line of the first whole file in the prompt
+	const file = findPromptFiles(prompt).find((candidate) =>
+		candidate.lines.some((line) => line.trim()),
+	);
+	const lineIndex = file?.lines.findIndex((line) => line.trim()) ?? -1;
+	const citations = file
+		? [
+				{
+					filePath: file.path,
+					lineStart: lineIndex + 1,
+					lineEnd: lineIndex + 1,
+					quote: file.lines[lineIndex],
+				},
+			]
+		: [];
+
+	// Types without a built-in reasoning field add one when the item asks
+	const justification = config.requireJustification
+		? { justification: note }
+		: {};
+
+	switch (evaluationType) {
+		case "yes_no":
+			return { value: seed % 2 === 0, justification: note, citations };
+
+		case "range": {
+			const bounds = getRangeBounds(config);
+			const value = clampScore(
+				bounds.min + (seed % (Math.floor(bounds.max - bounds.min) + 1)),
+				bounds,
+			);
+			return { value, rationale: note, citations };
+		}
+
+		case "comments":
+			return { feedback: note, citations, ...justification };
+
+		case "code_examples":
+			return {
+				examples: citations.map(({ quote, ...lines }) => ({
+					...lines,
+					code: quote,
+					explanation: note,
+				})),
+			};
+
+		case "options": {
+			const options = config.options?.length ? config.options : ["None"];
+			const selection = options[seed % options.length];
+			return {
+				selections: [selection],
+				rationales: [{ option: selection, rationale: note }],
+				citations,
+				...justification,
+			};
+		}
+	}
+}
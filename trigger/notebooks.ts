@@ -0,0 +1,76 @@
+// The parts of the .ipynb format (nbformat 3 and 4) that are read
+interface NotebookCell {
+	cell_type?: string;
+	source?: string | string[];
+	// nbformat 3 keeps code cell source here
+	input?: string | string[];
+}
+
+interface Notebook {
+	cells?: NotebookCell[];
+	worksheets?: Array<{ cells?: NotebookCell[] }>;
+	metadata?: {
+		kernelspec?: { language?: string };
+		language_info?: { name?: string };
+		language?: string;
+	};
+}
+
+export interface RenderedNotebook {
+	content: string;
+	language: string;
+}
+
+function joinSource(source: string | string[] | undefined): string {
+	return (Array.isArray(source) ? source.join("") : (source ?? "")).replace(
+		/\r\n/g,
+		"\n",
+	);
+}
+
+/**
+ * Renders the code and markdown cells of a Jupyter notebook as plain text,
+ * dropping outputs and metadata. Every cell starts with a "# %% [type] Cell N"
+ * marker (numbered like the notebook, empty cells included) so line numbers
+ * can be traced back to a cell.
+ *
+ * @returns null when the text isn't a notebook
+ */
+export function renderNotebook(text: string): RenderedNotebook | null {
+	let notebook: Notebook;
+	try {
+		notebook = JSON.parse(text) as Notebook;
+	} catch {
+		return null;
+	}
+
+	const cells =
+		notebook?.cells ??
+		notebook?.worksheets?.flatMap((worksheet) => worksheet.cells ?? []);
+	if (!Array.isArray(cells)) {
+		return null;
+	}
+
+	const sections: string[] = [];
+	cells.forEach((cell, index) => {
+		// Raw cells hold output formats rather than code or prose
+		if (cell.cell_type !== "markdown" && cell.cell_type !== "code") {
+			return;
+		}
+		const source = joinSource(cell.source ?? cell.input).trimEnd();
+		if (!source) {
+			return;
+		}
+		sections.push(`# %% [${cell.cell_type}] Cell ${index + 1}\n${source}`);
+	});
+
+	const metadata = notebook.metadata;
+	const language = (
+		metadata?.kernelspec?.language ??
+		metadata?.language_info?.name ??
+		metadata?.language ??
+		"python"
+	).toLowerCase();
+
+	return { content: `${sections.join("\n\n")}\n`, language };
+}
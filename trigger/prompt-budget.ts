@@ -0,0 +1,191 @@
+import {
+	type ContextSection,
+	MAX_ITEM_CONTEXT_SIZE,
+	retrieveItemContext,
+} from "./context-retrieval";
+import {
+	formatDiffForPrompt,
+	MAX_DIFF_CONTEXT_SIZE,
+	type PullRequestDiff,
+} from "./pull-request-diff";
+import type { RepositoryContent } from "./repository-content";
+
+// Rough average for code and English text; estimates err on the high side
+const BYTES_PER_TOKEN = 3.5;
+
+// Tokens kept free in the context window for the model's answer
+export const RESPONSE_TOKEN_RESERVE = 8192;
+
+// Share of the file budget the repository structure may take
+const MAX_STRUCTURE_SHARE = 0.1;
+
+// Dropped and truncated paths recorded per result
+const MAX_RECORDED_FILES = 200;
+
+// What was sent with a rubric item's prompt and what didn't fit
+export interface PromptBudget {
+	contextWindow: number;
+	tokensSent: number;
+	tokensDropped: number;
+	droppedFiles: string[]; // Capped at MAX_RECORDED_FILES
+	truncatedFiles: string[]; // Only some of their lines were sent
+	structureTruncated: boolean;
+}
+
+// The variable parts of a prompt; diffText is null outside diff mode
+export interface PromptContext {
+	structure: string;
+	diffText: string | null;
+	sections: ContextSection[];
+}
+
+function byteLength(text: string): number {
+	return Buffer.byteLength(text, "utf-8");
+}
+
+function bytesToTokens(bytes: number): number {
+	return Math.ceil(bytes / BYTES_PER_TOKEN);
+}
+
+function tokensToBytes(tokens: number): number {
+	return Math.max(0, Math.floor(tokens * BYTES_PER_TOKEN));
+}
+
+// Estimate how many tokens a model will count for the text
+export function estimateTokens(text: string): number {
+	return bytesToTokens(byteLength(text));
+}
+
+// Keep the first lines of the structure that fit, noting how many were cut
+export function truncateStructure(
+	structure: string,
+	maxBytes: number,
+): { text: string; truncated: boolean } {
+	if (byteLength(structure) <= maxBytes) {
+		return { text: structure, truncated: false };
+	}
+
+	const lines = structure.split("\n");
+	const kept: string[] = [];
+	let bytes = 0;
+	for (const line of lines) {
+		// Leave room for the note below
+		if (bytes + byteLength(line) + 1 > maxBytes - 40) break;
+		kept.push(line);
+		bytes += byteLength(line) + 1;
+	}
+
+	kept.push(`… ${lines.length - kept.length} more entries not shown`);
+	return { text: kept.join("\n"), truncated: true };
+}
+
+/**
+ * Fits a rubric item's prompt into the model's context window.
+ *
+ * `render` builds the prompt from its variable parts. Whatever it costs with
+ * those parts empty is fixed; the rest of the window, minus the response
+ * reserve, is shared out: a capped slice for the repository structure, then
+ * the pull request diff, then the most relevant files, truncated to their
+ * best chunks when they don't fit whole.
+ *
+ * @throws When the fixed part of the prompt alone doesn't fit
+ */
+export function assemblePrompt(options: {
+	repositoryContent: RepositoryContent;
+	diff?: PullRequestDiff;
+	query: string;
+	contextWindow: number;
+	render: (context: PromptContext) => string;
+}): { prompt: string; budget: PromptBudget } {
+	const { repositoryContent, diff, query, contextWindow, render } = options;
+	const maxPromptTokens = contextWindow - RESPONSE_TOKEN_RESERVE;
+
+	let available =
+		maxPromptTokens -
+		estimateTokens(
+			render({ structure: "", diffText: diff ? "" : null, sections: [] }),
+		);
+	if (available <= 0) {
+		throw new Error(
+			`Prompt does not fit the model's ${contextWindow}-token context window`,
+		);
+	}
+
+	const structure = truncateStructure(
+		repositoryContent.structure,
+		tokensToBytes(available * MAX_STRUCTURE_SHARE),
+	);
+	available -= estimateTokens(structure.text);
+
+	// In diff mode the changes come first and the repository fills what's left
+	const diffContext = diff
+		? formatDiffForPrompt(
+				diff,
+				Math.min(MAX_DIFF_CONTEXT_SIZE, tokensToBytes(available)),
+			)
+		: null;
+	available -= diffContext ? estimateTokens(diffContext.text) : 0;
+
+	// Section headers aren't counted by retrieval, so shrink the file budget
+	// until the whole prompt fits
+	let fileBytes = Math.min(
+		MAX_ITEM_CONTEXT_SIZE - (diffContext?.bytes ?? 0),
+		tokensToBytes(available),
+	);
+	for (;;) {
+		const context = retrieveItemContext(
+			repositoryContent,
+			query,
+			Math.max(0, fileBytes),
+		);
+		const prompt = render({
+			structure: structure.text,
+			diffText: diffContext?.text ?? null,
+			sections: context.sections,
+		});
+		const tokensSent = estimateTokens(prompt);
+		const overflow = tokensSent - maxPromptTokens;
+
+		if (overflow > 0 && fileBytes > 0) {
+			fileBytes -= tokensToBytes(overflow) + 1;
+			continue;
+		}
+		if (overflow > 0) {
+			throw new Error(
+				`Prompt does not fit the model's ${contextWindow}-token context window`,
+			);
+		}
+
+		const repositoryBytes = repositoryContent.files.reduce(
+			(total, file) => total + byteLength(file.content),
+			0,
+		);
+		const diffBytes = diff ? formatDiffForPrompt(diff, Infinity).bytes : 0;
+		const droppedBytes =
+			byteLength(repositoryContent.structure) -
+			byteLength(structure.text) +
+			(diffBytes - (diffContext?.bytes ?? 0)) +
+			(repositoryBytes - context.totalBytes);
+
+		return {
+			prompt,
+			budget: {
+				contextWindow,
+				tokensSent,
+				tokensDropped: bytesToTokens(Math.max(0, droppedBytes)),
+				droppedFiles: [
+					...(diffContext?.omittedFiles ?? []),
+					...context.omittedFiles,
+				].slice(0, MAX_RECORDED_FILES),
+				truncatedFiles: Array.from(
+					new Set(
+						context.sections
+							.filter((section) => section.partial)
+							.map((section) => section.path),
+					),
+				).slice(0, MAX_RECORDED_FILES),
+				structureTruncated: structure.truncated,
+			},
+		};
+	}
+}
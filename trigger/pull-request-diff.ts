@@ -0,0 +1,255 @@
+import { createHash } from "node:crypto";
+import { isNotebook } from "../lib/notebooks";
+import {
+	getLanguageFromPath,
+	type RepositoryContent,
+} from "./repository-content";
+import { createGitHubHeaders } from "./repository-source";
+
+// A file changed by a pull request, with its unified diff
+export interface PullRequestFile {
+	path: string;
+	status: string;
+	additions: number;
+	deletions: number;
+	// Missing for binary files and diffs GitHub considers too large
+	patch?: string;
+}
+
+export interface PullRequestDiff {
+	owner: string;
+	name: string;
+	number: number;
+	files: PullRequestFile[];
+	// True when the pull request changes more files than were fetched
+	truncated: boolean;
+}
+
+// A range of new-file lines shown in a diff hunk (context and additions)
+export interface DiffHunk {
+	lineStart: number;
+	lineEnd: number;
+}
+
+// Max bytes of patch text sent to the model as primary context
+export const MAX_DIFF_CONTEXT_SIZE = 100 * 1024;
+
+// GitHub returns at most 3000 files; 100 per page
+const MAX_PULL_REQUEST_FILES = 300;
+const FILES_PER_PAGE = 100;
+
+interface GitHubPullRequestFile {
+	filename: string;
+	status: string;
+	additions: number;
+	deletions: number;
+	changes: number;
+	patch?: string;
+}
+
+function hasNextPage(link: string | null): boolean {
+	return !!link && /<[^>]+>;\s*rel="next"/.test(link);
+}
+
+// Fetch the changed files and per-file unified diffs of a pull request
+export async function fetchPullRequestDiff(
+	owner: string,
+	name: string,
+	number: number,
+	token?: string,
+): Promise<PullRequestDiff> {
+	const headers = createGitHubHeaders(token);
+	const files: PullRequestFile[] = [];
+	let truncated = false;
+
+	for (let page = 1; files.length < MAX_PULL_REQUEST_FILES; page += 1) {
+		const response = await fetch(
+			`https://api.github.com/repos/${owner}/${name}/pulls/${number}/files?per_page=${FILES_PER_PAGE}&page=${page}`,
+			{ headers },
+		);
+
+		if (!response.ok) {
+			if (response.status === 404) {
+				throw new Error(`Pull request not found: ${owner}/${name}#${number}`);
+			}
+			if (response.status === 403) {
+				throw new Error(
+					"GitHub API rate limit exceeded. Please try again later.",
+				);
+			}
+			throw new Error(
+				`Failed to fetch pull request files: ${response.status} ${response.statusText}`,
+			);
+		}
+
+		const pageFiles = (await response.json()) as GitHubPullRequestFile[];
+		for (const file of pageFiles) {
+			files.push({
+				path: file.filename,
+				status: file.status,
+				additions: file.additions,
+				deletions: file.deletions,
+				patch: file.patch,
+			});
+		}
+
+		// GitHub links the next page only when there is one, so a pull request
+		// with exactly the maximum number of files isn't mistaken for a cut-off one
+		if (!hasNextPage(response.headers.get("link"))) {
+			break;
+		}
+		if (files.length >= MAX_PULL_REQUEST_FILES) {
+			truncated = true;
+		}
+	}
+
+	console.log(
+		`Fetched ${files.length} changed files for ${owner}/${name}#${number}`,
+	);
+
+	return {
+		owner,
+		name,
+		number,
+		files: files.slice(0, MAX_PULL_REQUEST_FILES),
+		truncated,
+	};
+}
+
+// New-file line ranges covered by each hunk of a unified diff
+export function parseDiffHunks(patch: string): DiffHunk[] {
+	const hunks: DiffHunk[] = [];
+
+	for (const line of patch.split("\n")) {
+		const match = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+		if (!match) continue;
+
+		const lineStart = Number(match[1]);
+		const count = match[2] === undefined ? 1 : Number(match[2]);
+		// Pure deletions have no lines on the new side
+		if (count > 0) {
+			hunks.push({ lineStart, lineEnd: lineStart + count - 1 });
+		}
+	}
+
+	return hunks;
+}
+
+// Stands in for new-file lines a patch doesn't show, so no snippet matches them
+const HIDDEN_LINE = "\u0000";
+
+// The new-file lines a unified diff shows (context and additions), at their
+// line numbers; lines outside the hunks are left as placeholders
+export function reconstructPatchedLines(patch: string): string[] {
+	const lines: string[] = [];
+	let lineNumber = 0;
+
+	for (const line of patch.split("\n")) {
+		const header = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+		if (header) {
+			lineNumber = Number(header[1]);
+			continue;
+		}
+		if (lineNumber === 0 || line.startsWith("-") || line.startsWith("\\")) {
+			continue;
+		}
+		while (lines.length < lineNumber - 1) {
+			lines.push(HIDDEN_LINE);
+		}
+		lines[lineNumber - 1] = line.slice(1);
+		lineNumber += 1;
+	}
+
+	return lines;
+}
+
+/**
+ * Adds the changed files that weren't selected as repository content, as far
+ * as their patches show them, so citations and examples taken from the diff
+ * can be checked. Notebook patches change the stored JSON rather than the
+ * rendered cells, so they are left out.
+ */
+export function withPatchedFiles(
+	content: RepositoryContent,
+	diff?: PullRequestDiff,
+): RepositoryContent {
+	if (!diff) {
+		return content;
+	}
+
+	const included = new Set(content.files.map((file) => file.path));
+	const patched = diff.files.flatMap((file) =>
+		file.patch && !included.has(file.path) && !isNotebook(file.path)
+			? [
+					{
+						path: file.path,
+						content: reconstructPatchedLines(file.patch).join("\n"),
+						language: getLanguageFromPath(file.path),
+					},
+				]
+			: [],
+	);
+
+	return patched.length > 0
+		? { ...content, files: [...content.files, ...patched] }
+		: content;
+}
+
+// Find the hunk of a changed file that overlaps the given line range
+export function findDiffHunk(
+	diff: PullRequestDiff,
+	path: string,
+	lineStart: number,
+	lineEnd: number,
+): DiffHunk | null {
+	const file = diff.files.find((f) => f.path === path);
+	if (!file?.patch) {
+		return null;
+	}
+
+	return (
+		parseDiffHunks(file.patch).find(
+			(hunk) => hunk.lineStart <= lineEnd && hunk.lineEnd >= lineStart,
+		) ?? null
+	);
+}
+
+// Link to a line range in the "Files changed" view of a pull request
+export function constructPullRequestDiffUrl(
+	diff: PullRequestDiff,
+	path: string,
+	lineStart: number,
+	lineEnd: number,
+): string {
+	const anchor = createHash("sha256").update(path).digest("hex");
+	const range =
+		lineEnd !== lineStart ? `R${lineStart}-R${lineEnd}` : `R${lineStart}`;
+	return `https://github.com/${diff.owner}/${diff.name}/pull/${diff.number}/files#diff-${anchor}${range}`;
+}
+
+// Render the diff for the prompt, skipping files that no longer fit the budget
+export function formatDiffForPrompt(
+	diff: PullRequestDiff,
+	maxBytes = MAX_DIFF_CONTEXT_SIZE,
+): { text: string; bytes: number; omittedFiles: string[] } {
+	const sections: string[] = [];
+	const omittedFiles: string[] = [];
+	let bytes = 0;
+
+	for (const file of diff.files) {
+		const header = `--- ${file.path} (${file.status}, +${file.additions} -${file.deletions}) ---`;
+		const body = file.patch ?? "(diff not available)";
+		const section = `${header}\n${body}`;
+		const size = Buffer.byteLength(section, "utf-8");
+
+		if (bytes + size > maxBytes) {
+			omittedFiles.push(file.path);
+			continue;
+		}
+
+		sections.push(section);
+		bytes += size;
+	}
+
+	return { text: sections.join("\n\n"), bytes, omittedFiles };
+}
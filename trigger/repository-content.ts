@@ -0,0 +1,618 @@
+import { createHash } from "node:crypto";
+import { type FileRules, matchesAnyGlob } from "../lib/file-rules";
+import { isNotebook } from "../lib/notebooks";
+import {
+	type RankedFile,
+	rankFiles,
+	selectFilesWithinBudget,
+} from "./file-ranking";
+import {
+	getGeneratedContentReason,
+	getGeneratedPathReason,
+	isGitAttributesFile,
+	type LinguistAttributeRule,
+	parseGitAttributes,
+} from "./generated-files";
+import { renderNotebook } from "./notebooks";
+import type { RepositorySource } from "./repository-source";
+
+export interface RepositoryContent {
+	files: Array<{
+		path: string;
+		content: string;
+		language: string;
+	}>;
+	structure: string;
+}
+
+// Why each file was (or wasn't) picked, stored on the analysis record
+export interface FileSelectionSummary {
+	totalCandidates: number;
+	selectedBytes: number;
+	selected: Array<{ path: string; score: number; reasons: string[] }>;
+	excluded: Array<{ path: string; score: number; reason: string }>;
+	// Generated, vendored, minified or binary files that were dropped
+	filtered: Array<{ path: string; reason: string }>;
+}
+
+// Every file the fetch read or left out, stored alongside the analysis
+export interface FetchManifest {
+	included: Array<{
+		path: string;
+		size: number;
+		language: string;
+		hash: string;
+	}>;
+	skipped: Array<{ path: string; reason: string; size?: number }>;
+	totals: {
+		listedFiles: number;
+		includedFiles: number;
+		includedBytes: number;
+		skippedFiles: number;
+		skippedByReason: Array<{ reason: string; count: number }>;
+	};
+}
+
+export interface FetchedRepositoryContent {
+	content: RepositoryContent;
+	selection: FileSelectionSummary;
+	manifest: FetchManifest;
+	// True when the source could only list part of the repository
+	truncated: boolean;
+}
+
+// File extensions to include in analysis
+export const CODE_EXTENSIONS = new Set([
+	".ts",
+	".tsx",
+	".js",
+	".jsx",
+	".py",
+	".java",
+	".go",
+	".rs",
+	".rb",
+	".php",
+	".c",
+	".cpp",
+	".h",
+	".hpp",
+	".cs",
+	".swift",
+	".kt",
+	".scala",
+	".vue",
+	".svelte",
+	".astro",
+	".md",
+	".json",
+	".yaml",
+	".yml",
+	".toml",
+	".xml",
+	".html",
+	".css",
+	".scss",
+	".less",
+	".sql",
+	".sh",
+	".bash",
+	".zsh",
+	".dockerfile",
+	".ipynb",
+]);
+
+// Files to always include
+export const IMPORTANT_FILES = new Set([
+	"readme.md",
+	"readme",
+	"package.json",
+	"cargo.toml",
+	"go.mod",
+	"requirements.txt",
+	"pyproject.toml",
+	"gemfile",
+	"pom.xml",
+	"build.gradle",
+	"makefile",
+	"dockerfile",
+	"docker-compose.yml",
+	"docker-compose.yaml",
+	".gitignore",
+	"license",
+	"license.md",
+	"contributing.md",
+]);
+
+// Directories to skip
+export const SKIP_DIRECTORIES = new Set([
+	"node_modules",
+	".git",
+	"dist",
+	"build",
+	"out",
+	".next",
+	".nuxt",
+	"__pycache__",
+	".venv",
+	"venv",
+	"vendor",
+	"target",
+	".idea",
+	".vscode",
+	"coverage",
+	".nyc_output",
+]);
+
+// Max file size to fetch (100KB)
+export const MAX_FILE_SIZE = 100 * 1024;
+
+// Max total content size (500KB to stay within AI context limits)
+export const MAX_TOTAL_CONTENT_SIZE = 500 * 1024;
+
+// Max files to fetch
+export const MAX_FILES = 50;
+
+// Notebooks are mostly outputs and metadata, so they may be this many times
+// larger than other files; only their cells have to fit the file size limit
+const NOTEBOOK_SIZE_FACTOR = 10;
+
+// Bytes sniffed when checking whether a file is binary
+const BINARY_SNIFF_SIZE = 8000;
+
+// Max excluded files listed in the selection summary
+const MAX_EXCLUDED_IN_SUMMARY = 50;
+
+// Max skipped files listed in the manifest; totals still count every file
+const MAX_SKIPPED_IN_MANIFEST = 1000;
+
+// Max .gitattributes files read per repository
+const MAX_GITATTRIBUTES_FILES = 10;
+
+// File rules with every budget filled in
+export interface ResolvedFileRules {
+	include: string[];
+	exclude: string[];
+	maxFiles: number;
+	maxTotalBytes: number;
+	maxFileBytes: number;
+}
+
+export const DEFAULT_FILE_RULES: ResolvedFileRules = {
+	include: [],
+	exclude: [],
+	maxFiles: MAX_FILES,
+	maxTotalBytes: MAX_TOTAL_CONTENT_SIZE,
+	maxFileBytes: MAX_FILE_SIZE,
+};
+
+// Fill in the defaults for budgets the rules don't override
+export function resolveFileRules(rules?: FileRules): ResolvedFileRules {
+	return {
+		include: rules?.include ?? [],
+		exclude: rules?.exclude ?? [],
+		maxFiles: rules?.maxFiles ?? MAX_FILES,
+		maxTotalBytes: rules?.maxTotalBytes ?? MAX_TOTAL_CONTENT_SIZE,
+		maxFileBytes: rules?.maxFileBytes ?? MAX_FILE_SIZE,
+	};
+}
+
+// Helper to get language from file path
+export function getLanguageFromPath(path: string): string {
+	const ext = path.toLowerCase().split(".").pop() || "";
+	const langMap: Record<string, string> = {
+		ts: "typescript",
+		tsx: "typescript",
+		js: "javascript",
+		jsx: "javascript",
+		py: "python",
+		java: "java",
+		go: "go",
+		rs: "rust",
+		rb: "ruby",
+		php: "php",
+		c: "c",
+		cpp: "cpp",
+		h: "c",
+		hpp: "cpp",
+		cs: "csharp",
+		swift: "swift",
+		kt: "kotlin",
+		scala: "scala",
+		vue: "vue",
+		svelte: "svelte",
+		astro: "astro",
+		md: "markdown",
+		json: "json",
+		yaml: "yaml",
+		yml: "yaml",
+		toml: "toml",
+		xml: "xml",
+		html: "html",
+		css: "css",
+		scss: "scss",
+		less: "less",
+		sql: "sql",
+		sh: "bash",
+		bash: "bash",
+		zsh: "zsh",
+		dockerfile: "dockerfile",
+	};
+	return langMap[ext] || "text";
+}
+
+// Why a file is left out before ranking, or null when it should be included.
+// Include globs add files on top of the default extensions; exclude globs
+// always win.
+export function getFileExclusionReason(
+	path: string,
+	size?: number,
+	rules: ResolvedFileRules = DEFAULT_FILE_RULES,
+): string | null {
+	const lowerPath = path.toLowerCase();
+	const fileName = lowerPath.split("/").pop() || "";
+
+	// Skip files in excluded directories
+	const pathParts = lowerPath.split("/");
+	for (const part of pathParts) {
+		if (SKIP_DIRECTORIES.has(part)) {
+			return "skipped directory";
+		}
+	}
+
+	if (matchesAnyGlob(path, rules.exclude)) {
+		return "excluded by rule";
+	}
+
+	// Skip files that are too large
+	const maxSize = isNotebook(path)
+		? rules.maxFileBytes * NOTEBOOK_SIZE_FACTOR
+		: rules.maxFileBytes;
+	if (size && size > maxSize) {
+		return "file too large";
+	}
+
+	// Always include important files
+	if (IMPORTANT_FILES.has(fileName) || matchesAnyGlob(path, rules.include)) {
+		return null;
+	}
+
+	// Check file extension
+	const ext = "." + (fileName.split(".").pop() || "");
+	return CODE_EXTENSIONS.has(ext) ? null : "unsupported file type";
+}
+
+// Helper to check if a file should be included
+export function shouldIncludeFile(
+	path: string,
+	size?: number,
+	rules: ResolvedFileRules = DEFAULT_FILE_RULES,
+): boolean {
+	return getFileExclusionReason(path, size, rules) === null;
+}
+
+// Binary files decode to text with NUL characters or lots of replacement
+// characters, like git's own check
+export function isBinaryContent(content: string): boolean {
+	const sample = content.slice(0, BINARY_SNIFF_SIZE);
+	if (sample.includes("\u0000")) {
+		return true;
+	}
+	const replacements = sample.split("\uFFFD").length - 1;
+	return replacements > sample.length * 0.1;
+}
+
+// Build directory tree structure string
+export function buildTreeStructure(files: string[]): string {
+	const tree: Record<string, unknown> = {};
+
+	for (const file of files) {
+		const parts = file.split("/");
+		let current = tree;
+		for (let i = 0; i < parts.length; i++) {
+			const part = parts[i];
+			if (i === parts.length - 1) {
+				current[part] = null; // File
+			} else {
+				if (!current[part]) {
+					current[part] = {};
+				}
+				current[part] = current[part] as Record<string, unknown>;
+				current = current[part] as Record<string, unknown>;
+			}
+		}
+	}
+
+	function renderTree(
+		node: Record<string, unknown>,
+		prefix = "",
+		isLast = true,
+	): string {
+		const entries = Object.entries(node).sort(([a, aVal], [b, bVal]) => {
+			// Directories first
+			const aIsDir = aVal !== null;
+			const bIsDir = bVal !== null;
+			if (aIsDir !== bIsDir) return aIsDir ? -1 : 1;
+			return a.localeCompare(b);
+		});
+
+		let result = "";
+		entries.forEach(([name, value], index) => {
+			const isLastEntry = index === entries.length - 1;
+			const connector = isLastEntry ? "└── " : "├── ";
+			const childPrefix = isLastEntry ? "    " : "│   ";
+
+			if (value === null) {
+				result += `${prefix}${connector}${name}\n`;
+			} else {
+				result += `${prefix}${connector}${name}/\n`;
+				result += renderTree(
+					value as Record<string, unknown>,
+					prefix + childPrefix,
+					isLastEntry,
+				);
+			}
+		});
+
+		return result;
+	}
+
+	return renderTree(tree).trim();
+}
+
+// Read the linguist rules of every .gitattributes file in the listing,
+// parents before the nested files that override them
+async function loadGitAttributes(
+	source: RepositorySource,
+	entries: Array<{ path: string }>,
+): Promise<LinguistAttributeRule[]> {
+	const attributeFiles = entries
+		.map((entry) => entry.path)
+		.filter(isGitAttributesFile)
+		.sort((a, b) => a.split("/").length - b.split("/").length)
+		.slice(0, MAX_GITATTRIBUTES_FILES);
+
+	const rules: LinguistAttributeRule[] = [];
+	for (const path of attributeFiles) {
+		const text = await source.readFile(path).catch(() => null);
+		if (text !== null) {
+			const directory = path.split("/").slice(0, -1).join("/");
+			rules.push(...parseGitAttributes(text, directory));
+		}
+	}
+	return rules;
+}
+
+// Sizes are left out rather than undefined, which Convex doesn't store
+function skippedFile(
+	path: string,
+	reason: string,
+	size?: number,
+): FetchManifest["skipped"][number] {
+	return size === undefined ? { path, reason } : { path, reason, size };
+}
+
+// Number of skipped files per reason, most common first
+function countReasons(
+	skipped: FetchManifest["skipped"],
+): FetchManifest["totals"]["skippedByReason"] {
+	const counts = new Map<string, number>();
+	for (const { reason } of skipped) {
+		counts.set(reason, (counts.get(reason) ?? 0) + 1);
+	}
+	return Array.from(counts, ([reason, count]) => ({ reason, count })).sort(
+		(a, b) => b.count - a.count || a.reason.localeCompare(b.reason),
+	);
+}
+
+// Load the highest ranked files that fit the budget from a repository source.
+// Generated, vendored and minified files are dropped unless an include glob
+// asks for them explicitly.
+export async function fetchRepositoryContent(
+	source: RepositorySource,
+	rules: ResolvedFileRules = DEFAULT_FILE_RULES,
+): Promise<FetchedRepositoryContent> {
+	console.log(`Fetching content for ${source.label}`);
+
+	try {
+		const entries = await source.listFiles();
+		const attributeRules = await loadGitAttributes(source, entries);
+		const filtered: FileSelectionSummary["filtered"] = [];
+		const unlisted: FetchManifest["skipped"] = [];
+
+		// Filter to only include relevant files, then rank them
+		const candidates = entries.filter((entry) => {
+			const exclusionReason = getFileExclusionReason(
+				entry.path,
+				entry.size,
+				rules,
+			);
+			if (exclusionReason) {
+				unlisted.push(skippedFile(entry.path, exclusionReason, entry.size));
+				return false;
+			}
+			if (matchesAnyGlob(entry.path, rules.include)) {
+				return true;
+			}
+			const reason = getGeneratedPathReason(entry.path, attributeRules);
+			if (reason) {
+				filtered.push({ path: entry.path, reason });
+				return false;
+			}
+			return true;
+		});
+		// Notebooks shrink once rendered, so their listed size overstates them
+		const estimated = candidates.map((entry) =>
+			isNotebook(entry.path) && entry.size !== undefined
+				? { ...entry, size: Math.min(entry.size, rules.maxFileBytes) }
+				: entry,
+		);
+		const { selected, excluded } = selectFilesWithinBudget(
+			rankFiles(estimated),
+			{ maxFiles: rules.maxFiles, maxBytes: rules.maxTotalBytes },
+		);
+
+		console.log(
+			`Found ${entries.length} items (${candidates.length} candidates, ${filtered.length} generated or vendored), fetching ${selected.length} highest ranked files`,
+		);
+
+		// Fetch file contents in parallel (with concurrency limit)
+		const files: RepositoryContent["files"] = [];
+		const included: RankedFile[] = [];
+		const manifestFiles: FetchManifest["included"] = [];
+		const skipped: Array<{ file: RankedFile; reason: string }> = [];
+		let totalSize = 0;
+		const concurrencyLimit = 10;
+
+		for (let i = 0; i < selected.length; i += concurrencyLimit) {
+			const batch = selected.slice(i, i + concurrencyLimit);
+			const batchResults = await Promise.all(
+				batch.map(async (entry) => {
+					try {
+						const text = await source.readFile(entry.path);
+						if (text === null) {
+							return null;
+						}
+						if (isBinaryContent(text)) {
+							return { path: entry.path, reason: "binary" };
+						}
+
+						const notebook = isNotebook(entry.path)
+							? renderNotebook(text)
+							: null;
+						if (isNotebook(entry.path) && !notebook) {
+							return { path: entry.path, reason: "invalid notebook" };
+						}
+						const content = notebook?.content ?? text;
+						return {
+							path: entry.path,
+							content,
+							language: notebook?.language ?? getLanguageFromPath(entry.path),
+							size: Buffer.byteLength(content, "utf-8"),
+						};
+					} catch (error) {
+						console.warn(`Error fetching ${entry.path}:`, error);
+						return null;
+					}
+				}),
+			);
+
+			batchResults.forEach((result, index) => {
+				const entry = batch[index];
+				if (!result) {
+					skipped.push({ file: entry, reason: "fetch failed" });
+					return;
+				}
+				if (result.reason !== undefined) {
+					filtered.push({ path: result.path, reason: result.reason });
+					return;
+				}
+
+				// Content checks catch generated files the path didn't give away
+				const generatedReason = matchesAnyGlob(entry.path, rules.include)
+					? null
+					: getGeneratedContentReason(result.content);
+				if (generatedReason) {
+					filtered.push({ path: entry.path, reason: generatedReason });
+				} else if (result.size > rules.maxFileBytes) {
+					// Notebooks are only checked against the file limit once rendered
+					skipped.push({ file: entry, reason: "file too large" });
+				} else if (totalSize + result.size > rules.maxTotalBytes) {
+					// Sizes reported by the source can be estimates
+					skipped.push({ file: entry, reason: "byte budget exceeded" });
+				} else {
+					files.push({
+						path: result.path,
+						content: result.content,
+						language: result.language,
+					});
+					included.push(entry);
+					manifestFiles.push({
+						path: result.path,
+						size: result.size,
+						language: result.language,
+						hash: createHash("sha256").update(result.content).digest("hex"),
+					});
+					totalSize += result.size;
+				}
+			});
+		}
+
+		// Build the directory structure
+		const allPaths = entries
+			.filter((entry) => {
+				const pathParts = entry.path.split("/");
+				return (
+					!pathParts.some((part) => SKIP_DIRECTORIES.has(part)) &&
+					!matchesAnyGlob(entry.path, rules.exclude)
+				);
+			})
+			.map((entry) => entry.path);
+
+		const structure = buildTreeStructure(allPaths.slice(0, 200)); // Limit tree size
+
+		console.log(
+			`Successfully fetched ${files.length} files (${totalSize} bytes)`,
+		);
+
+		// Files dropped late are listed first; listing exclusions (mostly
+		// skipped directories) can run into the thousands
+		const sizes = new Map(entries.map((entry) => [entry.path, entry.size]));
+		const manifestSkipped: FetchManifest["skipped"] = [
+			...skipped.map(({ file, reason }) =>
+				skippedFile(file.path, reason, sizes.get(file.path)),
+			),
+			...excluded.map((file) =>
+				skippedFile(file.path, file.excludedBecause, sizes.get(file.path)),
+			),
+			...filtered.map(({ path, reason }) =>
+				skippedFile(path, reason, sizes.get(path)),
+			),
+			...unlisted,
+		];
+
+		return {
+			content: {
+				files,
+				structure,
+			},
+			selection: {
+				totalCandidates: candidates.length,
+				selectedBytes: totalSize,
+				selected: included.map(({ path, score, reasons }) => ({
+					path,
+					score,
+					reasons,
+				})),
+				excluded: [
+					...skipped.map(({ file, reason }) => ({
+						path: file.path,
+						score: file.score,
+						reason,
+					})),
+					...excluded.map((file) => ({
+						path: file.path,
+						score: file.score,
+						reason: file.excludedBecause,
+					})),
+				].slice(0, MAX_EXCLUDED_IN_SUMMARY),
+				filtered: filtered.slice(0, MAX_EXCLUDED_IN_SUMMARY),
+			},
+			manifest: {
+				included: manifestFiles,
+				skipped: manifestSkipped.slice(0, MAX_SKIPPED_IN_MANIFEST),
+				totals: {
+					listedFiles: entries.length,
+					includedFiles: manifestFiles.length,
+					includedBytes: totalSize,
+					skippedFiles: manifestSkipped.length,
+					skippedByReason: countReasons(manifestSkipped),
+				},
+			},
+			truncated: source.isTruncated?.() ?? false,
+		};
+	} catch (error) {
+		console.error("Error fetching repository content:", error);
+		throw error;
+	}
+}
@@ -0,0 +1,540 @@
+import { readdir, readFile, stat } from "node:fs/promises";
+import { join, relative, resolve, sep } from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import { createGunzip } from "node:zlib";
+import { splitTreeRef } from "../lib/github-url";
+import { extractArchive, extractTarStream } from "./archive";
+import { isGitAttributesFile } from "./generated-files";
+import {
+	DEFAULT_FILE_RULES,
+	type ResolvedFileRules,
+	SKIP_DIRECTORIES,
+	shouldIncludeFile,
+} from "./repository-content";
+
+// A file listed by a repository source, relative to the repository root
+export interface RepositorySourceFile {
+	path: string;
+	size?: number;
+}
+
+// Anything that can list and read the files of a repository snapshot
+export interface RepositorySource {
+	// Human-readable description used in logs
+	label: string;
+	listFiles(): Promise<RepositorySourceFile[]>;
+	// Returns null when the file cannot be read
+	readFile(path: string): Promise<string | null>;
+	// Resolve the commit SHA the source reads from, when it has one.
+	// Once resolved, later reads are pinned to that commit.
+	resolveRevision?(): Promise<string | null>;
+	// True only when the host confirms anyone may read the repository, so its
+	// content can be shared across users
+	isPublic?(): Promise<boolean>;
+	// True when the last listing was cut short by the source
+	isTruncated?(): boolean;
+}
+
+// Serializable description of where repository content comes from.
+// Passed through task payloads, so it must stay plain JSON.
+export type RepositorySourceDescriptor =
+	| { type: "github" }
+	| { type: "local"; directory: string }
+	| { type: "archive"; url: string; fileName: string };
+
+// Repository info for fetching content from GitHub
+export interface GitHubRepositoryInfo {
+	owner: string;
+	name: string;
+	branch: string;
+	isOneOff: boolean;
+	// Installation token for private repositories; falls back to GITHUB_TOKEN
+	token?: string;
+	// Only list files under this directory, e.g. one package of a monorepo.
+	// Paths stay relative to the repository root.
+	rootPath?: string;
+	// Used to skip files that won't be analyzed while extracting the archive
+	fileRules?: ResolvedFileRules;
+}
+
+// Max bytes kept in memory while extracting a GitHub tarball, as a multiple
+// of the content budget
+const EXTRACTED_CONTENT_HEADROOM = 4;
+
+// Max tree requests when a truncated tree is walked one directory at a time
+const MAX_TREE_REQUESTS = 100;
+
+// GitHub API types
+interface GitHubTreeItem {
+	path: string;
+	mode: string;
+	type: "blob" | "tree";
+	sha: string;
+	size?: number;
+	url: string;
+}
+
+interface GitHubTreeResponse {
+	sha: string;
+	url: string;
+	tree: GitHubTreeItem[];
+	truncated: boolean;
+}
+
+export function createRepositorySource(
+	descriptor: RepositorySourceDescriptor,
+	repoInfo: GitHubRepositoryInfo,
+): RepositorySource {
+	switch (descriptor.type) {
+		case "github":
+			return createGitHubSource(repoInfo);
+		case "local":
+			return createLocalDirectorySource(descriptor.directory);
+		case "archive":
+			return createArchiveSource(descriptor);
+	}
+}
+
+// Headers for GitHub REST API requests
+export function createGitHubHeaders(token?: string): Record<string, string> {
+	const headers: Record<string, string> = {
+		Accept: "application/vnd.github.v3+json",
+		"User-Agent": "MLH-Code-Review-App",
+	};
+
+	// Prefer a scoped installation token, then the global token (for higher rate limits)
+	const githubToken = token ?? process.env.GITHUB_TOKEN;
+	if (githubToken) {
+		headers.Authorization = `Bearer ${githubToken}`;
+	}
+
+	return headers;
+}
+
+// Works out which part of a "/tree/<branch>/<path>" ref names the branch.
+// The longest candidate is tried first, so branches containing slashes win
+// over a directory of the same name.
+export async function resolveTreeRef(
+	repoInfo: GitHubRepositoryInfo,
+): Promise<{ branch: string; rootPath?: string }> {
+	const headers = {
+		...createGitHubHeaders(repoInfo.token),
+		Accept: "application/vnd.github.sha",
+	};
+
+	for (const candidate of splitTreeRef(repoInfo.branch)) {
+		const response = await fetch(
+			`https://api.github.com/repos/${repoInfo.owner}/${repoInfo.name}/commits/${candidate.branch.split("/").map(encodeURIComponent).join("/")}`,
+			{ headers },
+		);
+
+		if (response.ok) {
+			return candidate;
+		}
+		if (response.status === 403) {
+			throw new Error(
+				"GitHub API rate limit exceeded. Please try again later.",
+			);
+		}
+		if (response.status !== 404 && response.status !== 422) {
+			throw new Error(
+				`Failed to resolve branch: ${response.status} ${response.statusText}`,
+			);
+		}
+	}
+
+	throw new Error(
+		`Repository or branch not found: ${repoInfo.owner}/${repoInfo.name}@${repoInfo.branch}`,
+	);
+}
+
+function joinTreePath(prefix: string, path: string): string {
+	return prefix ? `${prefix}/${path}` : path;
+}
+
+// Reads a repository from GitHub. The branch tarball is downloaded once and
+// stream-extracted in memory; the REST tree + contents API is only used as a
+// fallback when the archive cannot be downloaded or extracted.
+export function createGitHubSource(
+	repoInfo: GitHubRepositoryInfo,
+): RepositorySource {
+	const headers = createGitHubHeaders(repoInfo.token);
+	const repoUrl = `https://api.github.com/repos/${repoInfo.owner}/${repoInfo.name}`;
+
+	// Git ref used for downloads; pinned to the commit SHA once resolved
+	let ref = repoInfo.branch;
+
+	// Contents of the files kept while extracting the tarball
+	let archiveFiles: Map<string, Buffer> | null = null;
+
+	// Set when the tree listing could not be completed
+	let truncated = false;
+
+	const rootPath = repoInfo.rootPath;
+	const fileRules = repoInfo.fileRules ?? DEFAULT_FILE_RULES;
+	const maxExtractedSize = fileRules.maxTotalBytes * EXTRACTED_CONTENT_HEADROOM;
+
+	function isInRoot(path: string): boolean {
+		return !rootPath || path === rootPath || path.startsWith(`${rootPath}/`);
+	}
+
+	// Directories that have to be walked through to reach the root path
+	function isAboveRoot(path: string): boolean {
+		return !!rootPath && rootPath.startsWith(`${path}/`);
+	}
+
+	async function listArchiveFiles(): Promise<RepositorySourceFile[]> {
+		const tarballUrl = `${repoUrl}/tarball/${ref}`;
+		const response = await fetch(tarballUrl, { headers });
+
+		if (!response.ok || !response.body) {
+			throw new Error(
+				`Failed to download repository archive: ${response.status} ${response.statusText}`,
+			);
+		}
+
+		// Apply the same inclusion rules as the contents API path, so files that
+		// would be dropped later are never buffered. Files are ranked only after
+		// the whole listing is known, so keep some headroom over the content
+		// budget; selected files that didn't fit are read via the contents API.
+		let keptSize = 0;
+		const gunzip = createGunzip();
+		const download = pipeline(
+			Readable.fromWeb(response.body as NodeReadableStream),
+			gunzip,
+		);
+
+		const [files] = await Promise.all([
+			extractTarStream(gunzip, {
+				// GitHub wraps everything in an "<owner>-<repo>-<sha>/" folder
+				stripComponents: 1,
+				filter: (path, size) => {
+					// .gitattributes files are kept to spot generated files
+					if (
+						!isInRoot(path) ||
+						!(
+							shouldIncludeFile(path, size, fileRules) ||
+							isGitAttributesFile(path)
+						) ||
+						keptSize + size > maxExtractedSize
+					) {
+						return false;
+					}
+					keptSize += size;
+					return true;
+				},
+			}),
+			download,
+		]);
+
+		archiveFiles = new Map();
+		for (const file of files) {
+			if (file.data) {
+				archiveFiles.set(file.path, file.data);
+			}
+		}
+
+		console.log(
+			`Extracted ${archiveFiles.size} of ${files.length} files from the repository archive (${keptSize} bytes)`,
+		);
+
+		return files
+			.filter((file) => isInRoot(file.path))
+			.map((file) => ({ path: file.path, size: file.size }));
+	}
+
+	async function fetchTree(
+		treeSha: string,
+		recursive: boolean,
+	): Promise<GitHubTreeResponse> {
+		const treeUrl = `${repoUrl}/git/trees/${treeSha}${recursive ? "?recursive=1" : ""}`;
+		const treeResponse = await fetch(treeUrl, { headers });
+
+		if (!treeResponse.ok) {
+			if (treeResponse.status === 404) {
+				throw new Error(
+					`Repository or branch not found: ${repoInfo.owner}/${repoInfo.name}@${repoInfo.branch}`,
+				);
+			}
+			if (treeResponse.status === 403) {
+				throw new Error(
+					"GitHub API rate limit exceeded. Please try again later.",
+				);
+			}
+			throw new Error(
+				`Failed to fetch repository tree: ${treeResponse.status} ${treeResponse.statusText}`,
+			);
+		}
+
+		return (await treeResponse.json()) as GitHubTreeResponse;
+	}
+
+	async function listTreeFiles(): Promise<RepositorySourceFile[]> {
+		const files: RepositorySourceFile[] = [];
+		let requests = 0;
+		truncated = false;
+
+		// Directories inside the root path are listed recursively in a single
+		// request. When GitHub truncates that listing, or the directory is above
+		// the root path, its subtrees are walked one at a time instead.
+		async function walk(treeSha: string, prefix: string): Promise<void> {
+			if (requests >= MAX_TREE_REQUESTS) {
+				truncated = true;
+				return;
+			}
+
+			if (isInRoot(prefix)) {
+				requests += 1;
+				const tree = await fetchTree(treeSha, true);
+				if (!tree.truncated) {
+					for (const item of tree.tree) {
+						if (item.type === "blob") {
+							files.push({
+								path: joinTreePath(prefix, item.path),
+								size: item.size,
+							});
+						}
+					}
+					return;
+				}
+				console.warn(
+					`Tree listing for ${repoInfo.owner}/${repoInfo.name}/${prefix} was truncated by GitHub, walking subtrees`,
+				);
+			}
+
+			requests += 1;
+			const level = await fetchTree(treeSha, false);
+			for (const item of level.tree) {
+				const path = joinTreePath(prefix, item.path);
+				if (item.type === "blob" && isInRoot(path)) {
+					files.push({ path, size: item.size });
+				} else if (
+					item.type === "tree" &&
+					!SKIP_DIRECTORIES.has(item.path.toLowerCase()) &&
+					(isInRoot(path) || isAboveRoot(path))
+				) {
+					await walk(item.sha, path);
+				}
+			}
+		}
+
+		await walk(ref, "");
+
+		if (truncated) {
+			console.warn(
+				`Stopped listing ${repoInfo.owner}/${repoInfo.name} after ${MAX_TREE_REQUESTS} tree requests`,
+			);
+		}
+
+		return files;
+	}
+
+	async function readContentsFile(path: string): Promise<string | null> {
+		const contentUrl = `${repoUrl}/contents/${path}?ref=${ref}`;
+		const contentResponse = await fetch(contentUrl, { headers });
+
+		if (!contentResponse.ok) {
+			console.warn(`Failed to fetch ${path}: ${contentResponse.status}`);
+			return null;
+		}
+
+		const contentData = (await contentResponse.json()) as {
+			content?: string;
+			encoding?: string;
+			size: number;
+		};
+
+		if (contentData.content && contentData.encoding === "base64") {
+			return Buffer.from(contentData.content, "base64").toString("utf-8");
+		}
+		return null;
+	}
+
+	return {
+		label: `${repoInfo.owner}/${repoInfo.name}@${repoInfo.branch}${rootPath ? `:${rootPath}` : ""} (one-off: ${repoInfo.isOneOff})`,
+
+		async listFiles() {
+			try {
+				return await listArchiveFiles();
+			} catch (error) {
+				console.warn(
+					"Repository archive unavailable, falling back to the contents API:",
+					error,
+				);
+				archiveFiles = null;
+				return listTreeFiles();
+			}
+		},
+
+		async readFile(path) {
+			const archived = archiveFiles?.get(path);
+			if (archived) {
+				return archived.toString("utf-8");
+			}
+			return readContentsFile(path);
+		},
+
+		async resolveRevision() {
+			const commitResponse = await fetch(
+				`${repoUrl}/commits/${repoInfo.branch.split("/").map(encodeURIComponent).join("/")}`,
+				{ headers: { ...headers, Accept: "application/vnd.github.sha" } },
+			);
+
+			if (!commitResponse.ok) {
+				if (commitResponse.status === 404 || commitResponse.status === 422) {
+					throw new Error(
+						`Repository or branch not found: ${repoInfo.owner}/${repoInfo.name}@${repoInfo.branch}`,
+					);
+				}
+				if (commitResponse.status === 403) {
+					throw new Error(
+						"GitHub API rate limit exceeded. Please try again later.",
+					);
+				}
+				throw new Error(
+					`Failed to resolve commit: ${commitResponse.status} ${commitResponse.statusText}`,
+				);
+			}
+
+			const sha = (await commitResponse.text()).trim();
+			ref = sha;
+			return sha;
+		},
+
+		// Asks GitHub rather than trusting what was recorded when connecting;
+		// a token may read private repositories too
+		async isPublic() {
+			const response = await fetch(repoUrl, { headers });
+			if (!response.ok) {
+				return false;
+			}
+			const data = (await response.json()) as {
+				private?: boolean;
+				visibility?: string;
+			};
+			return (
+				data.private === false && (data.visibility ?? "public") === "public"
+			);
+		},
+
+		isTruncated() {
+			return truncated;
+		},
+	};
+}
+
+// Reads a repository checked out on the local filesystem
+export function createLocalDirectorySource(
+	directory: string,
+): RepositorySource {
+	const root = resolve(directory);
+
+	async function walk(current: string): Promise<RepositorySourceFile[]> {
+		const entries = await readdir(current, { withFileTypes: true });
+		const files: RepositorySourceFile[] = [];
+
+		for (const entry of entries) {
+			const fullPath = join(current, entry.name);
+
+			if (entry.isDirectory()) {
+				// Skip heavy directories up front instead of walking them
+				if (!SKIP_DIRECTORIES.has(entry.name.toLowerCase())) {
+					files.push(...(await walk(fullPath)));
+				}
+			} else if (entry.isFile()) {
+				const { size } = await stat(fullPath);
+				files.push({
+					path: relative(root, fullPath).split(sep).join("/"),
+					size,
+				});
+			}
+		}
+
+		return files;
+	}
+
+	return {
+		label: `local directory ${root}`,
+
+		async listFiles() {
+			try {
+				return await walk(root);
+			} catch (error) {
+				throw new Error(
+					`Failed to read local directory ${root}: ${error instanceof Error ? error.message : "Unknown error"}`,
+				);
+			}
+		},
+
+		async readFile(path) {
+			const fullPath = resolve(root, path);
+			if (!fullPath.startsWith(root + sep)) {
+				return null;
+			}
+
+			try {
+				return await readFile(fullPath, "utf-8");
+			} catch (error) {
+				console.warn(`Failed to read ${path}:`, error);
+				return null;
+			}
+		},
+	};
+}
+
+// Reads a repository from an uploaded .tar.gz/.zip archive.
+// The archive is downloaded and extracted once, on first use.
+export function createArchiveSource(options: {
+	url?: string;
+	data?: Buffer;
+	fileName: string;
+}): RepositorySource {
+	let filesPromise: Promise<Map<string, Buffer>> | null = null;
+
+	async function loadFiles(): Promise<Map<string, Buffer>> {
+		let data = options.data;
+
+		if (!data) {
+			if (!options.url) {
+				throw new Error("Archive source requires a URL or archive data");
+			}
+
+			const response = await fetch(options.url);
+			if (!response.ok) {
+				throw new Error(
+					`Failed to download archive ${options.fileName}: ${response.status} ${response.statusText}`,
+				);
+			}
+			data = Buffer.from(await response.arrayBuffer());
+		}
+
+		const entries = extractArchive(data, options.fileName);
+		return new Map(entries.map((entry) => [entry.path, entry.data]));
+	}
+
+	function getFiles(): Promise<Map<string, Buffer>> {
+		if (!filesPromise) {
+			filesPromise = loadFiles();
+		}
+		return filesPromise;
+	}
+
+	return {
+		label: `archive ${options.fileName}`,
+
+		async listFiles() {
+			const files = await getFiles();
+			return Array.from(files, ([path, data]) => ({
+				path,
+				size: data.length,
+			}));
+		},
+
+		async readFile(path) {
+			const files = await getFiles();
+			return files.get(path)?.toString("utf-8") ?? null;
+		},
+	};
+}
@@ -0,0 +1,132 @@
+type EvaluationType =
+	| "yes_no"
+	| "range"
+	| "comments"
+	| "code_examples"
+	| "options";
+
+// Range samples within this share of the scale agree with the median
+const RANGE_AGREEMENT_TOLERANCE = 0.1;
+
+interface ExampleLocation {
+	filePath: string;
+	lineStart: number;
+	lineEnd: number;
+	code?: string;
+}
+
+interface Sample {
+	value?: unknown;
+	min?: number;
+	max?: number;
+	selections?: string[];
+	examples?: ExampleLocation[];
+	feedback?: string;
+}
+
+export interface AggregatedSamples<T> {
+	result: T;
+	// Share of samples that agree with the result; undefined for comments and
+	// code examples, which are merged rather than voted on
+	agreement?: number;
+}
+
+// The most common key, ties going to the one seen first
+function majority<T>(samples: T[], keyOf: (sample: T) => string): T[] {
+	const groups = new Map<string, T[]>();
+	for (const sample of samples) {
+		const key = keyOf(sample);
+		groups.set(key, [...(groups.get(key) ?? []), sample]);
+	}
+	let winner: T[] = [];
+	for (const group of groups.values()) {
+		if (group.length > winner.length) winner = group;
+	}
+	return winner;
+}
+
+/**
+ * Drops repeated code examples, keeping the first. Examples repeat when they
+ * cite the same lines with the same code, ignoring whitespace. Samples often
+ * disagree on line numbers, so run this again once examples are aligned with
+ * the repository.
+ */
+export function dedupeCodeExamples<T extends ExampleLocation>(
+	examples: T[],
+): T[] {
+	const seen = new Set<string>();
+	return examples.filter((example) => {
+		const code = (example.code ?? "").replace(/\s+/g, " ").trim();
+		const key = `${example.filePath}:${example.lineStart}-${example.lineEnd}:${code}`;
+		if (seen.has(key)) return false;
+		seen.add(key);
+		return true;
+	});
+}
+
+/**
+ * Combines repeated evaluations of one item: majority vote for yes/no and
+ * options, the median sample for ranges, and the deduplicated union for code
+ * examples. Comments keep the first sample.
+ */
+export function aggregateSamples<T extends Sample>(
+	evaluationType: EvaluationType,
+	samples: T[],
+): AggregatedSamples<T> {
+	if (samples.length === 0) {
+		throw new Error("No samples to aggregate");
+	}
+
+	switch (evaluationType) {
+		case "yes_no": {
+			const winners = majority(samples, (sample) => String(sample.value));
+			return {
+				result: winners[0],
+				agreement: winners.length / samples.length,
+			};
+		}
+
+		case "options": {
+			// Vote on the whole selection, ignoring order and case
+			const winners = majority(samples, (sample) =>
+				JSON.stringify(
+					(sample.selections ?? [])
+						.map((selection) => selection.toLowerCase())
+						.sort(),
+				),
+			);
+			return {
+				result: winners[0],
+				agreement: winners.length / samples.length,
+			};
+		}
+
+		case "range": {
+			// The lower median for even counts, so the result is a real sample
+			const sorted = [...samples].sort(
+				(a, b) => Number(a.value) - Number(b.value),
+			);
+			const median = sorted[Math.floor((sorted.length - 1) / 2)];
+			const span = Math.max(0, (median.max ?? 0) - (median.min ?? 0));
+			const tolerance = span * RANGE_AGREEMENT_TOLERANCE;
+			const agreeing = samples.filter(
+				(sample) =>
+					Math.abs(Number(sample.value) - Number(median.value)) <= tolerance,
+			);
+			return {
+				result: median,
+				agreement: agreeing.length / samples.length,
+			};
+		}
+
+		case "code_examples": {
+			const examples = dedupeCodeExamples(
+				samples.flatMap((sample) => sample.examples ?? []),
+			);
+			return { result: { ...samples[0], examples } };
+		}
+
+		case "comments":
+			return { result: samples[0] };
+	}
+}
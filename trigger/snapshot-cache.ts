@@ -0,0 +1,155 @@
+import { createHash } from "node:crypto";
+import type { ConvexHttpClient } from "convex/browser";
+import { api } from "../convex/_generated/api";
+import type { Id } from "../convex/_generated/dataModel";
+import { getTaskSecret } from "../lib/task-secret";
+import {
+	DEFAULT_FILE_RULES,
+	type FetchedRepositoryContent,
+	fetchRepositoryContent,
+	type ResolvedFileRules,
+} from "./repository-content";
+import type { RepositorySource } from "./repository-source";
+
+// Bump when the shape of FetchedRepositoryContent or the file selection rules
+// change, so snapshots written by older code are not reused
+export const SNAPSHOT_VERSION = 5;
+
+export interface CachedRepositoryContent extends FetchedRepositoryContent {
+	// Commit the content was read from, when the source has one
+	commitSha: string | null;
+	cacheHit: boolean;
+}
+
+// Directory paths are case-sensitive, so only the repository and SHA are
+// lowercased. Custom file rules select different files, so they get their own key.
+export function buildSnapshotCacheKey(
+	owner: string,
+	name: string,
+	commitSha: string,
+	scope: { rootPath?: string; fileRules?: ResolvedFileRules } = {},
+): string {
+	const key = `${owner}/${name}@${commitSha}`.toLowerCase();
+	const rules = JSON.stringify(scope.fileRules ?? DEFAULT_FILE_RULES);
+	const rulesHash =
+		rules === JSON.stringify(DEFAULT_FILE_RULES)
+			? ""
+			: `:rules-${createHash("sha256").update(rules).digest("hex").slice(0, 12)}`;
+	return `${key}${scope.rootPath ? `:${scope.rootPath}` : ""}${rulesHash}:v${SNAPSHOT_VERSION}`;
+}
+
+async function readSnapshot(
+	convex: ConvexHttpClient,
+	cacheKey: string,
+): Promise<FetchedRepositoryContent | null> {
+	const snapshot = await convex.query(api.snapshots.getSnapshot, {
+		taskSecret: getTaskSecret(),
+		cacheKey,
+	});
+	if (!snapshot) {
+		return null;
+	}
+
+	const response = await fetch(snapshot.url);
+	if (!response.ok) {
+		throw new Error(`Failed to download snapshot: ${response.status}`);
+	}
+	return (await response.json()) as FetchedRepositoryContent;
+}
+
+async function writeSnapshot(
+	convex: ConvexHttpClient,
+	cacheKey: string,
+	repository: { owner: string; name: string; commitSha: string },
+	fetched: FetchedRepositoryContent,
+): Promise<void> {
+	const body = JSON.stringify(fetched);
+	const taskSecret = getTaskSecret();
+	const uploadUrl = await convex.mutation(
+		api.snapshots.generateSnapshotUploadUrl,
+		{ taskSecret },
+	);
+
+	const response = await fetch(uploadUrl, {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body,
+	});
+	if (!response.ok) {
+		throw new Error(`Failed to upload snapshot: ${response.status}`);
+	}
+
+	const { storageId } = (await response.json()) as { storageId: string };
+	await convex.mutation(api.snapshots.saveSnapshot, {
+		taskSecret,
+		cacheKey,
+		owner: repository.owner,
+		name: repository.name,
+		commitSha: repository.commitSha,
+		storageId: storageId as Id<"_storage">,
+		sizeBytes: Buffer.byteLength(body, "utf-8"),
+	});
+}
+
+// Fetch repository content, reusing a stored snapshot of the same commit when
+// one exists. Sources without a commit (local directories, archives) are
+// always fetched directly. Snapshots are shared by every analysis of the
+// commit, so only repositories the source confirms are public are cached.
+// Cache failures never fail the analysis.
+export async function fetchRepositoryContentCached(
+	convex: ConvexHttpClient,
+	source: RepositorySource,
+	repository: {
+		owner: string;
+		name: string;
+		rootPath?: string;
+		fileRules?: ResolvedFileRules;
+	},
+): Promise<CachedRepositoryContent> {
+	const commitSha = source.resolveRevision
+		? await source.resolveRevision()
+		: null;
+	const isPublic =
+		commitSha !== null && source.isPublic
+			? await source.isPublic().catch(() => false)
+			: false;
+
+	// Other repositories skip the cache but still report the commit, so
+	// their analyses are pinned and linked like any other
+	if (!commitSha || !isPublic) {
+		const fetched = await fetchRepositoryContent(source, repository.fileRules);
+		return { ...fetched, commitSha, cacheHit: false };
+	}
+
+	const cacheKey = buildSnapshotCacheKey(
+		repository.owner,
+		repository.name,
+		commitSha,
+		{ rootPath: repository.rootPath, fileRules: repository.fileRules },
+	);
+
+	try {
+		const cached = await readSnapshot(convex, cacheKey);
+		if (cached) {
+			console.log(`Using cached snapshot ${cacheKey}`);
+			return { ...cached, commitSha, cacheHit: true };
+		}
+	} catch (error) {
+		console.warn(`Failed to read snapshot ${cacheKey}:`, error);
+	}
+
+	const fetched = await fetchRepositoryContent(source, repository.fileRules);
+
+	try {
+		await writeSnapshot(
+			convex,
+			cacheKey,
+			{ owner: repository.owner, name: repository.name, commitSha },
+			fetched,
+		);
+	} catch (error) {
+		console.warn(`Failed to save snapshot ${cacheKey}:`, error);
+	}
+
+	return { ...fetched, commitSha, cacheHit: false };
+}